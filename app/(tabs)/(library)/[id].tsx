@@ -1,9 +1,12 @@
 import { AppHeader } from '@/components/app-header';
+import { CollectionPickerModal } from '@/components/library/CollectionPickerModal';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { SwipeableVerseCard } from '@/components/library/SwipeableVerseCard';
 import { VerseCardSkeleton } from '@/components/library/VerseCardSkeleton';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getScoringProfile } from '@/lib/scoring';
+import { useSettings } from '@/lib/settings';
 import { formatVerseReference, type SavedVerse, MASTERED_COLLECTION_ID } from '@/lib/storage';
 import { useAppStore, useVersesByCollection, useCollection, useHydrated, useMasteredVerses } from '@/lib/store';
 import { router, useLocalSearchParams } from 'expo-router';
@@ -15,7 +18,9 @@ import {
   Text,
   View,
   RefreshControl,
+  Alert,
 } from 'react-native';
+import * as Haptics from 'expo-haptics';
 
 export default function CollectionScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -32,12 +37,17 @@ export default function CollectionScreen() {
   const masteredVerses = useMasteredVerses();
   const hydrated = useHydrated();
   const deleteVerse = useAppStore((s) => s.deleteVerse);
+  const moveVerse = useAppStore((s) => s.moveVerse);
+  const copyVerse = useAppStore((s) => s.copyVerse);
   const refresh = useAppStore((s) => s.refresh);
+  const { settings } = useSettings();
+  const { masteryThreshold } = getScoringProfile(settings.scoringProfile);
 
   // Use mastered verses for the Mastered collection, otherwise use collection verses
   const verses = isMasteredCollection ? masteredVerses : collectionVerses;
 
   const [refreshing, setRefreshing] = useState(false);
+  const [transfer, setTransfer] = useState<{ verse: SavedVerse; mode: 'move' | 'copy' } | null>(null);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -58,6 +68,28 @@ export default function CollectionScreen() {
     await deleteVerse(verseId, id);
   };
 
+  const handleVerseLongPress = (verse: SavedVerse) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(formatVerseReference(verse), undefined, [
+      { text: 'Move to Collection', onPress: () => setTransfer({ verse, mode: 'move' }) },
+      { text: 'Copy to Collection', onPress: () => setTransfer({ verse, mode: 'copy' }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleTransfer = async (toCollectionId: string) => {
+    if (!transfer || !id) return;
+    const { verse, mode } = transfer;
+    setTransfer(null);
+
+    Haptics.selectionAsync();
+    if (mode === 'move') {
+      await moveVerse(verse.id, id, toCollectionId);
+    } else {
+      await copyVerse(verse.id, toCollectionId);
+    }
+  };
+
   const primaryColor = isDark ? '#60a5fa' : '#0a7ea4';
 
   // Sort verses by createdAt descending
@@ -73,7 +105,7 @@ export default function CollectionScreen() {
           </View>
           <Text style={[styles.emptyTitle, { color: colors.text }]}>No mastered verses yet</Text>
           <Text style={[styles.emptySubtitle, { color: colors.icon }]}>
-            Complete hard mode with 90%+ accuracy to master a verse
+            Complete hard mode with {masteryThreshold}%+ accuracy to master a verse
           </Text>
         </View>
       );
@@ -136,11 +168,20 @@ export default function CollectionScreen() {
               index={i}
               onPress={() => handleVersePress(v)}
               onDelete={() => handleDeleteVerse(v.id)}
+              onLongPress={isMasteredCollection ? undefined : () => handleVerseLongPress(v)}
               disableSwipe={isMasteredCollection}
             />
           ))
         )}
       </ScrollView>
+
+      <CollectionPickerModal
+        visible={transfer !== null}
+        title={transfer?.mode === 'copy' ? 'Copy To' : 'Move To'}
+        excludeId={id}
+        onSelect={handleTransfer}
+        onClose={() => setTransfer(null)}
+      />
     </View>
   );
 }
@@ -6,6 +6,7 @@ export default function LibraryLayout() {
       <Stack.Screen name="index" />
       <Stack.Screen name="[id]" />
       <Stack.Screen name="add" />
+      <Stack.Screen name="add/import" />
       <Stack.Screen name="add/[book]/[chapter]" />
       <Stack.Screen name="setup/[id]" />
     </Stack>
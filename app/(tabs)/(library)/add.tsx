@@ -3,8 +3,8 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { BIBLE_BOOKS, OLD_TESTAMENT_END } from '@/lib/bible/books';
-import { getChapterCount } from '@/lib/bible';
-import { useSettings } from '@/lib/settings';
+import { getBookName, getChapterCount } from '@/lib/bible';
+import { useSettings, useBibleVersions, getVersionLanguage } from '@/lib/settings';
 import { type BibleVersion } from '@/lib/storage';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useState } from 'react';
@@ -28,6 +28,7 @@ export default function AddVerseScreen() {
   const [expandedBook, setExpandedBook] = useState<string | null>(null);
   const [selectedVersion, setSelectedVersion] = useState<BibleVersion>(settings.bibleVersion);
   const [versionPickerVisible, setVersionPickerVisible] = useState(false);
+  const versions = useBibleVersions();
 
   const handleBookPress = (book: string) => {
     setExpandedBook(expandedBook === book ? null : book);
@@ -41,6 +42,13 @@ export default function AddVerseScreen() {
     router.push(`/(tabs)/(library)/add/${encodeURIComponent(book)}/${chapter}?${queryString}`);
   };
 
+  const handleImportPress = () => {
+    const params = new URLSearchParams();
+    if (collectionId) params.set('collectionId', collectionId);
+    const queryString = params.toString();
+    router.push(`/(tabs)/(library)/add/import${queryString ? `?${queryString}` : ''}`);
+  };
+
   const renderChapterGrid = (book: string) => {
     const chapterCount = getChapterCount(book);
     const chapters = Array.from({ length: chapterCount }, (_, i) => i + 1);
@@ -80,7 +88,9 @@ export default function AddVerseScreen() {
           style={[styles.bookRow, { borderBottomColor: colors.icon + '30' }]}
           onPress={() => handleBookPress(book)}
         >
-          <Text style={[styles.bookName, { color: colors.text }]}>{book}</Text>
+          <Text style={[styles.bookName, { color: colors.text }]}>
+            {getBookName(book, getVersionLanguage(selectedVersion))}
+          </Text>
           <IconSymbol
             name={isExpanded ? 'chevron.down' : 'chevron.right'}
             size={18}
@@ -122,7 +132,7 @@ export default function AddVerseScreen() {
         >
           <View style={[styles.pickerContainer, { backgroundColor: isDark ? '#2c2c2e' : '#fff' }]}>
             <Text style={[styles.pickerTitle, { color: colors.text }]}>Translation</Text>
-            {(['ESV', 'NLT'] as BibleVersion[]).map((version) => (
+            {versions.map(({ value: version, full }) => (
               <Pressable
                 key={version}
                 style={[
@@ -145,7 +155,7 @@ export default function AddVerseScreen() {
                     { color: selectedVersion === version ? 'rgba(255,255,255,0.7)' : colors.icon },
                   ]}
                 >
-                  {version === 'ESV' ? 'English Standard Version' : 'New Living Translation'}
+                  {full}
                 </Text>
               </Pressable>
             ))}
@@ -154,6 +164,16 @@ export default function AddVerseScreen() {
       </Modal>
 
       <ScrollView style={styles.scrollView}>
+        <Pressable
+          style={[styles.bookRow, { borderBottomColor: colors.icon + '30' }]}
+          onPress={handleImportPress}
+        >
+          <View style={styles.importLabel}>
+            <IconSymbol name="doc.on.clipboard" size={20} color={colors.icon} />
+            <Text style={[styles.bookName, { color: colors.text }]}>Import from text</Text>
+          </View>
+          <IconSymbol name="chevron.right" size={18} color={colors.icon} />
+        </Pressable>
         {BIBLE_BOOKS.map((book, index) => renderBook(book, index))}
         <View style={styles.bottomPadding} />
       </ScrollView>
@@ -227,6 +247,11 @@ const styles = StyleSheet.create({
   bookName: {
     fontSize: 17,
   },
+  importLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
   chapterGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
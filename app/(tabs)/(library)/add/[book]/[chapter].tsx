@@ -2,10 +2,10 @@ import { AppHeader } from '@/components/app-header';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { normalizeBookName, getVerseCount } from '@/lib/bible';
+import { normalizeBookName, getBookName, getVerseCount } from '@/lib/bible';
 import { type BibleVersion } from '@/lib/storage';
 import { useAppStore } from '@/lib/store';
-import { useSettings } from '@/lib/settings';
+import { useSettings, useBibleVersions, isBibleVersion, isPublicDomainVersion, getVersionLanguage } from '@/lib/settings';
 import { fetchVerse, fetchChapter } from '@/lib/api';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useRef, useState, useCallback, useEffect } from 'react';
@@ -47,9 +47,10 @@ export default function VerseSelectScreen() {
   const verseCount = getVerseCount(bookName, chapterNum);
 
   // Translation from URL param (passed from book selection), fallback to settings
-  const initialVersion = (version === 'ESV' || version === 'NLT') ? version : settings.bibleVersion;
+  const initialVersion = isBibleVersion(version) ? version : settings.bibleVersion;
   const [selectedVersion, setSelectedVersion] = useState<BibleVersion>(initialVersion);
   const [versionPickerVisible, setVersionPickerVisible] = useState(false);
+  const versions = useBibleVersions();
 
   // Chapter data from API
   const [verses, setVerses] = useState<[string, string][]>([]);
@@ -67,9 +68,9 @@ export default function VerseSelectScreen() {
       setError(null);
       setIsOffline(false);
 
-      // Check network status
+      // Check network status (public-domain chapters may already be stored on the device)
       const netState = await NetInfo.fetch();
-      if (!netState.isConnected) {
+      if (!netState.isConnected && !isPublicDomainVersion(selectedVersion)) {
         setIsOffline(true);
         setLoading(false);
         return;
@@ -92,7 +93,11 @@ export default function VerseSelectScreen() {
       } catch (err) {
         if (cancelled) return;
         console.error('Failed to load chapter:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load chapter');
+        if (!netState.isConnected) {
+          setIsOffline(true);
+        } else {
+          setError(err instanceof Error ? err.message : 'Failed to load chapter');
+        }
       } finally {
         if (!cancelled) {
           setLoading(false);
@@ -344,7 +349,7 @@ export default function VerseSelectScreen() {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <AppHeader
-        title={`${bookName} ${chapterNum}`}
+        title={`${getBookName(bookName, getVersionLanguage(selectedVersion))} ${chapterNum}`}
         rightButton={{
           label: selectedVersion,
           onPress: () => setVersionPickerVisible(true),
@@ -365,7 +370,7 @@ export default function VerseSelectScreen() {
         >
           <View style={[styles.pickerContainer, { backgroundColor: isDark ? '#2c2c2e' : '#fff' }]}>
             <Text style={[styles.pickerTitle, { color: colors.text }]}>Translation</Text>
-            {(['ESV', 'NLT'] as BibleVersion[]).map((ver) => (
+            {versions.map(({ value: ver, full }) => (
               <Pressable
                 key={ver}
                 style={[
@@ -388,7 +393,7 @@ export default function VerseSelectScreen() {
                     { color: selectedVersion === ver ? 'rgba(255,255,255,0.7)' : colors.icon },
                   ]}
                 >
-                  {ver === 'ESV' ? 'English Standard Version' : 'New Living Translation'}
+                  {full}
                 </Text>
               </Pressable>
             ))}
@@ -0,0 +1,429 @@
+import { AppHeader } from '@/components/app-header';
+import { CollectionPickerModal } from '@/components/library/CollectionPickerModal';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { extractReferences, type ExtractedReference } from '@/lib/bible/extract';
+import { formatPassage, toPassageLocation } from '@/lib/bible/passage';
+import { type BibleVersion } from '@/lib/storage';
+import { useAppStore, useCollection } from '@/lib/store';
+import { useSettings, useBibleVersions, getVersionLanguage } from '@/lib/settings';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useMemo, useState } from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  Modal,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+/**
+ * Paste-and-import: pick out every reference in pasted text (sermon notes,
+ * group emails), choose a translation for each, and add them all to a collection.
+ */
+export default function ImportVersesScreen() {
+  const { collectionId } = useLocalSearchParams<{ collectionId?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isDark = colorScheme === 'dark';
+  const { settings } = useSettings();
+  const versions = useBibleVersions();
+
+  const [targetCollectionId, setTargetCollectionId] = useState(collectionId || 'my-verses');
+  const targetCollection = useCollection(targetCollectionId);
+  const [collectionPickerVisible, setCollectionPickerVisible] = useState(false);
+
+  const [text, setText] = useState('');
+  const references = useMemo(() => extractReferences(text), [text]);
+
+  // Per-reference choices, keyed by canonical reference
+  const [versionOverrides, setVersionOverrides] = useState<Record<string, BibleVersion>>({});
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [versionPickerFor, setVersionPickerFor] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const versionOf = (item: ExtractedReference) => versionOverrides[item.reference] ?? settings.bibleVersion;
+  const toAdd = references.filter((item) => item.passage && !skipped.has(item.reference));
+
+  const toggleSkipped = (item: ExtractedReference) => {
+    Haptics.selectionAsync();
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (next.has(item.reference)) {
+        next.delete(item.reference);
+      } else {
+        next.add(item.reference);
+      }
+      return next;
+    });
+  };
+
+  const handleVersionSelect = (version: BibleVersion) => {
+    Haptics.selectionAsync();
+    if (versionPickerFor) {
+      setVersionOverrides((prev) => ({ ...prev, [versionPickerFor]: version }));
+    }
+    setVersionPickerFor(null);
+  };
+
+  const handleCollectionSelect = (id: string) => {
+    Haptics.selectionAsync();
+    setTargetCollectionId(id);
+    setCollectionPickerVisible(false);
+  };
+
+  const handleImport = async () => {
+    if (toAdd.length === 0 || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      for (const item of toAdd) {
+        await useAppStore.getState().addVerse(
+          toPassageLocation(item.passage!),
+          targetCollectionId,
+          versionOf(item)
+        );
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.navigate(`/(tabs)/(library)/${targetCollectionId}`);
+    } catch (error) {
+      console.error('Failed to import verses:', error);
+      Alert.alert('Error', `Failed to import verses: ${error}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const primaryColor = isDark ? '#60a5fa' : '#0a7ea4';
+  const buttonBg = isDark ? '#3b82f6' : '#0a7ea4';
+  const inputBg = isDark ? '#2c2c2e' : '#f5f5f5';
+  const borderColor = isDark ? '#3a3a3c' : '#e0e0e0';
+  const pickerVersion = versionPickerFor
+    ? versionOverrides[versionPickerFor] ?? settings.bibleVersion
+    : null;
+
+  const renderReference = (item: ExtractedReference) => {
+    const isSkipped = skipped.has(item.reference);
+    const version = versionOf(item);
+
+    if (!item.passage) {
+      return (
+        <View key={item.reference} style={[styles.referenceRow, { borderBottomColor: colors.icon + '30' }]}>
+          <IconSymbol name="exclamationmark.triangle.fill" size={20} color="#ef4444" />
+          <View style={styles.referenceInfo}>
+            <Text style={[styles.referenceText, { color: colors.icon }]}>{item.text}</Text>
+            <Text style={[styles.referenceSubtext, { color: colors.icon }]}>{item.error}</Text>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View key={item.reference} style={[styles.referenceRow, { borderBottomColor: colors.icon + '30' }]}>
+        <Pressable style={styles.referenceToggle} onPress={() => toggleSkipped(item)}>
+          <View
+            style={[
+              styles.checkbox,
+              { borderColor: isSkipped ? colors.icon : primaryColor },
+              !isSkipped && { backgroundColor: primaryColor },
+            ]}
+          >
+            {!isSkipped && <IconSymbol name="checkmark" size={14} color="#fff" />}
+          </View>
+          <View style={styles.referenceInfo}>
+            <Text style={[styles.referenceText, { color: isSkipped ? colors.icon : colors.text }]}>
+              {formatPassage(toPassageLocation(item.passage), getVersionLanguage(version))}
+            </Text>
+            {item.text !== item.reference && (
+              <Text style={[styles.referenceSubtext, { color: colors.icon }]}>{item.text}</Text>
+            )}
+          </View>
+        </Pressable>
+        <Pressable
+          style={[styles.versionChip, { borderColor: primaryColor }]}
+          onPress={() => setVersionPickerFor(item.reference)}
+          disabled={isSkipped}
+        >
+          <Text style={[styles.versionChipText, { color: isSkipped ? colors.icon : primaryColor }]}>
+            {version}
+          </Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <AppHeader title="Import Verses" />
+
+      {/* Version Picker Modal */}
+      <Modal
+        visible={versionPickerFor !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setVersionPickerFor(null)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setVersionPickerFor(null)}>
+          <View style={[styles.pickerContainer, { backgroundColor: isDark ? '#2c2c2e' : '#fff' }]}>
+            <Text style={[styles.pickerTitle, { color: colors.text }]}>Translation</Text>
+            {versions.map(({ value: version, full }) => (
+              <Pressable
+                key={version}
+                style={[
+                  styles.pickerOption,
+                  pickerVersion === version && { backgroundColor: isDark ? '#0a84ff' : '#007aff' },
+                ]}
+                onPress={() => handleVersionSelect(version)}
+              >
+                <Text
+                  style={[
+                    styles.pickerOptionText,
+                    { color: pickerVersion === version ? '#fff' : colors.text },
+                  ]}
+                >
+                  {version}
+                </Text>
+                <Text
+                  style={[
+                    styles.pickerOptionSubtext,
+                    { color: pickerVersion === version ? 'rgba(255,255,255,0.7)' : colors.icon },
+                  ]}
+                >
+                  {full}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </Pressable>
+      </Modal>
+
+      <CollectionPickerModal
+        visible={collectionPickerVisible}
+        title="Add To"
+        selectedId={targetCollectionId}
+        onSelect={handleCollectionSelect}
+        onClose={() => setCollectionPickerVisible(false)}
+      />
+
+      <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <TextInput
+            style={[styles.input, { backgroundColor: inputBg, color: colors.text, borderColor }]}
+            placeholder="Paste notes or a list of verses, e.g. This week: Rom 12:1-2; Phil 4:6–7 and Ps 46:10"
+            placeholderTextColor={colors.icon}
+            value={text}
+            onChangeText={setText}
+            multiline
+            textAlignVertical="top"
+            autoCorrect={false}
+          />
+        </View>
+
+        <Pressable
+          style={[styles.collectionRow, { borderBottomColor: colors.icon + '30', borderTopColor: colors.icon + '30' }]}
+          onPress={() => setCollectionPickerVisible(true)}
+        >
+          <Text style={[styles.collectionLabel, { color: colors.icon }]}>Add to</Text>
+          <View style={styles.collectionValue}>
+            <Text style={[styles.collectionName, { color: colors.text }]}>
+              {targetCollection?.name ?? 'My Verses'}
+            </Text>
+            <IconSymbol name="chevron.right" size={18} color={colors.icon} />
+          </View>
+        </Pressable>
+
+        {text.trim().length > 0 && (
+          <Text style={[styles.sectionLabel, { color: colors.icon }]}>
+            {references.length === 0
+              ? 'No references found'
+              : `${references.length} ${references.length === 1 ? 'reference' : 'references'} found`}
+          </Text>
+        )}
+
+        {references.map(renderReference)}
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+
+      {toAdd.length > 0 && (
+        <View
+          style={[
+            styles.bottomBar,
+            { backgroundColor: colors.background, borderTopColor: colors.icon + '30' },
+          ]}
+        >
+          <Pressable
+            style={[styles.addButton, { backgroundColor: buttonBg, opacity: isSaving ? 0.7 : 1 }]}
+            onPress={handleImport}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.addButtonText}>
+                {toAdd.length === 1 ? 'Add 1 Verse' : `Add ${toAdd.length} Verses`}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pickerContainer: {
+    width: '80%',
+    maxWidth: 300,
+    borderRadius: 14,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  pickerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  pickerOption: {
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    marginBottom: 6,
+  },
+  pickerOptionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  pickerOptionSubtext: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  input: {
+    minHeight: 140,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    lineHeight: 22,
+    borderWidth: 1,
+  },
+  collectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  collectionLabel: {
+    fontSize: 15,
+  },
+  collectionValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  collectionName: {
+    fontSize: 17,
+    fontWeight: '500',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    paddingHorizontal: 16,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  referenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    gap: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  referenceToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  referenceInfo: {
+    flex: 1,
+  },
+  referenceText: {
+    fontSize: 17,
+  },
+  referenceSubtext: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  versionChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  versionChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  bottomPadding: {
+    height: 120,
+  },
+  bottomBar: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 16,
+    paddingBottom: 40,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  addButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
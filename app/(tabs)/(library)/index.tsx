@@ -4,7 +4,7 @@ import { SwipeableCollectionCard } from '@/components/library/SwipeableCollectio
 import { CollectionCardSkeleton } from '@/components/library/CollectionCardSkeleton';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { type Collection, MASTERED_COLLECTION_ID } from '@/lib/storage';
+import { type Collection, type CollectionChanges, MASTERED_COLLECTION_ID } from '@/lib/storage';
 import { useAppStore, useCollections, useHydrated, useCollectionVerseCount, useMasteredVerseCount } from '@/lib/store';
 import { router } from 'expo-router';
 import { useState } from 'react';
@@ -28,11 +28,17 @@ function CollectionCard({
   index,
   onPress,
   onDelete,
+  onEdit,
+  reordering,
+  onReorder,
 }: {
   collection: Collection;
   index: number;
   onPress: () => void;
   onDelete: () => void;
+  onEdit: () => void;
+  reordering: boolean;
+  onReorder: (steps: number) => void;
 }) {
   const isMastered = collection.id === MASTERED_COLLECTION_ID;
   const collectionVerseCount = useCollectionVerseCount(collection.id);
@@ -47,6 +53,9 @@ function CollectionCard({
       index={index}
       onPress={onPress}
       onDelete={onDelete}
+      onEdit={onEdit}
+      reordering={reordering}
+      onReorder={onReorder}
     />
   );
 }
@@ -60,11 +69,18 @@ export default function LibraryScreen() {
   const collections = useCollections();
   const hydrated = useHydrated();
   const addCollection = useAppStore((s) => s.addCollection);
+  const updateCollection = useAppStore((s) => s.updateCollection);
+  const reorderCollections = useAppStore((s) => s.reorderCollections);
   const deleteCollection = useAppStore((s) => s.deleteCollection);
   const refresh = useAppStore((s) => s.refresh);
 
   const [refreshing, setRefreshing] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
+  const [editingCollection, setEditingCollection] = useState<Collection | undefined>();
+  const [reordering, setReordering] = useState(false);
+
+  // Only user collections can be reordered (default and Mastered stay on top)
+  const movableIds = collections.filter((c) => !c.isDefault && !c.isVirtual).map((c) => c.id);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -72,8 +88,32 @@ export default function LibraryScreen() {
     setRefreshing(false);
   };
 
-  const handleAddCollection = async (name: string) => {
-    await addCollection(name);
+  const handleSaveCollection = async ({ name, icon, iconColor }: CollectionChanges & { name: string }) => {
+    if (editingCollection) {
+      await updateCollection(editingCollection.id, { name, icon, iconColor });
+    } else {
+      await addCollection(name, { icon, iconColor });
+    }
+  };
+
+  const handleEditCollection = (collection: Collection) => {
+    setEditingCollection(collection);
+    setModalVisible(true);
+  };
+
+  const handleNewCollection = () => {
+    setEditingCollection(undefined);
+    setModalVisible(true);
+  };
+
+  const handleReorder = async (id: string, steps: number) => {
+    const from = movableIds.indexOf(id);
+    const to = Math.min(movableIds.length - 1, Math.max(0, from + steps));
+    if (from === -1 || from === to) return;
+
+    const order = [...movableIds];
+    order.splice(to, 0, ...order.splice(from, 1));
+    await reorderCollections(order);
   };
 
   const handleDeleteCollection = async (id: string) => {
@@ -101,18 +141,30 @@ export default function LibraryScreen() {
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={styles.header}>
         <Text style={[styles.title, { color: colors.text }]}>Library</Text>
-        <Pressable
-          style={[styles.addButton, { backgroundColor: primaryColor }]}
-          onPress={() => setModalVisible(true)}
-        >
-          <IconSymbol name="plus" size={18} color="#fff" />
-          <Text style={styles.addButtonText}>New</Text>
-        </Pressable>
+        <View style={styles.headerButtons}>
+          {movableIds.length > 1 && (
+            <Pressable style={styles.textButton} onPress={() => setReordering(!reordering)}>
+              <Text style={[styles.textButtonText, { color: primaryColor }]}>
+                {reordering ? 'Done' : 'Reorder'}
+              </Text>
+            </Pressable>
+          )}
+          {!reordering && (
+            <Pressable
+              style={[styles.addButton, { backgroundColor: primaryColor }]}
+              onPress={handleNewCollection}
+            >
+              <IconSymbol name="plus" size={18} color="#fff" />
+              <Text style={styles.addButtonText}>New</Text>
+            </Pressable>
+          )}
+        </View>
       </View>
 
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.collectionsContainer}
+        scrollEnabled={!reordering}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.tint} />
         }
@@ -128,6 +180,9 @@ export default function LibraryScreen() {
                 index={index}
                 onPress={() => handleCollectionPress(collection)}
                 onDelete={() => handleDeleteCollection(collection.id)}
+                onEdit={() => handleEditCollection(collection)}
+                reordering={reordering && movableIds.length > 1}
+                onReorder={(steps) => handleReorder(collection.id, steps)}
               />
             ))}
             {collections.length <= 1 && renderEmptyHint()}
@@ -137,8 +192,9 @@ export default function LibraryScreen() {
 
       <AddCollectionModal
         visible={modalVisible}
+        collection={editingCollection}
         onClose={() => setModalVisible(false)}
-        onAdd={handleAddCollection}
+        onSave={handleSaveCollection}
       />
     </View>
   );
@@ -160,6 +216,19 @@ const styles = StyleSheet.create({
     fontSize: 34,
     fontWeight: 'bold',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  textButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  textButtonText: {
+    fontSize: 17,
+    fontWeight: '500',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -4,9 +4,18 @@ import { PopoverMenu } from '@/components/ui/PopoverMenu';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { formatVerseReference, type SavedVerse } from '@/lib/storage';
-import { toSuperscript, getVerseText as extractVerseText } from '@/lib/study-chunks';
-import { getVerseText as fetchVerseText } from '@/lib/api/bible';
+import { getPassageVerses } from '@/lib/bible/passage';
+import { annotateVerseTexts, type ChunkStrategy, type InputMode } from '@/lib/study-chunks';
+import { getVerseText, joinVerseTexts, type VerseTexts } from '@/lib/api/bible';
 import { useVerse, useAppStore } from '@/lib/store';
+import {
+  DIFFICULTIES,
+  DIFFICULTY_INFO,
+  MASTERY_DIFFICULTY,
+  getDifficultyProgress,
+  isVerseMastered,
+  type Difficulty,
+} from '@/lib/difficulty';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useEffect, useState } from 'react';
 import {
@@ -22,8 +31,6 @@ import {
 import { BlurView } from 'expo-blur';
 import DropDownPicker from 'react-native-dropdown-picker';
 
-type Difficulty = 'easy' | 'medium' | 'hard';
-
 export default function StudySetupScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const colorScheme = useColorScheme();
@@ -34,22 +41,27 @@ export default function StudySetupScreen() {
   const verse = useVerse(id || '');
   const resetVerseProgress = useAppStore((s) => s.resetVerseProgress);
 
-  const [verseText, setVerseText] = useState<string>('');
+  const [verseTexts, setVerseTexts] = useState<VerseTexts | null>(null);
+  const [textError, setTextError] = useState(false);
   const [textLoading, setTextLoading] = useState(false);
   const [difficulty, setDifficulty] = useState<Difficulty>('easy');
   const [chunkSize, setChunkSize] = useState(1);
+  const [chunkStrategy, setChunkStrategy] = useState<ChunkStrategy>('verses');
+  const [chain, setChain] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('spoken');
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [dropdownItems, setDropdownItems] = useState<{label: string; value: number}[]>([]);
   const [expanded, setExpanded] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
 
   // Calculate total verses in this passage
-  const totalVerses = verse ? verse.verseEnd - verse.verseStart + 1 : 1;
+  const totalVerses = verse ? getPassageVerses(verse).length : 1;
+  const canChain = totalVerses > 1 || chunkStrategy === 'phrases'; // More than one chunk
 
   // Update dropdown items when verse loads
   useEffect(() => {
     if (verse) {
-      const total = verse.verseEnd - verse.verseStart + 1;
+      const total = getPassageVerses(verse).length;
       const items = Array.from({ length: total }, (_, i) => ({
         label: String(i + 1),
         value: i + 1,
@@ -61,28 +73,31 @@ export default function StudySetupScreen() {
   // Load verse text
   useEffect(() => {
     if (verse) {
-      if (verse.text) {
-        setVerseText(verse.text);
-      } else {
-        setTextLoading(true);
-        fetchVerseText(verse)
-          .then(setVerseText)
-          .catch(() => setVerseText('Failed to load verse text'))
-          .finally(() => setTextLoading(false));
-      }
+      setTextLoading(true);
+      setTextError(false);
+      getVerseText(verse)
+        .then(setVerseTexts)
+        .catch(() => setTextError(true))
+        .finally(() => setTextLoading(false));
     }
   }, [verse]);
 
+  const verseText = textError
+    ? 'Failed to load verse text'
+    : verseTexts ? joinVerseTexts(verseTexts) : '';
+
   const handleStartSession = () => {
     if (!verse) return;
     // Session is at root level, outside tabs
-    router.push(`/session?id=${id}&difficulty=${difficulty}&chunkSize=${chunkSize}`);
+    router.push(
+      `/session?id=${id}&difficulty=${difficulty}&chunkSize=${chunkSize}&chunking=${chunkStrategy}&chain=${canChain && chain ? 1 : 0}&inputMode=${inputMode}`
+    );
   };
 
   const handleResetProgress = () => {
     if (!verse || !id) return;
 
-    const isMastered = verse.progress?.hard?.completed === true;
+    const isMastered = isVerseMastered(verse.progress);
     const message = isMastered
       ? 'This will clear all scores and remove this verse from your Mastered list.'
       : 'This will clear all your scores for this verse.';
@@ -103,20 +118,9 @@ export default function StudySetupScreen() {
 
   // Build annotated text with superscript verse numbers (same as VerseCard)
   const getAnnotatedText = () => {
-    if (!verse || !verseText) return '';
-    const total = verse.verseEnd - verse.verseStart + 1;
-
-    if (total === 1) {
-      return `${toSuperscript(verse.verseStart)}${verseText}`;
-    }
-
-    // Multi-verse: annotate each verse
-    const parts: string[] = [];
-    for (let i = 0; i < total; i++) {
-      const extracted = extractVerseText(verseText, i, total);
-      parts.push(`${toSuperscript(verse.verseStart + i)}${extracted}`);
-    }
-    return parts.join(' ');
+    if (!verse) return '';
+    if (!verseTexts) return verseText;
+    return annotateVerseTexts(verse, verseTexts);
   };
 
   if (!verse) {
@@ -214,7 +218,7 @@ export default function StudySetupScreen() {
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Difficulty</Text>
           <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#1e1e1e' : '#e5e5e5' }]}>
-            {(['easy', 'medium', 'hard'] as Difficulty[]).map((level) => (
+            {DIFFICULTIES.map((level) => (
               <Pressable
                 key={level}
                 style={[
@@ -230,16 +234,12 @@ export default function StudySetupScreen() {
                       { color: difficulty === level ? '#fff' : colors.text },
                     ]}
                   >
-                    {level.charAt(0).toUpperCase() + level.slice(1)}
+                    {DIFFICULTY_INFO[level].label}
                   </Text>
-                  {level === 'easy' && (
-                    <View style={[styles.difficultyDot, { backgroundColor: '#eab308' }]} />
-                  )}
-                  {level === 'medium' && (
-                    <View style={[styles.difficultyDot, { backgroundColor: '#1d4ed8' }]} />
-                  )}
-                  {level === 'hard' && (
-                    <IconSymbol name="checkmark" size={12} color="#22c55e" />
+                  {level === MASTERY_DIFFICULTY ? (
+                    <IconSymbol name="checkmark" size={12} color={DIFFICULTY_INFO[level].color} />
+                  ) : (
+                    <View style={[styles.difficultyDot, { backgroundColor: DIFFICULTY_INFO[level].color }]} />
                   )}
                 </View>
                 <Text
@@ -248,26 +248,127 @@ export default function StudySetupScreen() {
                     { color: difficulty === level ? 'rgba(255,255,255,0.7)' : colors.icon },
                   ]}
                 >
-                  {level === 'easy' && 'All words'}
-                  {level === 'medium' && 'Some hidden'}
-                  {level === 'hard' && 'No words'}
+                  {DIFFICULTY_INFO[level].description}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        {/* Input Mode Selection */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Recite By</Text>
+          <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#1e1e1e' : '#e5e5e5' }]}>
+            {(['spoken', 'typed'] as InputMode[]).map((mode) => (
+              <Pressable
+                key={mode}
+                style={[
+                  styles.segment,
+                  inputMode === mode && { backgroundColor: buttonBg },
+                ]}
+                onPress={() => setInputMode(mode)}
+              >
+                <View style={styles.segmentHeader}>
+                  <IconSymbol
+                    name={mode === 'spoken' ? 'mic.fill' : 'keyboard'}
+                    size={14}
+                    color={inputMode === mode ? '#fff' : colors.text}
+                  />
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      { color: inputMode === mode ? '#fff' : colors.text },
+                    ]}
+                  >
+                    {mode === 'spoken' ? 'Speaking' : 'Typing'}
+                  </Text>
+                </View>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        {/* Chunking Selection */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Chunk By</Text>
+          <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#1e1e1e' : '#e5e5e5' }]}>
+            {(['verses', 'phrases'] as ChunkStrategy[]).map((strategy) => (
+              <Pressable
+                key={strategy}
+                style={[
+                  styles.segment,
+                  chunkStrategy === strategy && { backgroundColor: buttonBg },
+                ]}
+                onPress={() => setChunkStrategy(strategy)}
+              >
+                <Text
+                  style={[
+                    styles.segmentText,
+                    { color: chunkStrategy === strategy ? '#fff' : colors.text },
+                  ]}
+                >
+                  {strategy === 'verses' ? 'Verses' : 'Phrases'}
+                </Text>
+                <Text
+                  style={[
+                    styles.segmentSubtext,
+                    { color: chunkStrategy === strategy ? 'rgba(255,255,255,0.7)' : colors.icon },
+                  ]}
+                >
+                  {strategy === 'verses' ? 'Whole verses' : 'Long verses split'}
                 </Text>
               </Pressable>
             ))}
           </View>
         </View>
 
+        {/* Chaining Selection - only when there's more than one chunk to chain */}
+        {canChain && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Practice</Text>
+            <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#1e1e1e' : '#e5e5e5' }]}>
+              {[false, true].map((chained) => (
+                <Pressable
+                  key={String(chained)}
+                  style={[
+                    styles.segment,
+                    chain === chained && { backgroundColor: buttonBg },
+                  ]}
+                  onPress={() => setChain(chained)}
+                >
+                  <Text
+                    style={[
+                      styles.segmentText,
+                      { color: chain === chained ? '#fff' : colors.text },
+                    ]}
+                  >
+                    {chained ? 'Chained' : 'Separately'}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.segmentSubtext,
+                      { color: chain === chained ? 'rgba(255,255,255,0.7)' : colors.icon },
+                    ]}
+                  >
+                    {chained ? '1, 1–2, 1–3…' : 'One chunk at a time'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Progress Stats */}
         <View style={styles.progressSection}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Your Progress</Text>
           <View style={styles.progressRow}>
-            {(['easy', 'medium', 'hard'] as Difficulty[]).map((level) => {
-              const progress = verse.progress[level];
+            {DIFFICULTIES.map((level) => {
+              const progress = getDifficultyProgress(verse.progress, level);
               const hasScore = progress.bestAccuracy !== null;
               return (
                 <View key={level} style={styles.progressItem}>
                   <Text style={[styles.progressLabel, { color: colors.icon }]}>
-                    {level.charAt(0).toUpperCase() + level.slice(1)}
+                    {DIFFICULTY_INFO[level].label}
                   </Text>
                   <Text
                     style={[
@@ -290,8 +391,8 @@ export default function StudySetupScreen() {
           </View>
         </View>
 
-        {/* Chunk Size Selection - only show if multiple verses */}
-        {totalVerses > 1 && (
+        {/* Chunk Size Selection - only show if multiple verses are chunked whole */}
+        {totalVerses > 1 && chunkStrategy === 'verses' && (
           <View style={[styles.chunkRow, { zIndex: 1000 }]}>
             <Text style={[styles.chunkLabel, { color: colors.text }]}>Verses per chunk</Text>
             <DropDownPicker
@@ -5,9 +5,10 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { getCurrentVOTM, getVOTMMasteryCount, hasUserMasteredVOTM, type VOTM } from '@/lib/api/votm';
-import { getVerseText } from '@/lib/api/bible';
+import { getVerseText, joinVerseTexts } from '@/lib/api/bible';
 import { useSettings } from '@/lib/settings';
 import { formatVerseReference } from '@/lib/storage';
+import { isSamePassage } from '@/lib/bible/passage';
 import { useAppStore, useCollections, useVerses } from '@/lib/store';
 import { BlurView } from 'expo-blur';
 import { useEffect, useState, useMemo, useRef } from 'react';
@@ -107,13 +108,7 @@ export default function HomeScreen() {
   // Check if user already has this verse in library
   const userHasVerse = useMemo(() => {
     if (!votm) return false;
-    return verses.some(
-      (v) =>
-        v.book === votm.book &&
-        v.chapter === votm.chapter &&
-        v.verseStart === votm.verseStart &&
-        v.verseEnd === votm.verseEnd
-    );
+    return verses.some((v) => isSamePassage(v, votm));
   }, [votm, verses]);
 
   // Filter collections for picker (exclude Mastered virtual collection)
@@ -140,14 +135,14 @@ export default function HomeScreen() {
         // Fetch verse text
         if (!isRefresh) setTextLoading(true);
         try {
-          const text = await getVerseText({
+          const verses = await getVerseText({
             book: currentVotm.book,
             chapter: currentVotm.chapter,
             verseStart: currentVotm.verseStart,
             verseEnd: currentVotm.verseEnd,
             version: defaultVersion,
           } as any);
-          setVerseText(text);
+          setVerseText(joinVerseTexts(verses));
         } catch (e) {
           console.error('[HOME] Failed to fetch verse text:', e);
         } finally {
@@ -230,12 +225,7 @@ export default function HomeScreen() {
 
   // Format reference for modals
   const reference = votm
-    ? formatVerseReference({
-        book: votm.book,
-        chapter: votm.chapter,
-        verseStart: votm.verseStart,
-        verseEnd: votm.verseEnd,
-      } as any)
+    ? formatVerseReference(votm)
     : '';
 
   return (
@@ -0,0 +1,289 @@
+import { AppHeader } from '@/components/app-header';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatVerseReference, type SavedVerse } from '@/lib/storage';
+import { useAppStore, useDueVerses, useHydrated } from '@/lib/store';
+import type { InputMode } from '@/lib/study-chunks';
+import { DIFFICULTIES, DIFFICULTY_INFO, getDifficultyProgress, type Difficulty } from '@/lib/difficulty';
+import { getScoringProfile } from '@/lib/scoring';
+import { useSettings } from '@/lib/settings';
+import { router } from 'expo-router';
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+
+const DAY_MS = 86400000;
+
+/**
+ * "Today", "Yesterday", "3 days ago"
+ */
+function formatLastPracticed(verse: SavedVerse): string {
+  const last = verse.review?.lastReviewedAt;
+  if (!last) return 'Never practiced';
+  const days = Math.floor((Date.now() - last) / DAY_MS);
+  if (days <= 0) return 'Practiced today';
+  if (days === 1) return 'Practiced yesterday';
+  return `Practiced ${days} days ago`;
+}
+
+function bestAccuracy(verse: SavedVerse): number | null {
+  const scores = DIFFICULTIES
+    .map((d) => getDifficultyProgress(verse.progress, d).bestAccuracy)
+    .filter((a): a is number => a !== null);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+export default function ReviewScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isDark = colorScheme === 'dark';
+
+  const dueVerses = useDueVerses();
+  const hydrated = useHydrated();
+  const refresh = useAppStore((s) => s.refresh);
+  const { settings } = useSettings();
+  const { masteryThreshold } = getScoringProfile(settings.scoringProfile);
+
+  const [difficulty, setDifficulty] = useState<Difficulty>('hard');
+  const [inputMode, setInputMode] = useState<InputMode>('spoken');
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const handleStartReview = () => {
+    if (dueVerses.length === 0) return;
+    const ids = dueVerses.map((v) => v.id).join(',');
+    // Session is at root level, outside tabs
+    router.push(`/session?ids=${ids}&difficulty=${difficulty}&chunkSize=1&inputMode=${inputMode}`);
+  };
+
+  const handleVersePress = (verse: SavedVerse) => {
+    router.push(`/(tabs)/(library)/setup/${verse.id}`);
+  };
+
+  const buttonBg = isDark ? '#3b82f6' : '#0a7ea4';
+  const cardBg = isDark ? '#1e1e1e' : '#f5f5f5';
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <AppHeader title="Due Today" showBack={false} />
+
+      {!hydrated ? (
+        <View style={[styles.container, styles.centered]}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <>
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.content}
+            refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          >
+            {dueVerses.length === 0 ? (
+              <View style={styles.emptyState}>
+                <IconSymbol name="checkmark.circle.fill" size={48} color="#22c55e" />
+                <Text style={[styles.emptyText, { color: colors.text }]}>All caught up</Text>
+                <Text style={[styles.emptySubtext, { color: colors.icon }]}>
+                  Verses come back here when they are due for review.
+                </Text>
+              </View>
+            ) : (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.icon }]}>
+                  {dueVerses.length} {dueVerses.length === 1 ? 'VERSE' : 'VERSES'} TO REVIEW
+                </Text>
+                <View style={[styles.verseList, { backgroundColor: cardBg }]}>
+                  {dueVerses.map((verse, index) => {
+                    const best = bestAccuracy(verse);
+                    return (
+                      <Pressable
+                        key={verse.id}
+                        style={[
+                          styles.verseItem,
+                          index < dueVerses.length - 1 && styles.verseItemBorder,
+                          { borderBottomColor: isDark ? '#333' : '#e5e5e5' },
+                        ]}
+                        onPress={() => handleVersePress(verse)}
+                      >
+                        <View style={styles.verseInfo}>
+                          <Text style={[styles.verseReference, { color: colors.text }]}>
+                            {formatVerseReference(verse)}
+                          </Text>
+                          <Text style={[styles.verseMeta, { color: colors.icon }]}>
+                            {formatLastPracticed(verse)}
+                          </Text>
+                        </View>
+                        <Text
+                          style={[
+                            styles.verseScore,
+                            { color: best !== null && best >= masteryThreshold ? '#22c55e' : '#f59e0b' },
+                          ]}
+                        >
+                          {best !== null ? `${best}%` : '--'}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          {dueVerses.length > 0 && (
+            <View style={styles.bottomSection}>
+              <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#1e1e1e' : '#e5e5e5' }]}>
+                {DIFFICULTIES.map((level) => (
+                  <Pressable
+                    key={level}
+                    style={[styles.segment, difficulty === level && { backgroundColor: buttonBg }]}
+                    onPress={() => setDifficulty(level)}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        { color: difficulty === level ? '#fff' : colors.text },
+                      ]}
+                    >
+                      {DIFFICULTY_INFO[level].label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#1e1e1e' : '#e5e5e5' }]}>
+                {(['spoken', 'typed'] as InputMode[]).map((mode) => (
+                  <Pressable
+                    key={mode}
+                    style={[styles.segment, inputMode === mode && { backgroundColor: buttonBg }]}
+                    onPress={() => setInputMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.segmentText,
+                        { color: inputMode === mode ? '#fff' : colors.text },
+                      ]}
+                    >
+                      {mode === 'spoken' ? 'Speak' : 'Type'}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              <Pressable
+                style={[styles.startButton, { backgroundColor: buttonBg }]}
+                onPress={handleStartReview}
+              >
+                <Text style={styles.startButtonText}>Start Review</Text>
+              </Pressable>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+  verseList: {
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  verseItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 14,
+  },
+  verseItemBorder: {
+    borderBottomWidth: 1,
+  },
+  verseInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  verseReference: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  verseMeta: {
+    fontSize: 13,
+  },
+  verseScore: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 80,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  emptySubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  bottomSection: {
+    padding: 16,
+    paddingBottom: 24,
+    gap: 12,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  startButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  startButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+});
@@ -10,7 +10,8 @@ import {
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useSettings, BIBLE_VERSIONS, type BibleVersion } from '@/lib/settings';
+import { useSettings, useBibleVersions, type BibleVersion, type BibleVersionInfo } from '@/lib/settings';
+import { SCORING_PROFILES, type ScoringProfileId } from '@/lib/scoring';
 import { useAuth } from '@/lib/auth';
 
 interface SettingsSectionProps {
@@ -83,17 +84,18 @@ function SettingsRow({ icon, label, description, children }: SettingsRowProps) {
 }
 
 interface VersionPickerProps {
+  versions: BibleVersionInfo[];
   value: BibleVersion;
   onChange: (value: BibleVersion) => void;
 }
 
-function VersionPicker({ value, onChange }: VersionPickerProps) {
+function VersionPicker({ versions, value, onChange }: VersionPickerProps) {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
 
   return (
-    <View style={styles.picker}>
-      {BIBLE_VERSIONS.map((version) => {
+    <View style={[styles.picker, styles.pickerWrap]}>
+      {versions.map((version) => {
         const isSelected = value === version.value;
         return (
           <Pressable
@@ -127,11 +129,58 @@ function VersionPicker({ value, onChange }: VersionPickerProps) {
   );
 }
 
+interface ScoringProfilePickerProps {
+  value: ScoringProfileId;
+  onChange: (value: ScoringProfileId) => void;
+}
+
+function ScoringProfilePicker({ value, onChange }: ScoringProfilePickerProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  return (
+    <View style={[styles.picker, styles.pickerFullWidth]}>
+      {Object.values(SCORING_PROFILES).map((profile) => {
+        const isSelected = value === profile.id;
+        return (
+          <Pressable
+            key={profile.id}
+            style={[
+              styles.pickerOption,
+              styles.pickerOptionFlex,
+              {
+                backgroundColor: isSelected
+                  ? isDark
+                    ? '#0a84ff'
+                    : '#007aff'
+                  : isDark
+                  ? '#3a3a3c'
+                  : '#e5e5ea',
+              },
+            ]}
+            onPress={() => onChange(profile.id)}
+          >
+            <Text
+              style={[
+                styles.pickerOptionText,
+                { color: isSelected ? '#fff' : isDark ? '#fff' : '#000' },
+              ]}
+            >
+              {profile.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const isDark = colorScheme === 'dark';
-  const { settings, loading, setBibleVersion } = useSettings();
+  const { settings, loading, setBibleVersion, setScoringProfile } = useSettings();
+  const versions = useBibleVersions();
   const { user, signOut } = useAuth();
   const [signingOut, setSigningOut] = React.useState(false);
 
@@ -141,9 +190,10 @@ export default function SettingsScreen() {
     setSigningOut(false);
   };
 
-  const selectedVersion = BIBLE_VERSIONS.find(
+  const selectedVersion = versions.find(
     (v) => v.value === settings.bibleVersion
   );
+  const selectedProfile = SCORING_PROFILES[settings.scoringProfile];
 
   if (loading) {
     return (
@@ -166,13 +216,35 @@ export default function SettingsScreen() {
           <SettingsRow
             icon="book.fill"
             label="Default Translation"
-            description={`${selectedVersion?.full} • Used when adding new verses`}
-          >
+            description={`${selectedVersion?.full ?? settings.bibleVersion} • Used when adding new verses`}
+          />
+          <View style={styles.pickerRow}>
             <VersionPicker
+              versions={versions}
               value={settings.bibleVersion}
               onChange={setBibleVersion}
             />
-          </SettingsRow>
+            {selectedVersion && (
+              <Text style={[styles.copyright, { color: colors.icon }]}>
+                {selectedVersion.copyright}
+              </Text>
+            )}
+          </View>
+        </SettingsSection>
+
+        {/* Scoring */}
+        <SettingsSection title="SCORING">
+          <SettingsRow
+            icon="checkmark.circle.fill"
+            label="Grading"
+            description={`${selectedProfile.description} • ${selectedProfile.masteryThreshold}% to complete a level`}
+          />
+          <View style={styles.pickerRow}>
+            <ScoringProfilePicker
+              value={settings.scoringProfile}
+              onChange={setScoringProfile}
+            />
+          </View>
         </SettingsSection>
 
         {/* Account */}
@@ -289,6 +361,23 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  pickerRow: {
+    padding: 12,
+  },
+  pickerWrap: {
+    flexWrap: 'wrap',
+  },
+  copyright: {
+    fontSize: 11,
+    marginTop: 8,
+  },
+  pickerFullWidth: {
+    alignSelf: 'stretch',
+  },
+  pickerOptionFlex: {
+    flex: 1,
+    alignItems: 'center',
+  },
   pickerOption: {
     paddingHorizontal: 14,
     paddingVertical: 8,
@@ -10,7 +10,8 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { migrateLocalDataToServer } from '@/lib/sync';
 import { AuthProvider, useAuth } from '@/lib/auth';
 import { clearSessionCache, getSessionCacheStats } from '@/lib/api/bible';
-import { useAppStore } from '@/lib/store';
+import { useAppStore, startOutboxSync } from '@/lib/store';
+import { startPendingRecordingSync, clearPendingRecordings } from '@/lib/pending-recordings';
 
 // Expose dev tools to console
 if (__DEV__) {
@@ -46,6 +47,11 @@ function RootLayoutNav() {
   // Hydrate store and run migration when authenticated
   useEffect(() => {
     if (isAuthenticated) {
+      // Replay offline changes whenever connectivity returns
+      const stopOutboxSync = startOutboxSync();
+      // Grade recordings made offline once connectivity returns
+      const stopPendingSync = startPendingRecordingSync();
+
       // Hydrate the store with user data
       useAppStore.getState().hydrate().catch((e) => {
         console.error('[App] Store hydration error:', e);
@@ -55,9 +61,17 @@ function RootLayoutNav() {
       migrateLocalDataToServer().catch((e) => {
         console.error('[App] Migration error:', e);
       });
+
+      return () => {
+        stopOutboxSync();
+        stopPendingSync();
+      };
     } else {
-      // Clear store on logout
+      // Clear store and ungraded recordings on logout
       useAppStore.getState().clear();
+      clearPendingRecordings().catch((e) => {
+        console.error('[App] Failed to clear pending recordings:', e);
+      });
     }
   }, [isAuthenticated]);
 
@@ -1,238 +1,131 @@
 import { AppHeader } from '@/components/app-header';
 import { IconSymbol } from '@/components/ui/icon-symbol';
-import { WAVEFORM_SAMPLES } from '@/components/study/Waveform';
 import { VerseCard } from '@/components/study/VerseCard';
 import { ResultCard } from '@/components/study/ResultCard';
-import { RecordingBar, RECORDING_BAR_HEIGHT } from '@/components/study/RecordingBar';
+import { RecordingBar } from '@/components/study/RecordingBar';
+import { TypedInput } from '@/components/study/TypedInput';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useRecording } from '@/hooks/use-recording';
 import { useStudySession } from '@/hooks/use-study-session';
+import { alignLiveTranscription } from '@/lib/align';
+import type { LiveTranscriptionResult } from '@/lib/api';
+import { isDifficulty } from '@/lib/difficulty';
 import { formatVerseReference } from '@/lib/storage';
+import { getVersionLanguage } from '@/lib/settings';
+import { getPassageVerses } from '@/lib/bible/passage';
 import {
   type Chunk,
+  type ChunkStrategy,
   type Difficulty,
+  type InputMode,
   type ResultsPageItem,
+  formatChunkVerses,
   isResultsPage,
 } from '@/lib/study-chunks';
-import { Audio } from 'expo-av';
 import * as Haptics from 'expo-haptics';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import {
   ActivityIndicator,
   Alert,
   Dimensions,
   FlatList,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
   Pressable,
   StyleSheet,
   Text,
   View,
   type ViewToken,
 } from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withTiming,
-  withRepeat,
-  runOnJS,
-  Easing,
-} from 'react-native-reanimated';
-
-type RecordingState = 'idle' | 'recording';
-
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 export default function StudySessionScreen() {
-  const { id, difficulty, chunkSize: chunkSizeParam } = useLocalSearchParams<{
+  const {
+    id,
+    ids,
+    difficulty: difficultyParam,
+    chunkSize: chunkSizeParam,
+    chunking,
+    chain,
+    inputMode: inputModeParam,
+  } = useLocalSearchParams<{
     id: string;
-    difficulty: Difficulty;
+    ids: string; // Comma-separated, for review sessions
+    difficulty: string;
     chunkSize: string;
+    chunking: ChunkStrategy;
+    chain: string; // "1" for chaining
+    inputMode: InputMode;
   }>();
   const chunkSize = parseInt(chunkSizeParam ?? '1', 10);
+  const chunkStrategy: ChunkStrategy = chunking === 'phrases' ? 'phrases' : 'verses';
+  const verseIds = ids ? ids.split(',') : id ? [id] : [];
+  const inputMode: InputMode = inputModeParam === 'typed' ? 'typed' : 'spoken';
+  const difficulty: Difficulty = isDifficulty(difficultyParam) ? difficultyParam : 'easy';
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const isDark = colorScheme === 'dark';
 
   // Session state hook
   const session = useStudySession({
-    verseId: id ?? '',
-    difficulty: difficulty ?? 'easy',
+    verseIds,
+    difficulty,
     chunkSize,
+    chunkStrategy,
+    chain: chain === '1',
+    inputMode,
   });
 
-  // Recording state (kept local due to animation coupling)
-  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
-  const [transcribing, setTranscribing] = useState(false);
-  const [waveformTrigger, setWaveformTrigger] = useState(0);
-
-  const recordingRef = useRef<Audio.Recording | null>(null);
-  const meteringRef = useRef<NodeJS.Timeout | null>(null);
-  const waveformDataRef = useRef<number[]>([]);
-
-  // Animation values
-  const recordingTabY = useSharedValue(RECORDING_BAR_HEIGHT + 60);
-  const spinnerRotation = useSharedValue(0);
-
-  const recordingTabStyle = useAnimatedStyle(() => ({
-    transform: [{ translateY: recordingTabY.value }],
-  }));
-
-  const spinnerStyle = useAnimatedStyle(() => ({
-    transform: [{ rotate: `${spinnerRotation.value}deg` }],
-  }));
-
-  // Spinner animation
-  useEffect(() => {
-    if (transcribing) {
-      spinnerRotation.value = withRepeat(
-        withTiming(360, { duration: 1000, easing: Easing.linear }),
-        -1,
-        false
-      );
-    } else {
-      spinnerRotation.value = 0;
-    }
-  }, [transcribing]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (recordingRef.current) {
-        recordingRef.current.stopAndUnloadAsync().catch(() => {});
-        recordingRef.current = null;
-      }
-      if (meteringRef.current) {
-        clearInterval(meteringRef.current);
-        meteringRef.current = null;
-      }
-    };
-  }, []);
-
-  const stopMetering = useCallback(() => {
-    if (meteringRef.current) {
-      clearInterval(meteringRef.current);
-      meteringRef.current = null;
-    }
-    waveformDataRef.current = [];
-  }, []);
-
-  const hideRecordingBar = useCallback((onComplete?: () => void) => {
-    recordingTabY.value = withTiming(
-      RECORDING_BAR_HEIGHT + 60,
-      { duration: 250, easing: Easing.in(Easing.cubic) },
-      (finished) => {
-        if (finished && onComplete) {
-          runOnJS(onComplete)();
-        }
-      }
-    );
-  }, []);
-
-  const handleMicPress = useCallback(async () => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-
-    try {
-      const { granted } = await Audio.requestPermissionsAsync();
-      if (!granted) {
-        Alert.alert('Permission required', 'Please allow microphone access to record.');
-        return;
-      }
-
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
-
-      const recording = new Audio.Recording();
-      await recording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
-      await recording.startAsync();
-      recordingRef.current = recording;
-
-      // Show recording bar
-      recordingTabY.value = withTiming(0, { duration: 300, easing: Easing.out(Easing.cubic) });
-
-      // Start metering
-      waveformDataRef.current = [];
-      setWaveformTrigger(0);
-      meteringRef.current = setInterval(async () => {
-        if (recordingRef.current) {
-          const status = await recordingRef.current.getStatusAsync();
-          if (status.isRecording && typeof status.metering === 'number') {
-            const minDb = -26;
-            const maxDb = -6;
-            const normalized = Math.max(0, Math.min(1, (status.metering - minDb) / (maxDb - minDb)));
-
-            waveformDataRef.current.push(normalized);
-            if (waveformDataRef.current.length > WAVEFORM_SAMPLES) {
-              waveformDataRef.current = waveformDataRef.current.slice(-WAVEFORM_SAMPLES);
-            }
-            setWaveformTrigger((t) => t + 1);
-          }
-        }
-      }, 50);
-
-      setRecordingState('recording');
-    } catch (error) {
-      console.error('Failed to start recording:', error);
-      Alert.alert('Error', 'Failed to start recording');
-    }
-  }, []);
+  // Recording, streamed for live transcription against the current chunk
+  const currentChunk = session.chunks[session.currentIndex] as Chunk | undefined;
 
-  const handleCancel = useCallback(async () => {
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    stopMetering();
-    hideRecordingBar();
+  const handleRecordingComplete = useCallback(
+    async (uri: string, durationSeconds: number, liveTranscription: LiveTranscriptionResult | null) => {
+      // Process recording through session hook (with duration for usage metering)
+      await session.processRecording(uri, durationSeconds, liveTranscription);
+    },
+    [session]
+  );
 
-    try {
-      if (recordingRef.current) {
-        await recordingRef.current.stopAndUnloadAsync();
-        recordingRef.current = null;
-      }
-    } catch (error) {
-      console.error('Failed to cancel recording:', error);
-    }
+  const {
+    recordingState,
+    transcribing,
+    waveformDataRef,
+    waveformTrigger,
+    liveTranscript,
+    recordingTabStyle,
+    spinnerStyle,
+    startRecording,
+    cancelRecording,
+    submitRecording,
+  } = useRecording({
+    onRecordingComplete: handleRecordingComplete,
+    liveVerseText: inputMode === 'spoken' ? currentChunk?.text : undefined,
+    liveLanguage: getVersionLanguage(session.verse?.version),
+  });
 
-    setRecordingState('idle');
-  }, [stopMetering, hideRecordingBar]);
+  // Words of the current chunk heard so far
+  const liveWords = useMemo(
+    () => (currentChunk && liveTranscript
+      ? alignLiveTranscription(currentChunk.text, liveTranscript, session.scoringProfile)
+      : undefined),
+    [currentChunk, liveTranscript, session.scoringProfile]
+  );
 
-  const handleSubmit = useCallback(async () => {
+  const handleTypedSubmit = useCallback(async (text: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    stopMetering();
-
-    if (!recordingRef.current) {
-      setRecordingState('idle');
-      return;
-    }
+    Keyboard.dismiss();
 
     try {
-      setTranscribing(true);
-
-      // Get duration before stopping
-      const status = await recordingRef.current.getStatusAsync();
-      const durationSeconds = Math.ceil((status.durationMillis ?? 0) / 1000);
-
-      await recordingRef.current.stopAndUnloadAsync();
-      const uri = recordingRef.current.getURI();
-      recordingRef.current = null;
-
-      if (!uri) {
-        throw new Error('No recording URI');
-      }
-
-      setRecordingState('idle');
-
-      // Process recording through session hook (with duration for usage metering)
-      await session.processRecording(uri, durationSeconds);
-
-      // Hide bar after processing
-      hideRecordingBar(() => setTranscribing(false));
+      await session.submitTypedText(text);
     } catch (error) {
-      console.error('Recording submission failed:', error);
-      hideRecordingBar(() => setTranscribing(false));
-      Alert.alert('Error', `Recording failed: ${error}`);
-      setRecordingState('idle');
+      console.error('Typed submission failed:', error);
+      Alert.alert('Error', `Submission failed: ${error}`);
     }
-  }, [stopMetering, hideRecordingBar, session]);
+  }, [session]);
 
   const onViewableItemsChanged = useCallback(
     ({ viewableItems }: { viewableItems: ViewToken[] }) => {
@@ -240,16 +133,14 @@ export default function StudySessionScreen() {
         const index = viewableItems[0].index;
         if (index !== null && index !== session.currentIndex) {
           // Cancel any active recording when scrolling away
-          if (recordingRef.current) {
-            recordingRef.current.stopAndUnloadAsync().catch(() => {});
-            recordingRef.current = null;
-            setRecordingState('idle');
+          if (recordingState === 'recording') {
+            cancelRecording();
           }
           session.setCurrentIndex(index);
         }
       }
     },
-    [session.currentIndex, session.setCurrentIndex]
+    [session.currentIndex, session.setCurrentIndex, recordingState, cancelRecording]
   );
 
   const viewabilityConfig = {
@@ -279,7 +170,9 @@ export default function StudySessionScreen() {
   const renderItem = ({ item, index }: { item: Chunk | ResultsPageItem; index: number }) => {
     // Results page
     if (isResultsPage(item)) {
-      const passed = session.finalScore >= 90;
+      const threshold = session.scoringProfile.masteryThreshold;
+      const passed = session.finalScore >= threshold;
+      const isReview = session.verses.length > 1;
 
       return (
         <View style={[styles.chunkContainer, { width: SCREEN_WIDTH }]}>
@@ -293,9 +186,34 @@ export default function StudySessionScreen() {
             </View>
 
             <Text style={[styles.scoreLabel, { color: colors.icon }]}>
-              {passed ? 'Great job! You passed!' : 'Keep practicing!'}
+              {session.hasPendingGrades
+                ? 'Some recordings will be graded when you\'re back online.'
+                : passed
+                ? 'Great job! You passed!'
+                : 'Keep practicing!'}
             </Text>
 
+            {/* Per-verse breakdown for review sessions */}
+            {isReview && (
+              <View style={[styles.verseScores, { backgroundColor: isDark ? '#1e1e1e' : '#f5f5f5' }]}>
+                {session.verseScores.map(({ verse, score }) => (
+                  <View key={verse.id} style={styles.verseScoreRow}>
+                    <Text style={[styles.verseScoreRef, { color: colors.text }]}>
+                      {formatVerseReference(verse)}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.verseScoreValue,
+                        { color: score === null ? colors.icon : score >= threshold ? '#22c55e' : '#ef4444' },
+                      ]}
+                    >
+                      {score === null ? 'Pending' : `${score}%`}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             <View style={styles.resultsButtons}>
               <Pressable
                 style={[styles.resultsButton, { backgroundColor: isDark ? '#374151' : '#e5e5e5' }]}
@@ -322,40 +240,79 @@ export default function StudySessionScreen() {
     const result = session.getChunkResult(index);
 
     // Build verse label
-    const verseLabel =
-      session.verse!.verseStart === session.verse!.verseEnd
-        ? formatVerseReference(session.verse!)
-        : item.verseNumEnd
-        ? `Verses ${item.verseNum}-${item.verseNumEnd}`
-        : `Verse ${item.verseNum}`;
+    const chunkVerse = session.getChunkVerse(index)!;
+    const baseLabel =
+      getPassageVerses(chunkVerse).length === 1 || session.verses.length > 1
+        ? formatVerseReference(chunkVerse)
+        : formatChunkVerses(item);
+    const verseLabel = item.phrase
+      ? `${baseLabel} · ${item.phrase.index}/${item.phrase.total}`
+      : baseLabel;
 
     return (
       <View style={[styles.chunkContainer, { width: SCREEN_WIDTH }]}>
         <View style={styles.cardsArea}>
-          <VerseCard chunk={item} difficulty={difficulty ?? 'easy'} verseLabel={verseLabel} />
+          <VerseCard
+            chunk={item}
+            difficulty={difficulty}
+            verseLabel={verseLabel}
+            liveWords={!isCompleted && session.currentIndex === index ? liveWords : undefined}
+            hints={session.getChunkHints(index)}
+            onHint={!isCompleted && session.currentIndex === index ? session.takeHint : undefined}
+          />
 
-          {isCompleted && result && (
+          {result && (
             <ResultCard
               score={result.score}
+              masteryThreshold={session.scoringProfile.masteryThreshold}
               alignment={result.alignment}
               transcription={result.transcription}
+              fluency={result.fluency}
+              pending={result.pending}
             />
           )}
         </View>
 
         <View style={styles.controlsContainer}>
-          {recordingState === 'idle' &&
+          {inputMode === 'typed' &&
+            !isCompleted &&
+            !result &&
+            session.currentIndex === index && (
+              <TypedInput key={item.id} onSubmit={handleTypedSubmit} />
+            )}
+
+          {inputMode === 'spoken' &&
+            recordingState === 'idle' &&
             !transcribing &&
             !isCompleted &&
+            !result &&
             session.currentIndex === index && (
               <Pressable
                 style={[styles.micButton, { backgroundColor: buttonBg }]}
-                onPress={handleMicPress}
+                onPress={startRecording}
               >
                 <IconSymbol name="mic.fill" size={32} color="#fff" />
               </Pressable>
             )}
 
+          {/* Chain step below the threshold */}
+          {!isCompleted &&
+            result &&
+            session.currentIndex === index && (
+              <View style={styles.retryContainer}>
+                <Text style={[styles.retryHint, { color: colors.icon }]}>
+                  {session.scoringProfile.masteryThreshold}% needed to continue the chain
+                </Text>
+                <Pressable
+                  style={[styles.nextButton, { backgroundColor: buttonBg }]}
+                  onPress={session.retryChunk}
+                >
+                  <IconSymbol name="arrow.counterclockwise" size={20} color="#fff" />
+                  <Text style={styles.nextButtonText}>Try Again</Text>
+                </Pressable>
+              </View>
+            )}
+
           {recordingState === 'idle' &&
             !transcribing &&
             isCompleted &&
@@ -376,14 +333,24 @@ export default function StudySessionScreen() {
   };
 
   return (
-    <View style={[styles.container, { backgroundColor: colors.background }]}>
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: colors.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
       <AppHeader
-        title={formatVerseReference(session.verse)}
+        title={
+          session.verses.length > 1
+            ? `Review ${session.verses.indexOf(session.verse) + 1} of ${session.verses.length}`
+            : formatVerseReference(session.verse)
+        }
         showBack={false}
         leftButton={{
           icon: 'xmark',
           onPress: () => {
-            Alert.alert('End Session?', 'Your progress will not be saved.', [
+            const message = session.verseScores.length > 0
+              ? 'Verses you already finished are saved. Progress on the current verse will not be.'
+              : 'Your progress will not be saved.';
+            Alert.alert('End Session?', message, [
               { text: 'Cancel', style: 'cancel' },
               { text: 'End', style: 'destructive', onPress: () => router.back() },
             ]);
@@ -436,10 +403,10 @@ export default function StudySessionScreen() {
         waveformTrigger={waveformTrigger}
         animatedStyle={recordingTabStyle}
         spinnerStyle={spinnerStyle}
-        onCancel={handleCancel}
-        onSubmit={handleSubmit}
+        onCancel={cancelRecording}
+        onSubmit={submitRecording}
       />
-    </View>
+    </KeyboardAvoidingView>
   );
 }
 
@@ -500,6 +467,13 @@ const styles = StyleSheet.create({
     fontSize: 17,
     fontWeight: '600',
   },
+  retryContainer: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  retryHint: {
+    fontSize: 14,
+  },
   resultsContent: {
     flex: 1,
     justifyContent: 'center',
@@ -525,6 +499,25 @@ const styles = StyleSheet.create({
   scoreLabel: {
     fontSize: 18,
   },
+  verseScores: {
+    alignSelf: 'stretch',
+    marginHorizontal: 20,
+    padding: 12,
+    borderRadius: 12,
+    gap: 8,
+  },
+  verseScoreRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  verseScoreRef: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  verseScoreValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
   resultsButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -44,12 +44,7 @@ export function VOTMCard({
   const cardBg = isDark ? '#1e1e1e' : '#f5f5f5';
 
   // Format reference for display
-  const reference = formatVerseReference({
-    book: votm.book,
-    chapter: votm.chapter,
-    verseStart: votm.verseStart,
-    verseEnd: votm.verseEnd,
-  } as any);
+  const reference = formatVerseReference(votm);
 
   const cardContent = (
     <View style={styles.contentWrapper}>
@@ -19,15 +19,46 @@ import { BlurView } from 'expo-blur';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { type Collection, type CollectionChanges } from '@/lib/storage';
+
+// SF Symbols offered for collections (each needs a Material mapping in icon-symbol.tsx)
+const COLLECTION_ICONS = [
+  'folder.fill',
+  'heart.fill',
+  'book.fill',
+  'bookmark.fill',
+  'star.fill',
+  'flame.fill',
+  'leaf.fill',
+  'sun.max.fill',
+  'moon.fill',
+  'sparkles',
+  'person.2.fill',
+  'music.note',
+];
+
+const COLLECTION_COLORS = [
+  '#0a7ea4', // Blue
+  '#22c55e', // Green
+  '#f59e0b', // Amber
+  '#ef4444', // Red
+  '#ec4899', // Pink
+  '#8b5cf6', // Purple
+  '#14b8a6', // Teal
+  '#6b7280', // Gray
+];
 
 interface AddCollectionModalProps {
   visible: boolean;
+  collection?: Collection; // Edit this collection instead of creating one
   onClose: () => void;
-  onAdd: (name: string) => void;
+  onSave: (values: CollectionChanges & { name: string }) => void;
 }
 
-export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionModalProps) {
+export function AddCollectionModal({ visible, collection, onClose, onSave }: AddCollectionModalProps) {
   const [name, setName] = useState('');
+  const [icon, setIcon] = useState<string | undefined>();
+  const [iconColor, setIconColor] = useState<string | undefined>();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const isDark = colorScheme === 'dark';
@@ -35,6 +66,15 @@ export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionMod
   const scale = useSharedValue(0.95);
   const opacity = useSharedValue(0);
 
+  // Start from the collection being edited (or a blank one) each time
+  React.useEffect(() => {
+    if (visible) {
+      setName(collection?.name ?? '');
+      setIcon(collection?.icon);
+      setIconColor(collection?.iconColor);
+    }
+  }, [visible, collection]);
+
   React.useEffect(() => {
     if (visible) {
       scale.value = withSpring(1, { damping: 25, stiffness: 300 });
@@ -52,7 +92,7 @@ export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionMod
 
   const handleSubmit = () => {
     if (name.trim()) {
-      onAdd(name.trim());
+      onSave({ name: name.trim(), icon, iconColor });
       setName('');
       onClose();
     }
@@ -67,6 +107,8 @@ export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionMod
   const inputBg = isDark ? '#2c2c2e' : '#f5f5f5';
   const borderColor = isDark ? '#3a3a3c' : '#e0e0e0';
   const primaryColor = isDark ? '#60a5fa' : '#0a7ea4';
+  const previewIcon = icon || (collection?.isDefault ? 'heart.fill' : 'folder.fill');
+  const previewColor = iconColor || primaryColor;
 
   return (
     <Modal
@@ -87,10 +129,12 @@ export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionMod
           {/* Header */}
           <View style={styles.header}>
             <View style={styles.headerLeft}>
-              <View style={[styles.iconContainer, { backgroundColor: `${primaryColor}15` }]}>
-                <IconSymbol name="folder.fill" size={22} color={primaryColor} />
+              <View style={[styles.iconContainer, { backgroundColor: `${previewColor}15` }]}>
+                <IconSymbol name={previewIcon as any} size={22} color={previewColor} />
               </View>
-              <Text style={[styles.title, { color: colors.text }]}>New Collection</Text>
+              <Text style={[styles.title, { color: colors.text }]}>
+                {collection ? 'Edit Collection' : 'New Collection'}
+              </Text>
             </View>
             <Pressable onPress={handleClose} style={styles.closeButton}>
               <IconSymbol name="xmark" size={18} color={colors.icon} />
@@ -113,13 +157,49 @@ export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionMod
               placeholderTextColor={colors.icon}
               value={name}
               onChangeText={setName}
-              autoFocus
+              autoFocus={!collection}
               returnKeyType="done"
               onSubmitEditing={handleSubmit}
             />
-            <Text style={[styles.hint, { color: colors.icon }]}>
-              Create a collection to organize verses by theme, book, or study plan.
-            </Text>
+            {!collection && (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                Create a collection to organize verses by theme, book, or study plan.
+              </Text>
+            )}
+
+            <Text style={[styles.label, styles.sectionLabel, { color: colors.text }]}>Icon</Text>
+            <View style={styles.swatches}>
+              {COLLECTION_ICONS.map((symbol) => (
+                <Pressable
+                  key={symbol}
+                  style={[
+                    styles.iconSwatch,
+                    { backgroundColor: inputBg },
+                    previewIcon === symbol && { borderColor: previewColor },
+                  ]}
+                  onPress={() => setIcon(symbol)}
+                >
+                  <IconSymbol
+                    name={symbol as any}
+                    size={20}
+                    color={previewIcon === symbol ? previewColor : colors.icon}
+                  />
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={[styles.label, styles.sectionLabel, { color: colors.text }]}>Color</Text>
+            <View style={styles.swatches}>
+              {COLLECTION_COLORS.map((color) => (
+                <Pressable
+                  key={color}
+                  style={[styles.colorSwatch, { backgroundColor: color }]}
+                  onPress={() => setIconColor(color)}
+                >
+                  {iconColor === color && <IconSymbol name="checkmark" size={16} color="#fff" />}
+                </Pressable>
+              ))}
+            </View>
           </View>
 
           {/* Buttons */}
@@ -139,7 +219,9 @@ export function AddCollectionModal({ visible, onClose, onAdd }: AddCollectionMod
               onPress={handleSubmit}
               disabled={!name.trim()}
             >
-              <Text style={[styles.buttonText, { color: '#fff' }]}>Create Collection</Text>
+              <Text style={[styles.buttonText, { color: '#fff' }]}>
+                {collection ? 'Save' : 'Create Collection'}
+              </Text>
             </Pressable>
           </View>
         </Animated.View>
@@ -217,6 +299,30 @@ const styles = StyleSheet.create({
     marginTop: 12,
     lineHeight: 18,
   },
+  sectionLabel: {
+    marginTop: 20,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  iconSwatch: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   buttons: {
     flexDirection: 'row',
     padding: 20,
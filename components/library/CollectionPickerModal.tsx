@@ -0,0 +1,110 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCollections } from '@/lib/store';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+
+interface CollectionPickerModalProps {
+  visible: boolean;
+  title: string;
+  selectedId?: string;
+  excludeId?: string; // e.g. the collection a verse is being moved out of
+  onSelect: (collectionId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Pick a collection verses can be added to (virtual collections are left out)
+ */
+export function CollectionPickerModal({
+  visible,
+  title,
+  selectedId,
+  excludeId,
+  onSelect,
+  onClose,
+}: CollectionPickerModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isDark = colorScheme === 'dark';
+  const primaryColor = isDark ? '#60a5fa' : '#0a7ea4';
+  const selectedBg = isDark ? '#0a84ff' : '#007aff';
+
+  const collections = useCollections().filter((c) => !c.isVirtual && c.id !== excludeId);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <View style={[styles.container, { backgroundColor: isDark ? '#2c2c2e' : '#fff' }]}>
+          <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+          {collections.map((collection) => {
+            const isSelected = collection.id === selectedId;
+            return (
+              <Pressable
+                key={collection.id}
+                style={[styles.option, isSelected && { backgroundColor: selectedBg }]}
+                onPress={() => onSelect(collection.id)}
+              >
+                <IconSymbol
+                  name={(collection.icon || (collection.isDefault ? 'heart.fill' : 'folder.fill')) as any}
+                  size={18}
+                  color={isSelected ? '#fff' : collection.iconColor || (collection.isDefault ? primaryColor : colors.icon)}
+                />
+                <Text style={[styles.optionText, { color: isSelected ? '#fff' : colors.text }]}>
+                  {collection.name}
+                </Text>
+              </Pressable>
+            );
+          })}
+          {collections.length === 0 && (
+            <Text style={[styles.emptyText, { color: colors.icon }]}>No other collections</Text>
+          )}
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '80%',
+    maxWidth: 300,
+    borderRadius: 14,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    marginBottom: 6,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+});
@@ -14,8 +14,9 @@ import Animated, {
   runOnJS,
 } from 'react-native-reanimated';
 
-const DELETE_BUTTON_WIDTH = 80;
-const SWIPE_THRESHOLD = DELETE_BUTTON_WIDTH / 2;
+const ACTION_BUTTON_WIDTH = 80;
+const SWIPE_THRESHOLD = ACTION_BUTTON_WIDTH / 2;
+const LIST_GAP = 12; // Space between cards in the library list
 
 interface CollectionWithCount extends Collection {
   verseCount: number;
@@ -26,6 +27,9 @@ interface SwipeableCollectionCardProps {
   index: number;
   onPress: () => void;
   onDelete: () => void;
+  onEdit?: () => void;
+  reordering?: boolean; // Show the drag handle instead of opening the collection
+  onReorder?: (steps: number) => void; // Dropped this many places down (negative = up)
 }
 
 export function SwipeableCollectionCard({
@@ -33,6 +37,9 @@ export function SwipeableCollectionCard({
   index,
   onPress,
   onDelete,
+  onEdit,
+  reordering = false,
+  onReorder,
 }: SwipeableCollectionCardProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -43,34 +50,66 @@ export function SwipeableCollectionCard({
   const primaryColor = isDark ? '#60a5fa' : '#0a7ea4';
 
   const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const cardHeight = useSharedValue(0);
+  const dragging = useSharedValue(false);
   const debouncedPress = useDebouncedPress(onPress);
 
-  // Don't allow swipe on default or virtual collections
+  // Default and virtual collections can't be deleted or moved; virtual ones can't be edited
   const canDelete = !collection.isDefault && !collection.isVirtual;
+  const canEdit = !collection.isVirtual && !!onEdit;
+  const canReorder = canDelete && reordering;
+  const actionsWidth = ((canEdit ? 1 : 0) + (canDelete ? 1 : 0)) * ACTION_BUTTON_WIDTH;
 
   const panGesture = Gesture.Pan()
     .activeOffsetX([-10, 10])
     .failOffsetY([-5, 5])
-    .enabled(canDelete)
+    .enabled(actionsWidth > 0 && !reordering)
     .onUpdate((e) => {
       // Only allow left swipe (negative values)
-      translateX.value = Math.min(0, Math.max(e.translationX, -DELETE_BUTTON_WIDTH));
+      translateX.value = Math.min(0, Math.max(e.translationX, -actionsWidth));
     })
     .onEnd(() => {
       if (translateX.value < -SWIPE_THRESHOLD) {
-        // Snap to reveal delete button
-        translateX.value = withSpring(-DELETE_BUTTON_WIDTH, { damping: 20 });
+        // Snap to reveal action buttons
+        translateX.value = withSpring(-actionsWidth, { damping: 20 });
       } else {
         // Snap back to closed
         translateX.value = withSpring(0, { damping: 20 });
       }
     });
 
+  // Drag the handle to move the card; the list reorders when it's dropped
+  const dragGesture = Gesture.Pan()
+    .enabled(canReorder)
+    .onStart(() => {
+      dragging.value = true;
+    })
+    .onUpdate((e) => {
+      translateY.value = e.translationY;
+    })
+    .onEnd((e) => {
+      const steps = Math.round(e.translationY / (cardHeight.value + LIST_GAP));
+      if (steps !== 0 && onReorder) {
+        runOnJS(onReorder)(steps);
+      }
+    })
+    .onFinalize(() => {
+      dragging.value = false;
+      translateY.value = 0;
+    });
+
+  const containerStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: translateY.value }],
+    zIndex: dragging.value ? 1 : 0,
+    opacity: dragging.value ? 0.9 : 1,
+  }));
+
   const cardStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: translateX.value }],
   }));
 
-  const deleteButtonStyle = useAnimatedStyle(() => ({
+  const actionsStyle = useAnimatedStyle(() => ({
     opacity: Math.min(1, Math.abs(translateX.value) / SWIPE_THRESHOLD),
   }));
 
@@ -81,7 +120,13 @@ export function SwipeableCollectionCard({
     });
   };
 
+  const handleEdit = () => {
+    translateX.value = withSpring(0, { damping: 20 });
+    onEdit?.();
+  };
+
   const handlePress = () => {
+    if (reordering) return;
     // Close swipe if open, otherwise navigate
     if (translateX.value < -10) {
       translateX.value = withSpring(0, { damping: 20 });
@@ -93,15 +138,26 @@ export function SwipeableCollectionCard({
   return (
     <Animated.View
       entering={FadeInDown.delay(index * 80).duration(300)}
-      style={styles.container}
+      style={[styles.container, containerStyle]}
+      onLayout={(e) => {
+        cardHeight.value = e.nativeEvent.layout.height;
+      }}
     >
-      {/* Delete button (behind card) - only show if can delete */}
-      {canDelete && (
-        <Animated.View style={[styles.deleteButtonContainer, deleteButtonStyle]}>
-          <Pressable style={styles.deleteButton} onPress={handleDelete}>
-            <IconSymbol name="trash.fill" size={20} color="#fff" />
-            <Text style={styles.deleteText}>Delete</Text>
-          </Pressable>
+      {/* Action buttons (behind card) */}
+      {actionsWidth > 0 && (
+        <Animated.View style={[styles.actionsContainer, { width: actionsWidth }, actionsStyle]}>
+          {canEdit && (
+            <Pressable style={[styles.actionButton, { backgroundColor: primaryColor }]} onPress={handleEdit}>
+              <IconSymbol name="pencil" size={20} color="#fff" />
+              <Text style={styles.actionText}>Edit</Text>
+            </Pressable>
+          )}
+          {canDelete && (
+            <Pressable style={[styles.actionButton, styles.deleteButton]} onPress={handleDelete}>
+              <IconSymbol name="trash.fill" size={20} color="#fff" />
+              <Text style={styles.actionText}>Delete</Text>
+            </Pressable>
+          )}
         </Animated.View>
       )}
 
@@ -135,7 +191,7 @@ export function SwipeableCollectionCard({
                   ]}
                 >
                   <IconSymbol
-                    name={collection.icon || (collection.isDefault ? 'heart.fill' : 'folder.fill')}
+                    name={(collection.icon || (collection.isDefault ? 'heart.fill' : 'folder.fill')) as any}
                     size={24}
                     color={collection.iconColor || (collection.isDefault ? primaryColor : colors.icon)}
                   />
@@ -149,7 +205,17 @@ export function SwipeableCollectionCard({
                   </Text>
                 </View>
               </View>
-              <IconSymbol name="chevron.right" size={18} color={colors.icon} />
+              {reordering ? (
+                canReorder && (
+                  <GestureDetector gesture={dragGesture}>
+                    <View style={styles.dragHandle}>
+                      <IconSymbol name="line.3.horizontal" size={22} color={colors.icon} />
+                    </View>
+                  </GestureDetector>
+                )
+              ) : (
+                <IconSymbol name="chevron.right" size={18} color={colors.icon} />
+              )}
             </View>
           </Pressable>
         </Animated.View>
@@ -164,25 +230,25 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     borderRadius: 16,
   },
-  deleteButtonContainer: {
+  actionsContainer: {
     position: 'absolute',
     right: 0,
     top: 0,
     bottom: 0,
-    width: DELETE_BUTTON_WIDTH,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: '#ef4444',
+    flexDirection: 'row',
     borderRadius: 16,
+    overflow: 'hidden',
   },
-  deleteButton: {
-    flex: 1,
+  actionButton: {
+    width: ACTION_BUTTON_WIDTH,
     justifyContent: 'center',
     alignItems: 'center',
-    width: '100%',
     gap: 4,
   },
-  deleteText: {
+  deleteButton: {
+    backgroundColor: '#ef4444',
+  },
+  actionText: {
     color: '#fff',
     fontSize: 12,
     fontWeight: '600',
@@ -224,4 +290,8 @@ const styles = StyleSheet.create({
   verseCount: {
     fontSize: 14,
   },
+  dragHandle: {
+    paddingVertical: 8,
+    paddingLeft: 12,
+  },
 });
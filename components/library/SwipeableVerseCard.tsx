@@ -3,8 +3,14 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useDebouncedPress } from '@/hooks/use-debounced-press';
-import { formatVerseReference, type SavedVerse, type Difficulty } from '@/lib/storage';
-import { getVerseText } from '@/lib/api/bible';
+import { formatVerseReference, type SavedVerse } from '@/lib/storage';
+import {
+  DIFFICULTY_INFO,
+  MASTERY_DIFFICULTY,
+  getHighestCompletedDifficulty,
+  isVerseMastered,
+} from '@/lib/difficulty';
+import { getVerseText, joinVerseTexts } from '@/lib/api/bible';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, View } from 'react-native';
 import Animated, {
@@ -24,6 +30,7 @@ interface SwipeableVerseCardProps {
   index: number;
   onPress: () => void;
   onDelete: () => void;
+  onLongPress?: () => void;
   disableSwipe?: boolean;
 }
 
@@ -32,6 +39,7 @@ export function SwipeableVerseCard({
   index,
   onPress,
   onDelete,
+  onLongPress,
   disableSwipe = false,
 }: SwipeableVerseCardProps) {
   const colorScheme = useColorScheme();
@@ -50,20 +58,14 @@ export function SwipeableVerseCard({
     if (!verse.text) {
       setLoading(true);
       getVerseText(verse)
-        .then(setText)
+        .then((verses) => setText(joinVerseTexts(verses)))
         .catch(() => setText('Failed to load verse text'))
         .finally(() => setLoading(false));
     }
   }, [verse]);
 
-  // Get highest completed difficulty (90%+)
-  const getHighestDifficulty = (): Difficulty | null => {
-    if (verse.progress.hard.completed) return 'hard';
-    if (verse.progress.medium.completed) return 'medium';
-    if (verse.progress.easy.completed) return 'easy';
-    return null;
-  };
-  const highestDifficulty = getHighestDifficulty();
+  // Get highest completed difficulty
+  const highestDifficulty = getHighestCompletedDifficulty(verse.progress);
 
   const translateX = useSharedValue(0);
   const itemHeight = useSharedValue<number | null>(null);
@@ -97,7 +99,7 @@ export function SwipeableVerseCard({
 
   const handleDelete = () => {
     // Check if verse is mastered
-    const isMastered = verse.progress?.hard?.completed === true;
+    const isMastered = isVerseMastered(verse.progress);
 
     const title = isMastered ? 'Remove from collection?' : 'Delete verse?';
     const message = isMastered
@@ -161,6 +163,7 @@ export function SwipeableVerseCard({
               },
             ]}
             onPress={handlePress}
+            onLongPress={onLongPress}
           >
             <View style={styles.cardContent}>
               <View
@@ -179,15 +182,11 @@ export function SwipeableVerseCard({
                       {' '}• {verse.version}
                     </Text>
                   </Text>
-                  {highestDifficulty === 'easy' && (
-                    <View style={[styles.difficultyDot, { backgroundColor: '#eab308' }]} />
-                  )}
-                  {highestDifficulty === 'medium' && (
-                    <View style={[styles.difficultyDot, { backgroundColor: '#1d4ed8' }]} />
-                  )}
-                  {highestDifficulty === 'hard' && (
-                    <IconSymbol name="checkmark" size={12} color="#22c55e" />
-                  )}
+                  {highestDifficulty === MASTERY_DIFFICULTY ? (
+                    <IconSymbol name="checkmark" size={12} color={DIFFICULTY_INFO[highestDifficulty].color} />
+                  ) : highestDifficulty ? (
+                    <View style={[styles.difficultyDot, { backgroundColor: DIFFICULTY_INFO[highestDifficulty].color }]} />
+                  ) : null}
                 </View>
                 {loading ? (
                   <ActivityIndicator size="small" color={colors.icon} style={styles.loader} />
@@ -4,17 +4,21 @@ import Animated, { withDelay, withTiming, Easing } from 'react-native-reanimated
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { HESITATION_MS, type FluencyMetrics } from '@/lib/fluency';
 import type { AlignmentWord } from '@/lib/study-chunks';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CARD_MAX_HEIGHT = SCREEN_HEIGHT * 0.30;
 
-type ResultStatus = 'success' | 'partial' | 'retry';
+type ResultStatus = 'success' | 'partial' | 'retry' | 'pending';
 
 interface ResultCardProps {
   score: number;
+  masteryThreshold: number; // Accuracy (%) that counts as a pass under the active profile
   alignment?: AlignmentWord[];
   transcription?: string;
+  fluency?: FluencyMetrics | null; // Spoken chunks only
+  pending?: boolean; // Recorded offline, not graded yet
 }
 
 const STATUS_CONFIG = {
@@ -33,10 +37,15 @@ const STATUS_CONFIG = {
     label: 'Try again',
     color: '#ef4444',
   },
+  pending: {
+    icon: 'clock' as const,
+    label: 'Pending grading',
+    color: '#6b7280',
+  },
 };
 
-function getStatus(score: number): ResultStatus {
-  if (score >= 90) return 'success';
+function getStatus(score: number, masteryThreshold: number): ResultStatus {
+  if (score >= masteryThreshold) return 'success';
   if (score >= 70) return 'partial';
   return 'retry';
 }
@@ -77,6 +86,9 @@ const ALIGNMENT_COLORS = {
   warning: '#f59e0b',     // amber for added/close
 };
 
+// Words the recognizer was less sure of than this are shown faded
+const LOW_CONFIDENCE = 0.6;
+
 /**
  * Renders a single word with appropriate styling based on status
  */
@@ -102,10 +114,30 @@ function Word({ item, textColor }: { item: AlignmentWord; textColor: string }) {
       );
 
     case 'close':
-      // Amber background (future: synonym/near-match)
+      // Amber background (near-match), with the verse's word when it's spelled differently
       return (
-        <Text style={styles.closeWord}>
-          {item.word}
+        <Text>
+          <Text style={styles.closeWord}>{item.word}</Text>
+          {item.expected && item.expected.toLowerCase() !== item.word.toLowerCase() && (
+            <Text style={styles.closeExpected}> ({item.expected})</Text>
+          )}
+        </Text>
+      );
+
+    case 'transposed':
+      // Purple + dotted underline (right word, wrong place)
+      return (
+        <Text style={styles.transposedWord}>
+          ⇄{item.word}
+        </Text>
+      );
+
+    case 'substituted':
+      // Verse word struck through, followed by the word said in its place
+      return (
+        <Text>
+          <Text style={styles.missingWord}>{item.expected}</Text>
+          <Text style={styles.substitutedWord}>→{item.word}</Text>
         </Text>
       );
 
@@ -115,27 +147,51 @@ function Word({ item, textColor }: { item: AlignmentWord; textColor: string }) {
 }
 
 /**
- * Renders word alignment with color-coded status
+ * Renders word alignment with color-coded status.
+ * With word timings, long pauses show as "⋯" and low-confidence words are faded.
  */
 function AlignmentDisplay({ alignment, textColor }: { alignment: AlignmentWord[]; textColor: string }) {
+  let lastEndMs: number | undefined;
+
   return (
     <Text style={styles.alignmentContainer}>
-      {alignment.map((item, i) => (
-        <Text key={i}>
-          <Word item={item} textColor={textColor} />
-          {i < alignment.length - 1 ? ' ' : ''}
-        </Text>
-      ))}
+      {alignment.map((item, i) => {
+        const hesitated = item.startMs !== undefined && lastEndMs !== undefined &&
+          item.startMs - lastEndMs >= HESITATION_MS;
+        const unsure = item.confidence !== undefined && item.confidence < LOW_CONFIDENCE;
+        if (item.endMs !== undefined) lastEndMs = item.endMs;
+
+        return (
+          <Text key={i}>
+            {hesitated && <Text style={{ color: textColor, opacity: 0.4 }}>⋯ </Text>}
+            <Text style={unsure ? styles.lowConfidenceWord : undefined}>
+              <Word item={item} textColor={textColor} />
+            </Text>
+            {i < alignment.length - 1 ? ' ' : ''}
+          </Text>
+        );
+      })}
     </Text>
   );
 }
 
-export function ResultCard({ score, alignment, transcription }: ResultCardProps) {
+/**
+ * "112 wpm · 2 pauses" (pauses only when word timings were available)
+ */
+function formatFluency({ wordsPerMinute, hesitationCount }: FluencyMetrics): string {
+  const parts = [`${wordsPerMinute} wpm`];
+  if (hesitationCount !== null) {
+    parts.push(hesitationCount === 0 ? 'no pauses' : `${hesitationCount} pause${hesitationCount === 1 ? '' : 's'}`);
+  }
+  return parts.join(' · ');
+}
+
+export function ResultCard({ score, masteryThreshold, alignment, transcription, fluency, pending }: ResultCardProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const isDark = colorScheme === 'dark';
 
-  const status = getStatus(score);
+  const status = pending ? 'pending' : getStatus(score, masteryThreshold);
   const statusConfig = STATUS_CONFIG[status];
   const statusColors = getStatusColors(status, isDark);
 
@@ -162,14 +218,18 @@ export function ResultCard({ score, alignment, transcription }: ResultCardProps)
           </View>
           <View style={[styles.scoreBadge, { backgroundColor: `${statusColors.text}20` }]}>
             <Text style={[styles.scoreBadgeText, { color: statusColors.text }]}>
-              {score}% match
+              {pending ? 'Offline' : `${score}% match`}
             </Text>
           </View>
         </View>
 
         {/* Transcription/Alignment */}
         <ScrollView style={styles.scrollContent} contentContainerStyle={styles.scrollInner}>
-          {alignment && alignment.length > 0 ? (
+          {pending ? (
+            <Text style={[styles.transcriptionText, { color: colors.icon }]}>
+              Your recording is saved and will be graded when you&apos;re back online.
+            </Text>
+          ) : alignment && alignment.length > 0 ? (
             <AlignmentDisplay alignment={alignment} textColor={colors.text} />
           ) : transcription ? (
             <Text style={[styles.transcriptionText, { color: colors.text }]}>
@@ -177,6 +237,13 @@ export function ResultCard({ score, alignment, transcription }: ResultCardProps)
             </Text>
           ) : null}
         </ScrollView>
+
+        {/* Pace */}
+        {!pending && fluency && (
+          <Text style={[styles.fluencyText, { color: colors.icon }]}>
+            {formatFluency(fluency)}
+          </Text>
+        )}
       </View>
     </Animated.View>
   );
@@ -229,6 +296,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 26,
   },
+  fluencyText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 8,
+  },
   // Missing: red + strikethrough + opacity (word user should have said)
   missingWord: {
     color: '#ef4444',
@@ -240,11 +312,32 @@ const styles = StyleSheet.create({
     color: '#f59e0b',
     textDecorationLine: 'underline',
   },
-  // Close: amber background (future: synonym/near-match)
+  // Close: amber background (near-match: spelling variant, homophone, split compound)
   closeWord: {
     color: '#f59e0b',
     backgroundColor: 'rgba(245, 158, 11, 0.2)',
     borderRadius: 2,
     paddingHorizontal: 2,
   },
+  closeExpected: {
+    color: '#f59e0b',
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  // Transposed: purple + dotted underline (right word, said out of order)
+  transposedWord: {
+    color: '#8b5cf6',
+    textDecorationLine: 'underline',
+    textDecorationStyle: 'dotted',
+  },
+  // Substituted: said in place of the struck-through verse word
+  substitutedWord: {
+    color: '#f97316',
+    fontWeight: '600',
+  },
+  // Low confidence: the recognizer wasn't sure it heard this word
+  lowConfidenceWord: {
+    fontStyle: 'italic',
+    opacity: 0.6,
+  },
 });
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { View, TextInput, Pressable, StyleSheet } from 'react-native';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+interface TypedInputProps {
+  onSubmit: (text: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Text box for reciting a chunk by typing instead of speaking
+ */
+export function TypedInput({ onSubmit, disabled }: TypedInputProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isDark = colorScheme === 'dark';
+  const [text, setText] = useState('');
+
+  const canSubmit = text.trim().length > 0 && !disabled;
+  const buttonBg = isDark ? '#3b82f6' : '#0a7ea4';
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: isDark ? '#1e1e1e' : '#f5f5f5',
+          borderColor: isDark ? '#38383a' : '#e5e5e5',
+        },
+      ]}
+    >
+      <TextInput
+        style={[styles.input, { color: colors.text }]}
+        value={text}
+        onChangeText={setText}
+        placeholder="Type the verse from memory..."
+        placeholderTextColor={colors.icon}
+        multiline
+        autoCorrect={false}
+        spellCheck={false}
+        autoCapitalize="sentences"
+        editable={!disabled}
+      />
+      <Pressable
+        style={[styles.submitButton, { backgroundColor: buttonBg, opacity: canSubmit ? 1 : 0.4 }]}
+        onPress={() => onSubmit(text.trim())}
+        disabled={!canSubmit}
+      >
+        <IconSymbol name="checkmark" size={22} color="#fff" />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    alignSelf: 'stretch',
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 8,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    lineHeight: 22,
+    minHeight: 44,
+    maxHeight: 120,
+    paddingHorizontal: 8,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  submitButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
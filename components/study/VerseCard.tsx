@@ -1,10 +1,10 @@
 import React from 'react';
-import { View, Text, ScrollView, StyleSheet, Dimensions } from 'react-native';
+import { View, Text, ScrollView, Pressable, StyleSheet, Dimensions } from 'react-native';
 import Animated, { Layout } from 'react-native-reanimated';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import type { Chunk, Difficulty } from '@/lib/study-chunks';
+import { applyHints, getMaxHints, type Chunk, type Difficulty, type LiveWordStatus } from '@/lib/study-chunks';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CARD_MAX_HEIGHT = SCREEN_HEIGHT * 0.30;
@@ -14,9 +14,12 @@ interface VerseCardProps {
   chunk: Chunk;
   difficulty: Difficulty;
   verseLabel: string;
+  liveWords?: LiveWordStatus[]; // Per word of chunk.text, while reciting with live transcription
+  hints?: number; // Hints taken so far
+  onHint?: () => void; // Shows the hint button (current chunk only)
 }
 
-export function VerseCard({ chunk, difficulty, verseLabel }: VerseCardProps) {
+export function VerseCard({ chunk, difficulty, verseLabel, liveWords, hints = 0, onHint }: VerseCardProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const isDark = colorScheme === 'dark';
@@ -26,6 +29,18 @@ export function VerseCard({ chunk, difficulty, verseLabel }: VerseCardProps) {
   const accentColor = isDark ? '#60a5fa' : colors.tint;
   const borderColor = isDark ? 'rgba(96,165,250,0.3)' : 'rgba(10,126,164,0.25)';
 
+  const displayText = applyHints(chunk, hints);
+  const canHint = !!onHint && hints < getMaxHints(chunk);
+
+  // Masking keeps one display word per verse word, so statuses line up by position
+  const displayWords = displayText.split(/\s+/).filter((w) => w.length > 0);
+  const liveStatuses = liveWords?.length === displayWords.length ? liveWords : null;
+  const liveColors: Record<LiveWordStatus, string> = {
+    spoken: accentColor,
+    skipped: '#ef4444',
+    upcoming: colors.text,
+  };
+
   return (
     <Animated.View
       style={[
@@ -36,12 +51,28 @@ export function VerseCard({ chunk, difficulty, verseLabel }: VerseCardProps) {
       layout={Layout.duration(300)}
     >
       <View style={styles.cardContent}>
-        {/* Reference Badge */}
-        <View style={[styles.referenceBadge, { backgroundColor: badgeBg }]}>
-          <IconSymbol name="book.fill" size={14} color={accentColor} />
-          <Text style={[styles.referenceBadgeText, { color: accentColor }]}>
-            {verseLabel}
-          </Text>
+        <View style={styles.headerRow}>
+          {/* Reference Badge */}
+          <View style={[styles.referenceBadge, { backgroundColor: badgeBg }]}>
+            <IconSymbol name="book.fill" size={14} color={accentColor} />
+            <Text style={[styles.referenceBadgeText, { color: accentColor }]}>
+              {verseLabel}
+            </Text>
+          </View>
+
+          {/* Hint Button */}
+          {onHint && (
+            <Pressable
+              style={[styles.hintButton, { borderColor, opacity: canHint ? 1 : 0.4 }]}
+              onPress={onHint}
+              disabled={!canHint}
+            >
+              <IconSymbol name="lightbulb.fill" size={14} color={accentColor} />
+              <Text style={[styles.hintButtonText, { color: accentColor }]}>
+                {hints > 0 ? `Hint (${hints})` : 'Hint'}
+              </Text>
+            </Pressable>
+          )}
         </View>
 
         {/* Verse Text */}
@@ -49,7 +80,7 @@ export function VerseCard({ chunk, difficulty, verseLabel }: VerseCardProps) {
           style={[styles.cardScrollContent, { maxHeight: SCROLL_MAX_HEIGHT }]}
           contentContainerStyle={styles.verseTextContainer}
         >
-          {difficulty === 'hard' ? (
+          {difficulty === 'hard' && !displayText ? (
             <View style={styles.hardModeContainer}>
               <View style={[styles.hardModeIcon, { backgroundColor: badgeBg }]}>
                 <IconSymbol name="lightbulb.fill" size={28} color={accentColor} />
@@ -60,7 +91,13 @@ export function VerseCard({ chunk, difficulty, verseLabel }: VerseCardProps) {
             </View>
           ) : (
             <Text style={[styles.chunkText, { color: colors.text }]}>
-              {chunk.displayText}
+              {liveStatuses
+                ? displayWords.map((word, i) => (
+                    <Text key={i} style={{ color: liveColors[liveStatuses[i]] }}>
+                      {i > 0 ? ' ' : ''}{word}
+                    </Text>
+                  ))
+                : displayText}
             </Text>
           )}
         </ScrollView>
@@ -87,6 +124,12 @@ const styles = StyleSheet.create({
   cardContent: {
     padding: 20,
   },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
   referenceBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -95,7 +138,19 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 20,
-    marginBottom: 16,
+  },
+  hintButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  hintButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
   },
   referenceBadgeText: {
     fontSize: 14,
@@ -28,6 +28,25 @@ const MAPPING = {
   'checkmark': 'check',
   'arrow.counterclockwise': 'refresh',
   'arrow.right': 'arrow-forward',
+  'clock.arrow.circlepath': 'history',
+  'checkmark.circle.fill': 'check-circle',
+  'clock': 'schedule',
+  'keyboard': 'keyboard',
+  'doc.on.clipboard': 'content-paste',
+  'exclamationmark.triangle.fill': 'warning',
+  'pencil': 'edit',
+  'line.3.horizontal': 'drag-handle',
+  'folder.fill': 'folder',
+  'heart.fill': 'favorite',
+  'bookmark.fill': 'bookmark',
+  'star.fill': 'star',
+  'flame.fill': 'local-fire-department',
+  'leaf.fill': 'eco',
+  'sun.max.fill': 'wb-sunny',
+  'moon.fill': 'dark-mode',
+  'sparkles': 'auto-awesome',
+  'person.2.fill': 'group',
+  'music.note': 'music-note',
 } as IconMapping;
 
 /**
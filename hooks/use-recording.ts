@@ -12,11 +12,36 @@ import {
 } from 'react-native-reanimated';
 import { WAVEFORM_SAMPLES } from '@/components/study/Waveform';
 import { RECORDING_BAR_HEIGHT } from '@/components/study/RecordingBar';
+import {
+  startLiveTranscription,
+  type LiveTranscription,
+  type LiveTranscriptionResult,
+} from '@/lib/api';
+import {
+  LIVE_AUDIO_FORMAT,
+  LIVE_RECORDING_OPTIONS,
+  createAudioTail,
+  type AudioTail,
+} from '@/lib/live-audio';
 
 type RecordingState = 'idle' | 'recording';
 
+// How often new audio is sent to the live transcription stream
+const STREAM_INTERVAL_MS = 250;
+
 interface UseRecordingOptions {
-  onRecordingComplete: (uri: string) => Promise<void>;
+  /**
+   * Called with the stopped recording. liveTranscription is the streamed
+   * transcript, or null if streaming was off or failed (upload the file instead).
+   * The recording bar hides once this resolves.
+   */
+  onRecordingComplete: (
+    uri: string,
+    durationSeconds: number,
+    liveTranscription: LiveTranscriptionResult | null
+  ) => Promise<void>;
+  liveVerseText?: string; // Stream the recording for live transcription, with this as context
+  liveLanguage?: string; // Language of liveVerseText (default 'en')
 }
 
 interface UseRecordingReturn {
@@ -25,6 +50,7 @@ interface UseRecordingReturn {
   transcribing: boolean;
   waveformDataRef: React.MutableRefObject<number[]>;
   waveformTrigger: number;
+  liveTranscript: string; // Heard so far in the current recording ('' if not streaming)
 
   // Animated styles
   recordingTabStyle: { transform: { translateY: number }[] };
@@ -35,20 +61,28 @@ interface UseRecordingReturn {
   cancelRecording: () => Promise<void>;
   submitRecording: () => Promise<void>;
 
-  // For manual transcribing control (called by parent after processing)
-  setTranscribing: (value: boolean) => void;
   hideRecordingBar: (onComplete?: () => void) => void;
 }
 
-export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseRecordingReturn {
+export function useRecording({ onRecordingComplete, liveVerseText, liveLanguage }: UseRecordingOptions): UseRecordingReturn {
   const [recordingState, setRecordingState] = useState<RecordingState>('idle');
   const [transcribing, setTranscribing] = useState(false);
   const [waveformTrigger, setWaveformTrigger] = useState(0);
+  const [liveTranscript, setLiveTranscript] = useState('');
 
   const recordingRef = useRef<Audio.Recording | null>(null);
   const meteringRef = useRef<NodeJS.Timeout | null>(null);
   const waveformDataRef = useRef<number[]>([]);
 
+  // Live transcription
+  const liveVerseTextRef = useRef(liveVerseText);
+  liveVerseTextRef.current = liveVerseText;
+  const liveLanguageRef = useRef(liveLanguage);
+  liveLanguageRef.current = liveLanguage;
+  const liveRef = useRef<LiveTranscription | null>(null);
+  const audioTailRef = useRef<AudioTail | null>(null);
+  const streamRef = useRef<NodeJS.Timeout | null>(null);
+
   // Animation values
   const recordingTabY = useSharedValue(RECORDING_BAR_HEIGHT + 60);
   const spinnerRotation = useSharedValue(0);
@@ -85,6 +119,12 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
         clearInterval(meteringRef.current);
         meteringRef.current = null;
       }
+      if (streamRef.current) {
+        clearInterval(streamRef.current);
+        streamRef.current = null;
+      }
+      liveRef.current?.cancel();
+      liveRef.current = null;
     };
   }, []);
 
@@ -96,6 +136,34 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
     waveformDataRef.current = [];
   }, []);
 
+  // Send whatever the recorder has written since the last send
+  const sendNewAudio = useCallback(() => {
+    if (!liveRef.current || !audioTailRef.current) return;
+
+    try {
+      const bytes = audioTailRef.current.read();
+      if (bytes) liveRef.current.sendAudio(bytes);
+    } catch (error) {
+      console.error('[Live] Failed to read audio:', error);
+      liveRef.current.cancel();
+    }
+  }, []);
+
+  const stopStreaming = useCallback(() => {
+    if (streamRef.current) {
+      clearInterval(streamRef.current);
+      streamRef.current = null;
+    }
+    audioTailRef.current = null;
+  }, []);
+
+  const cancelLiveTranscription = useCallback(() => {
+    stopStreaming();
+    liveRef.current?.cancel();
+    liveRef.current = null;
+    setLiveTranscript('');
+  }, [stopStreaming]);
+
   const hideRecordingBar = useCallback((onComplete?: () => void) => {
     recordingTabY.value = withTiming(
       RECORDING_BAR_HEIGHT + 60,
@@ -123,11 +191,28 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
         playsInSilentModeIOS: true,
       });
 
+      const liveText = liveVerseTextRef.current;
       const recording = new Audio.Recording();
-      await recording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
+      await recording.prepareToRecordAsync(
+        liveText ? LIVE_RECORDING_OPTIONS : Audio.RecordingOptionsPresets.HIGH_QUALITY
+      );
       await recording.startAsync();
       recordingRef.current = recording;
 
+      // Stream the file as it's written
+      setLiveTranscript('');
+      const uri = recording.getURI();
+      if (liveText && uri) {
+        audioTailRef.current = createAudioTail(uri, LIVE_AUDIO_FORMAT);
+        liveRef.current = startLiveTranscription({
+          actualVerse: liveText,
+          language: liveLanguageRef.current,
+          format: LIVE_AUDIO_FORMAT,
+          onPartial: setLiveTranscript,
+        });
+        streamRef.current = setInterval(sendNewAudio, STREAM_INTERVAL_MS);
+      }
+
       // Show recording bar
       recordingTabY.value = withTiming(0, { duration: 300, easing: Easing.out(Easing.cubic) });
 
@@ -156,11 +241,12 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
       console.error('Failed to start recording:', error);
       Alert.alert('Error', 'Failed to start recording');
     }
-  }, []);
+  }, [sendNewAudio]);
 
   const cancelRecording = useCallback(async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     stopMetering();
+    cancelLiveTranscription();
     hideRecordingBar();
 
     try {
@@ -173,13 +259,14 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
     }
 
     setRecordingState('idle');
-  }, [stopMetering, hideRecordingBar]);
+  }, [stopMetering, cancelLiveTranscription, hideRecordingBar]);
 
   const submitRecording = useCallback(async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     stopMetering();
 
     if (!recordingRef.current) {
+      cancelLiveTranscription();
       setRecordingState('idle');
       return;
     }
@@ -187,6 +274,10 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
     try {
       setTranscribing(true);
 
+      // Get duration before stopping
+      const status = await recordingRef.current.getStatusAsync();
+      const durationSeconds = Math.ceil((status.durationMillis ?? 0) / 1000);
+
       await recordingRef.current.stopAndUnloadAsync();
       const uri = recordingRef.current.getURI();
       recordingRef.current = null;
@@ -197,27 +288,38 @@ export function useRecording({ onRecordingComplete }: UseRecordingOptions): UseR
 
       setRecordingState('idle');
 
-      // Call the completion handler - parent will handle hiding bar
-      await onRecordingComplete(uri);
+      // Flush the tail of the file and wait for the final transcript
+      let liveTranscription: LiveTranscriptionResult | null = null;
+      if (liveRef.current) {
+        sendNewAudio();
+        stopStreaming();
+        liveTranscription = await liveRef.current.finish();
+        liveRef.current = null;
+      }
+
+      await onRecordingComplete(uri, durationSeconds, liveTranscription);
+      setLiveTranscript('');
+      hideRecordingBar(() => setTranscribing(false));
     } catch (error) {
       console.error('Recording submission failed:', error);
+      cancelLiveTranscription();
       hideRecordingBar(() => setTranscribing(false));
-      Alert.alert('Error', 'Recording failed');
+      Alert.alert('Error', `Recording failed: ${error}`);
       setRecordingState('idle');
     }
-  }, [stopMetering, hideRecordingBar, onRecordingComplete]);
+  }, [stopMetering, sendNewAudio, stopStreaming, cancelLiveTranscription, hideRecordingBar, onRecordingComplete]);
 
   return {
     recordingState,
     transcribing,
     waveformDataRef,
     waveformTrigger,
+    liveTranscript,
     recordingTabStyle,
     spinnerStyle,
     startRecording,
     cancelRecording,
     submitRecording,
-    setTranscribing,
     hideRecordingBar,
   };
 }
@@ -3,53 +3,81 @@ import { FlatList } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { router } from 'expo-router';
 import {
-  getSavedVerses,
   type SavedVerse,
   type Difficulty as StorageDifficulty,
 } from '@/lib/storage';
 import { useAppStore } from '@/lib/store';
-import { getVerseText } from '@/lib/api/bible';
+import { getVerseText, joinVerseTexts } from '@/lib/api/bible';
 import {
   type Chunk,
+  type ChunkStrategy,
   type Difficulty,
+  type InputMode,
   type AlignmentWord,
   type ResultsPageItem,
+  type TranscriptionWord,
   parseVerseIntoChunks,
+  buildChainSteps,
   calculateChunkScore,
   calculateFinalScore,
   createResultsPageItem,
+  getMaxHints,
 } from '@/lib/study-chunks';
-import { processRecording as processRecordingApi, logSessionAttempt } from '@/lib/api';
+import { processRecording as processRecordingApi, type LiveTranscriptionResult } from '@/lib/api';
 import { alignTranscription } from '@/lib/align';
+import { getSettings, getVersionLanguage } from '@/lib/settings';
+import { DEFAULT_SCORING_PROFILE, getScoringProfile, type ScoringProfile } from '@/lib/scoring';
+import { isOfflineError, persistRecording, queuePendingAttempt } from '@/lib/pending-recordings';
+import { calculateFluency, type FluencyMetrics } from '@/lib/fluency';
 
 interface ChunkResult {
   score: number;
-  transcription: string;
+  transcription: string; // Cleaned transcription, or the typed text
   alignment: AlignmentWord[];
+  durationMs: number; // 0 for typed chunks
+  fluency: FluencyMetrics | null; // Spoken chunks only
+  hints: number; // Taken before answering (already in the score)
+  pending?: boolean; // Recorded offline, graded once back online
+  audioUri?: string; // Persisted audio for pending chunks
+}
+
+export interface VerseScore {
+  verse: SavedVerse;
+  score: number | null; // null = pending grading
 }
 
 interface UseStudySessionOptions {
-  verseId: string;
+  verseIds: string[]; // Studied back to back, in order
   difficulty: Difficulty;
   chunkSize: number;
+  chunkStrategy?: ChunkStrategy; // Defaults to whole verses
+  chain?: boolean; // Recite cumulatively (1, 1-2, 1-3...), passing each step to go on
+  inputMode: InputMode;
 }
 
 interface UseStudySessionReturn {
   // Data
-  verse: SavedVerse | null;
+  verse: SavedVerse | null; // Verse of the current chunk
+  verses: SavedVerse[];
   chunks: Chunk[];
   loading: boolean;
   currentIndex: number;
-  completedChunks: Set<number>;
+  completedChunks: Set<number>; // In chain mode, only steps that passed
   showResults: boolean;
+  chain: boolean;
 
   // Results per chunk
   getChunkResult: (index: number) => ChunkResult | undefined;
+  getChunkVerse: (index: number) => SavedVerse | undefined;
+  getChunkHints: (index: number) => number;
 
   // Computed
   allChunksCompleted: boolean;
   listData: (Chunk | ResultsPageItem)[];
   finalScore: number;
+  scoringProfile: ScoringProfile;
+  verseScores: VerseScore[]; // Verses finished so far
+  hasPendingGrades: boolean;
 
   // Actions
   setCurrentIndex: (index: number) => void;
@@ -57,139 +85,364 @@ interface UseStudySessionReturn {
   goToResults: () => void;
   viewResults: () => void;
   done: () => void;
+  takeHint: () => void; // Reveal a little more of the current chunk
+  retryChunk: () => void; // Clear a chain step that didn't pass
+
+  // Recording result handler (liveTranscription: streamed transcript, or null to upload)
+  processRecording: (
+    uri: string,
+    durationSeconds: number,
+    liveTranscription?: LiveTranscriptionResult | null
+  ) => Promise<{
+    score: number;
+    alignment: AlignmentWord[];
+    allDone: boolean;
+    pending: boolean;
+    passed: boolean; // false for a chain step below the threshold
+  }>;
 
-  // Recording result handler
-  processRecording: (uri: string, durationSeconds: number) => Promise<{
+  // Typed answer handler (graded locally, no recording)
+  submitTypedText: (text: string) => Promise<{
     score: number;
     alignment: AlignmentWord[];
     allDone: boolean;
+    passed: boolean;
   }>;
 
   // Refs
   flatListRef: React.RefObject<FlatList | null>;
 }
 
+/**
+ * Save a finished verse: best-score progress and a session_attempts row.
+ * Both apply locally and are queued for the server, so this works offline.
+ */
+async function saveVerseResult(
+  verse: SavedVerse,
+  difficulty: Difficulty,
+  chunkSize: number,
+  accuracy: number,
+  recordingDurationMs: number | undefined,
+  profile: ScoringProfile,
+  inputMode: InputMode,
+  fluency: FluencyMetrics | null,
+  hintCount: number
+) {
+  // Update progress in Zustand store (writes to Supabase + updates local state)
+  try {
+    await useAppStore.getState().updateVerseProgress(verse.id, difficulty as StorageDifficulty, accuracy, profile, fluency);
+  } catch (e) {
+    console.error('[STUDY] Failed to update progress:', e);
+  }
+
+  try {
+    await useAppStore.getState().logAttempt(verse.id, {
+      difficulty,
+      chunkSize,
+      accuracy,
+      scoringProfile: profile.id,
+      inputMode,
+      recordingDurationMs,
+      fluency,
+      hintCount,
+    });
+  } catch (e) {
+    console.error('[STUDY] Failed to log attempt:', e);
+  }
+}
+
 export function useStudySession({
-  verseId,
+  verseIds,
   difficulty,
   chunkSize,
+  chunkStrategy = 'verses',
+  chain = false,
+  inputMode,
 }: UseStudySessionOptions): UseStudySessionReturn {
-  const [verse, setVerse] = useState<SavedVerse | null>(null);
+  const [verses, setVerses] = useState<SavedVerse[]>([]);
   const [loading, setLoading] = useState(true);
   const [chunks, setChunks] = useState<Chunk[]>([]);
+  const [chunkVerseIndex, setChunkVerseIndex] = useState<number[]>([]); // chunk index -> verses index
   const [currentIndex, setCurrentIndex] = useState(0);
   const [completedChunks, setCompletedChunks] = useState<Set<number>>(new Set());
   const [chunkResults, setChunkResults] = useState<Map<number, ChunkResult>>(new Map());
+  const [chunkHints, setChunkHints] = useState<Map<number, number>>(new Map()); // chunk index -> hints taken
+  const [verseScores, setVerseScores] = useState<VerseScore[]>([]);
   const [showResults, setShowResults] = useState(false);
-  const [totalRecordingDurationMs, setTotalRecordingDurationMs] = useState(0);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE);
 
   const flatListRef = useRef<FlatList>(null);
 
-  // Load verse on mount
+  // Stable dependency for the id list
+  const verseIdsKey = verseIds.join(',');
+
+  // Load verses on mount
   useEffect(() => {
-    async function loadVerse() {
-      const verses = await getSavedVerses();
-      const found = verses.find((v) => v.id === verseId);
-      if (found) {
-        // Ensure we have the verse text (may need to fetch from cache/API)
-        let verseWithText = found;
-        if (!found.text) {
-          const text = await getVerseText(found);
-          verseWithText = { ...found, text };
-        }
-        setVerse(verseWithText);
-        const parsedChunks = parseVerseIntoChunks(verseWithText, difficulty, chunkSize, Math.floor(Math.random() * 2));
-        setChunks(parsedChunks);
+    async function loadVerses() {
+      const { verses: saved, masteredVerses } = useAppStore.getState();
+      const settings = await getSettings();
+      const sessionSeed = Math.floor(Math.random() * 2);
+      const loaded: SavedVerse[] = [];
+      const allChunks: Chunk[] = [];
+      const owners: number[] = [];
+
+      for (const id of verseIdsKey.split(',')) {
+        const found = saved.find((v) => v.id === id) || masteredVerses.find((v) => v.id === id);
+        if (!found || loaded.some((v) => v.id === id)) continue;
+
+        // Text of each verse (may need to fetch from cache/API)
+        const verseTexts = await getVerseText(found);
+
+        const parsedChunks = parseVerseIntoChunks(
+          found,
+          verseTexts,
+          difficulty,
+          chunkSize,
+          sessionSeed,
+          chunkStrategy
+        );
+        const verseChunks = chain ? buildChainSteps(parsedChunks) : parsedChunks;
+        allChunks.push(...verseChunks);
+        owners.push(...verseChunks.map(() => loaded.length));
+        loaded.push({ ...found, text: joinVerseTexts(verseTexts) });
       }
+
+      setScoringProfile(getScoringProfile(settings.scoringProfile));
+      setVerses(loaded);
+      setChunks(allChunks);
+      setChunkVerseIndex(owners);
       setLoading(false);
     }
-    loadVerse();
-  }, [verseId, difficulty, chunkSize]);
+    loadVerses();
+  }, [verseIdsKey, difficulty, chunkSize, chunkStrategy, chain]);
 
   // Computed values
   const allChunksCompleted = completedChunks.size === chunks.length && chunks.length > 0;
+  const verse = verses[chunkVerseIndex[currentIndex] ?? 0] ?? null;
+
+  // Chain steps unlock one at a time
+  const firstIncomplete = chunks.findIndex((_, i) => !completedChunks.has(i));
+  const reachableChunks = chain && firstIncomplete >= 0 ? chunks.slice(0, firstIncomplete + 1) : chunks;
 
   const listData: (Chunk | ResultsPageItem)[] = allChunksCompleted
     ? [...chunks, createResultsPageItem()]
-    : chunks;
+    : reachableChunks;
+
+  // Chunks that make up a verse's score: every chunk, or in chain mode the
+  // last step (the whole passage) - earlier steps only have to pass
+  const isScoredChunk = useCallback((index: number): boolean => {
+    return !chain || chunkVerseIndex[index + 1] !== chunkVerseIndex[index];
+  }, [chain, chunkVerseIndex]);
 
+  const scoredResults = Array.from(chunkResults.entries())
+    .filter(([i]) => completedChunks.has(i) && isScoredChunk(i));
   const finalScore = calculateFinalScore(
-    new Map(Array.from(chunkResults.entries()).map(([k, v]) => [k, v.alignment]))
+    new Map(scoredResults.map(([k, v]) => [k, v.alignment])),
+    scoringProfile,
+    new Map(scoredResults.map(([k, v]) => [k, v.hints]))
   );
+  const hasPendingGrades = Array.from(chunkResults.values()).some((r) => r.pending);
 
   // Get result for a specific chunk
   const getChunkResult = useCallback((index: number): ChunkResult | undefined => {
     return chunkResults.get(index);
   }, [chunkResults]);
 
-  // Process a recording and update state
-  const processRecording = useCallback(async (uri: string, durationSeconds: number) => {
-    const currentChunk = chunks[currentIndex];
-    const actualText = currentChunk.text;
+  const getChunkVerse = useCallback((index: number): SavedVerse | undefined => {
+    return verses[chunkVerseIndex[index]];
+  }, [verses, chunkVerseIndex]);
 
-    // Track recording duration
-    const durationMs = Math.round(durationSeconds * 1000);
-    setTotalRecordingDurationMs((prev) => prev + durationMs);
+  const getChunkHints = useCallback((index: number): number => {
+    return chunkHints.get(index) ?? 0;
+  }, [chunkHints]);
 
-    // Process recording: transcribe + clean in one call (or two for longer recordings)
-    const { cleanedTranscription } = await processRecordingApi(uri, durationSeconds, actualText);
+  const takeHint = useCallback(() => {
+    const chunk = chunks[currentIndex];
+    if (!chunk || completedChunks.has(currentIndex)) return;
 
-    // Align locally (no API call needed)
-    const alignment = alignTranscription(actualText, cleanedTranscription);
+    const taken = chunkHints.get(currentIndex) ?? 0;
+    if (taken >= getMaxHints(chunk)) return;
 
-    // Calculate score
-    const score = calculateChunkScore(alignment);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setChunkHints((prev) => new Map(prev).set(currentIndex, taken + 1));
+  }, [chunks, currentIndex, completedChunks, chunkHints]);
 
+  // Store a graded (or pending) chunk result; save the verse once all its chunks are done
+  const completeChunk = useCallback(async (result: ChunkResult) => {
     // Store result
-    setChunkResults((prev) => new Map(prev).set(currentIndex, {
-      score,
-      transcription: cleanedTranscription,
-      alignment,
-    }));
+    const updatedResults = new Map(chunkResults).set(currentIndex, result);
+    setChunkResults(updatedResults);
+
+    // A chain step below the threshold stays open until it's retried and passed
+    // (offline steps can't be graded yet, so they go through)
+    if (chain && !result.pending && result.score < scoringProfile.masteryThreshold) {
+      return false;
+    }
 
     // Mark as completed
     const newCompleted = new Set([...completedChunks, currentIndex]);
     setCompletedChunks(newCompleted);
 
+    // Once every chunk of this verse is done, save it as one attempt
+    const verseIndex = chunkVerseIndex[currentIndex];
+    const allVerseChunks = chunkVerseIndex
+      .map((owner, i) => (owner === verseIndex ? i : -1))
+      .filter((i) => i >= 0);
+    const verseChunks = allVerseChunks.filter(isScoredChunk);
+
+    const verseDone = verse && allVerseChunks.every((i) => newCompleted.has(i));
+
+    if (verseDone && verseChunks.some((i) => updatedResults.get(i)!.pending)) {
+      // Grade the whole verse later, with this session's timestamp
+      setVerseScores((prev) => [...prev, { verse, score: null }]);
+      await queuePendingAttempt({
+        verseId: verse.id,
+        difficulty,
+        chunkSize,
+        scoringProfile: scoringProfile.id,
+        attemptedAt: Date.now(),
+        chunks: verseChunks.map((i) => {
+          const chunkResult = updatedResults.get(i)!;
+          return {
+            chunkId: chunks[i].id,
+            text: chunks[i].text,
+            durationMs: chunkResult.durationMs,
+            hints: chunkResult.hints,
+            audioUri: chunkResult.audioUri,
+            alignment: chunkResult.pending ? undefined : chunkResult.alignment,
+          };
+        }),
+      });
+    } else if (verseDone) {
+      const verseScore = calculateFinalScore(
+        new Map(verseChunks.map((i) => [i, updatedResults.get(i)!.alignment])),
+        scoringProfile,
+        new Map(verseChunks.map((i) => [i, updatedResults.get(i)!.hints]))
+      );
+      const verseHints = verseChunks.reduce((sum, i) => sum + updatedResults.get(i)!.hints, 0);
+      const verseDurationMs = inputMode === 'spoken'
+        ? verseChunks.reduce((sum, i) => sum + updatedResults.get(i)!.durationMs, 0)
+        : undefined;
+      const verseFluency = inputMode === 'spoken'
+        ? calculateFluency(verseChunks.map((i) => updatedResults.get(i)!))
+        : null;
+
+      setVerseScores((prev) => [...prev, { verse, score: verseScore }]);
+      await saveVerseResult(
+        verse,
+        difficulty,
+        chunkSize,
+        verseScore,
+        verseDurationMs,
+        scoringProfile,
+        inputMode,
+        verseFluency,
+        verseHints
+      );
+    }
+
     // Check if all done
     const allDone = newCompleted.size === chunks.length;
-
     if (allDone) {
-      // Calculate final score from ALL alignments
-      const allAlignments = new Map(
-        Array.from(chunkResults.entries()).map(([k, v]) => [k, v.alignment])
-      );
-      allAlignments.set(currentIndex, alignment);
-      const finalScoreValue = calculateFinalScore(allAlignments);
-
-      // Update progress in Zustand store (writes to Supabase + updates local state)
-      if (verseId && difficulty && verse) {
-        try {
-          await useAppStore.getState().updateVerseProgress(verseId, difficulty as StorageDifficulty, finalScoreValue);
-        } catch (e) {
-          console.error('[STUDY] Failed to update progress:', e);
-        }
-
-        // Log session attempt for analytics (fire-and-forget, don't block UI)
-        const sessionDurationMs = totalRecordingDurationMs + durationMs;
-        logSessionAttempt({
-          book: verse.book,
-          chapter: verse.chapter,
-          verseStart: verse.verseStart,
-          verseEnd: verse.verseEnd,
-          version: verse.version,
-          difficulty,
-          chunkSize,
-          accuracy: finalScoreValue,
-          recordingDurationMs: sessionDurationMs,
-        }).catch(e => console.error('[STUDY] Failed to log attempt:', e));
+      setShowResults(true);
+    }
+
+    return allDone;
+  }, [chunks, chunkVerseIndex, currentIndex, completedChunks, chunkResults, difficulty, verse, chunkSize, scoringProfile, inputMode, chain, isScoredChunk]);
+
+  const passedStep = useCallback((result: ChunkResult): boolean => {
+    return !chain || !!result.pending || result.score >= scoringProfile.masteryThreshold;
+  }, [chain, scoringProfile]);
+
+  const retryChunk = useCallback(() => {
+    if (completedChunks.has(currentIndex)) return;
+    setChunkResults((prev) => {
+      const next = new Map(prev);
+      next.delete(currentIndex);
+      return next;
+    });
+  }, [currentIndex, completedChunks]);
+
+  // Process a recording and update state
+  const processRecording = useCallback(async (
+    uri: string,
+    durationSeconds: number,
+    liveTranscription: LiveTranscriptionResult | null = null
+  ) => {
+    const currentChunk = chunks[currentIndex];
+    const actualText = currentChunk.text;
+    const hints = chunkHints.get(currentIndex) ?? 0;
+
+    const durationMs = Math.round(durationSeconds * 1000);
+
+    let result: ChunkResult;
+    try {
+      // Use the live transcript if the stream finished; otherwise upload + transcribe
+      let cleanedTranscription: string;
+      let words: TranscriptionWord[] | undefined;
+      if (liveTranscription) {
+        ({ transcription: cleanedTranscription, words } = liveTranscription);
+      } else {
+        const processed = await processRecordingApi(uri, durationSeconds, actualText, getVersionLanguage(verse?.version));
+        cleanedTranscription = processed.cleanedTranscription;
+        words = processed.cleaningUsed ? undefined : processed.words; // Timings are for the raw text
       }
 
-      setShowResults(true);
+      // Align locally (no API call needed)
+      const alignment = alignTranscription(actualText, cleanedTranscription, scoringProfile, words);
+
+      result = {
+        score: calculateChunkScore(alignment, scoringProfile, hints),
+        transcription: cleanedTranscription,
+        alignment,
+        durationMs,
+        fluency: calculateFluency([{ alignment, durationMs }]),
+        hints,
+      };
+    } catch (e) {
+      if (!(await isOfflineError(e))) throw e;
+
+      // Offline: keep the audio and grade it once we're back online
+      result = {
+        score: 0,
+        transcription: '',
+        alignment: [],
+        durationMs,
+        fluency: null,
+        hints,
+        pending: true,
+        audioUri: persistRecording(uri, currentChunk.id),
+      };
     }
 
-    return { score, alignment, allDone };
-  }, [chunks, currentIndex, completedChunks, chunkResults, verseId, difficulty, verse, chunkSize, totalRecordingDurationMs]);
+    const allDone = await completeChunk(result);
+    return {
+      score: result.score,
+      alignment: result.alignment,
+      allDone,
+      pending: !!result.pending,
+      passed: passedStep(result),
+    };
+  }, [chunks, currentIndex, chunkHints, scoringProfile, completeChunk, passedStep, verse]);
+
+  // Grade a typed answer the same way as a transcription
+  const submitTypedText = useCallback(async (text: string) => {
+    const actualText = chunks[currentIndex].text;
+    const hints = chunkHints.get(currentIndex) ?? 0;
+    const alignment = alignTranscription(actualText, text, scoringProfile);
+
+    const result: ChunkResult = {
+      score: calculateChunkScore(alignment, scoringProfile, hints),
+      transcription: text,
+      alignment,
+      durationMs: 0,
+      fluency: null,
+      hints,
+    };
+
+    const allDone = await completeChunk(result);
+    return { score: result.score, alignment, allDone, passed: passedStep(result) };
+  }, [chunks, currentIndex, chunkHints, scoringProfile, completeChunk, passedStep]);
 
   // Navigation actions
   const goToNext = useCallback(() => {
@@ -224,21 +477,31 @@ export function useStudySession({
 
   return {
     verse,
+    verses,
     chunks,
     loading,
     currentIndex,
     completedChunks,
     showResults,
+    chain,
     getChunkResult,
+    getChunkVerse,
+    getChunkHints,
     allChunksCompleted,
     listData,
     finalScore,
+    scoringProfile,
+    verseScores,
+    hasPendingGrades,
     setCurrentIndex,
     goToNext,
     goToResults,
     viewResults,
     done,
+    takeHint,
+    retryChunk,
     processRecording,
+    submitTypedText,
     flatListRef,
   };
 }
@@ -0,0 +1,33 @@
+/**
+ * Near-miss (close) matching corpus
+ * Run with: node --require sucrase/register --test lib/align.test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { alignTranscription } from './align';
+
+// [verse word, said word, close?]
+const PAIRS: [string, string, boolean][] = [
+  // Homophones
+  ['their', 'there', true],
+  ['knew', 'new', true],
+
+  // Inflections
+  ['loves', 'loved', true],
+  ['word', 'words', true],
+
+  // Different words that differ by a vowel or a letter
+  ['Son', 'sin', false],
+  ['God', 'good', false],
+  ['light', 'lot', false],
+  ['love', 'live', false],
+  ['Lord', 'word', false],
+];
+
+test('marks only near-misses as close', () => {
+  for (const [expected, said, close] of PAIRS) {
+    const [, word] = alignTranscription(`the ${expected} is`, `the ${said} is`);
+    assert.equal(word.status, close ? 'close' : 'substituted', `${expected} → ${said}`);
+  }
+});
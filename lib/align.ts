@@ -1,35 +1,73 @@
 import { diffWords } from 'diff';
-import type { AlignmentWord } from './study-chunks';
+import type { AlignmentWord, LiveWordStatus, TranscriptionWord } from './study-chunks';
+import {
+  normalizeText,
+  normalizeWord as normalize,
+  type NormalizedToken,
+  type NormalizeOptions,
+} from './normalize';
 
-interface Token {
-  raw: string;
-  normalized: string;
+/**
+ * Tokenize a string into canonical tokens (see ./normalize.ts).
+ * - raw: original word with punctuation and casing ('' for the 2nd+ part of a contraction)
+ * - normalized: canonical form (numbers, spellings, contractions unified)
+ */
+function tokenize(text: string, options: NormalizeOptions): NormalizedToken[] {
+  return normalizeText(text, options);
+}
+
+type WordTiming = Pick<AlignmentWord, 'startMs' | 'endMs' | 'confidence'>;
+
+/**
+ * Timing of a transcribed word, in alignment form
+ */
+function toTiming(word: TranscriptionWord | undefined): WordTiming {
+  return word ? { startMs: word.startMs, endMs: word.endMs, confidence: word.confidence } : {};
+}
+
+/**
+ * Timing carried over from an entry built out of a said word
+ */
+function timingOf(item: AlignmentWord): WordTiming {
+  return item.startMs === undefined ? {} : { startMs: item.startMs, endMs: item.endMs, confidence: item.confidence };
 }
 
 /**
- * Tokenize a string into an array of tokens with raw and normalized forms.
- * - raw: original word with punctuation and casing
- * - normalized: lowercase, leading/trailing punctuation stripped, internal apostrophes/hyphens kept
+ * Timing of two said words counted as one ("loving kindness" for "lovingkindness")
  */
-function tokenize(text: string): Token[] {
-  const words = text.split(/\s+/).filter(w => w.length > 0);
-  return words.map(raw => ({
-    raw,
-    normalized: normalize(raw),
-  }));
+function spanTiming(first: AlignmentWord, second: AlignmentWord): WordTiming {
+  if (first.startMs === undefined || second.endMs === undefined) return timingOf(first);
+  const confidences = [first.confidence, second.confidence].filter((c): c is number => c !== undefined);
+  return {
+    startMs: first.startMs,
+    endMs: second.endMs,
+    confidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+  };
 }
 
 /**
- * Normalize a single word:
- * - lowercase
- * - strip leading/trailing punctuation
- * - keep internal apostrophes and hyphens
+ * Append a token's alignment entry. The extra parts of an expanded contraction
+ * merge into the first part when they share its status ("don't" shows once);
+ * otherwise they show as their canonical word ("do" correct, "not" missing).
+ * Timing is the said word behind the entry (none for missing words).
  */
-function normalize(word: string): string {
-  return word
-    .toLowerCase()
-    .replace(/^[^\w']+/, '')  // strip leading non-word chars (except apostrophe)
-    .replace(/[^\w']+$/, ''); // strip trailing non-word chars (except apostrophe)
+function pushToken(
+  alignment: AlignmentWord[],
+  token: NormalizedToken,
+  status: AlignmentWord['status'],
+  lowercase: boolean = false,
+  timing: WordTiming = {}
+): void {
+  const last = alignment[alignment.length - 1];
+  if (!token.raw && last && last.status === status) {
+    // "don't" said as "do not": the merged entry runs to the end of "not"
+    if (timing.endMs !== undefined && last.endMs !== undefined) last.endMs = Math.max(last.endMs, timing.endMs);
+    return;
+  }
+
+  const raw = token.raw || token.normalized;
+  const word = lowercase ? raw.toLowerCase() : raw;
+  alignment.push(status === 'missing' ? { word, status, expected: word } : { word, status, ...timing });
 }
 
 /**
@@ -38,14 +76,23 @@ function normalize(word: string): string {
  *
  * @param expectedVerse - The original verse text (with punctuation/caps)
  * @param cleanedTranscription - The LLM-cleaned transcription
- * @returns Array of alignment words with status: correct, missing, added
+ * @param options - Normalization options from the scoring profile
+ * @param words - Timings for the transcription's words (attached to said words;
+ *   ignored unless there is one per whitespace-separated word)
+ * @returns Array of alignment words with status: correct, close, transposed, substituted, missing, added
  */
 export function alignTranscription(
   expectedVerse: string,
-  cleanedTranscription: string
+  cleanedTranscription: string,
+  options: NormalizeOptions = {},
+  words?: TranscriptionWord[]
 ): AlignmentWord[] {
-  const expectedTokens = tokenize(expectedVerse);
-  const transcribedTokens = tokenize(cleanedTranscription);
+  const expectedTokens = tokenize(expectedVerse, options);
+  const transcribedTokens = tokenize(cleanedTranscription, options);
+
+  const saidWordCount = cleanedTranscription.split(/\s+/).filter(w => w.length > 0).length;
+  const saidWords = words?.length === saidWordCount ? words : undefined;
+  const timingAt = (token: NormalizedToken | undefined) => toTiming(token && saidWords?.[token.index]);
 
   // Join normalized tokens for diffing
   const expectedNormalized = expectedTokens.map(t => t.normalized).join(' ');
@@ -67,31 +114,19 @@ export function alignTranscription(
     if (part.removed) {
       // Words in expected but not in transcribed → missing
       for (let i = 0; i < wordCount && expectedIdx < expectedTokens.length; i++) {
-        const token = expectedTokens[expectedIdx++];
-        alignment.push({
-          word: token.raw,
-          status: 'missing',
-          expected: token.raw,
-        });
+        pushToken(alignment, expectedTokens[expectedIdx++], 'missing');
       }
     } else if (part.added) {
       // Words in transcribed but not in expected → added
       for (let i = 0; i < wordCount && transcribedIdx < transcribedTokens.length; i++) {
         const token = transcribedTokens[transcribedIdx++];
-        alignment.push({
-          word: token.raw.toLowerCase(),
-          status: 'added',
-        });
+        pushToken(alignment, token, 'added', true, timingAt(token));
       }
     } else {
       // Equal - words match → correct
       for (let i = 0; i < wordCount; i++) {
         if (expectedIdx < expectedTokens.length) {
-          const token = expectedTokens[expectedIdx++];
-          alignment.push({
-            word: token.raw,
-            status: 'correct',
-          });
+          pushToken(alignment, expectedTokens[expectedIdx++], 'correct', false, timingAt(transcribedTokens[transcribedIdx]));
         }
         // Also advance transcribed index to stay in sync
         if (transcribedIdx < transcribedTokens.length) {
@@ -103,22 +138,382 @@ export function alignTranscription(
 
   // Handle any remaining expected tokens (user stopped early)
   while (expectedIdx < expectedTokens.length) {
-    const token = expectedTokens[expectedIdx++];
-    alignment.push({
-      word: token.raw,
-      status: 'missing',
-      expected: token.raw,
-    });
+    pushToken(alignment, expectedTokens[expectedIdx++], 'missing');
   }
 
   // Handle any remaining transcribed tokens (user said extra at end)
   while (transcribedIdx < transcribedTokens.length) {
     const token = transcribedTokens[transcribedIdx++];
-    alignment.push({
-      word: token.raw.toLowerCase(),
-      status: 'added',
-    });
+    pushToken(alignment, token, 'added', true, timingAt(token));
+  }
+
+  return mapMismatchRuns(mapMismatchRuns(matchTranspositions(alignment), pairCloseWords), pairSubstitutions);
+}
+
+// ============================================================================
+// Live Recitation
+// ============================================================================
+
+/**
+ * Follow a partial transcription through the expected verse while the user is
+ * still speaking. Returns one status per whitespace-separated word of the verse:
+ * - spoken: matched by the transcription so far
+ * - skipped: passed over (a later word was already matched)
+ * - upcoming: not reached yet
+ *
+ * Only tracks position - the final transcription is graded by alignTranscription.
+ */
+export function alignLiveTranscription(
+  expectedVerse: string,
+  partialTranscription: string,
+  options: NormalizeOptions = {}
+): LiveWordStatus[] {
+  const wordCount = expectedVerse.split(/\s+/).filter(w => w.length > 0).length;
+  const statuses: LiveWordStatus[] = new Array(wordCount).fill('upcoming');
+
+  const expectedTokens = tokenize(expectedVerse, options);
+  const transcribedTokens = tokenize(partialTranscription, options);
+  if (transcribedTokens.length === 0) return statuses;
+
+  const diffResult = diffWords(
+    expectedTokens.map(t => t.normalized).join(' '),
+    transcribedTokens.map(t => t.normalized).join(' ')
+  );
+
+  // Which expected tokens the transcription matched
+  const matched: boolean[] = [];
+  for (const part of diffResult) {
+    if (part.added) continue;
+    const count = part.value.split(/\s+/).filter(w => w.length > 0).length;
+    for (let i = 0; i < count; i++) matched.push(!part.removed);
+  }
+
+  const frontier = matched.lastIndexOf(true);
+  if (frontier < 0) return statuses;
+
+  // Tokens → source words (a number phrase covers several words, a contraction shares one)
+  let lastWord = 0;
+  expectedTokens.slice(0, frontier + 1).forEach((token, i) => {
+    const span = token.raw ? token.raw.split(' ').length : 1;
+    for (let w = token.index; w < token.index + span; w++) {
+      if (statuses[w] !== 'spoken') statuses[w] = matched[i] ? 'spoken' : 'skipped';
+    }
+    lastWord = token.index + span;
+  });
+
+  // Punctuation-only words ("—") have no token; they're passed once the next word is
+  for (let w = 0; w < lastWord; w++) {
+    if (statuses[w] === 'upcoming') statuses[w] = 'spoken';
+  }
+
+  return statuses;
+}
+
+// ============================================================================
+// Mistake Classification
+// ============================================================================
+
+/**
+ * How far apart (in alignment entries) a missing word and the same word said
+ * elsewhere can be to count as said out of order
+ */
+const MAX_TRANSPOSE_DISTANCE = 3;
+
+const isMismatch = (item: AlignmentWord) => item.status === 'missing' || item.status === 'added';
+
+/**
+ * A verse word that shows up as missing in one place and added nearby was said
+ * in the wrong order ("God so loved" → "so God loved"). It's marked 'transposed'
+ * at its place in the verse and the extra copy is dropped.
+ */
+function matchTranspositions(alignment: AlignmentWord[]): AlignmentWord[] {
+  const result = [...alignment];
+  const dropped = new Set<number>();
+
+  for (let m = 0; m < result.length; m++) {
+    if (result[m].status !== 'missing') continue;
+    const expected = normalize(result[m].word);
+
+    // Nearest match first, on either side
+    for (let distance = 1; distance <= MAX_TRANSPOSE_DISTANCE; distance++) {
+      const a = [m - distance, m + distance].find(
+        (j) => j >= 0 && j < result.length && !dropped.has(j) &&
+          result[j].status === 'added' && normalize(result[j].word) === expected
+      );
+      if (a === undefined) continue;
+
+      result[m] = { word: result[m].word, status: 'transposed', ...timingOf(result[a]) };
+      dropped.add(a);
+      break;
+    }
+  }
+
+  return result.filter((_, i) => !dropped.has(i));
+}
+
+/**
+ * Apply a pairing function to each run of missing/added words between matched words
+ */
+function mapMismatchRuns(
+  alignment: AlignmentWord[],
+  pair: (missing: AlignmentWord[], added: AlignmentWord[]) => AlignmentWord[]
+): AlignmentWord[] {
+  const result: AlignmentWord[] = [];
+  let i = 0;
+
+  while (i < alignment.length) {
+    if (!isMismatch(alignment[i])) {
+      result.push(alignment[i++]);
+      continue;
+    }
+
+    // Collect the run of mismatches
+    const missing: AlignmentWord[] = [];
+    const added: AlignmentWord[] = [];
+    while (i < alignment.length && isMismatch(alignment[i])) {
+      (alignment[i].status === 'missing' ? missing : added).push(alignment[i]);
+      i++;
+    }
+
+    result.push(...pair(missing, added));
+  }
+
+  return result;
+}
+
+/**
+ * Whatever is left of a run after near-misses are paired: words said in place
+ * of verse words, paired in order and marked 'substituted'
+ * (word = what was said, expected = what the verse says)
+ */
+function pairSubstitutions(missing: AlignmentWord[], added: AlignmentWord[]): AlignmentWord[] {
+  const pairs = Math.min(missing.length, added.length);
+  const out: AlignmentWord[] = [];
+
+  for (let k = 0; k < pairs; k++) {
+    out.push({ word: added[k].word, status: 'substituted', expected: missing[k].word, ...timingOf(added[k]) });
+  }
+
+  return [...out, ...missing.slice(pairs), ...added.slice(pairs)];
+}
+
+/**
+ * Pair near-misses inside a run of missing/added words and mark them 'close':
+ * word = what was said, expected = what the verse says.
+ * Both sides keep their spoken order.
+ *
+ * Handles split/joined compounds ("lovingkindness" vs "loving kindness"),
+ * spelling variants ("Savior"/"saviour") and homophones ("their"/"there").
+ */
+function pairCloseWords(missing: AlignmentWord[], added: AlignmentWord[]): AlignmentWord[] {
+  const out: AlignmentWord[] = [];
+  const usedAdded = new Set<number>();
+  let nextAdded = 0; // pairs never cross, so later words only match later words
+
+  for (let m = 0; m < missing.length; m++) {
+    const expected = normalize(missing[m].word);
+    let matched = false;
+
+    for (let a = nextAdded; a < added.length && !matched; a++) {
+      const actual = normalize(added[a].word);
+
+      // One expected word said as two ("lovingkindness" → "loving kindness")
+      if (a + 1 < added.length && joinCompound(actual, normalize(added[a + 1].word)) === stripCompound(expected)) {
+        out.push({
+          word: `${added[a].word} ${added[a + 1].word}`,
+          status: 'close',
+          expected: missing[m].word,
+          ...spanTiming(added[a], added[a + 1]),
+        });
+        usedAdded.add(a).add(a + 1);
+        nextAdded = a + 2;
+        matched = true;
+        break;
+      }
+
+      // Two expected words said as one ("loving kindness" → "lovingkindness")
+      if (m + 1 < missing.length && joinCompound(expected, normalize(missing[m + 1].word)) === stripCompound(actual)) {
+        out.push({
+          word: added[a].word,
+          status: 'close',
+          expected: `${missing[m].word} ${missing[m + 1].word}`,
+          ...timingOf(added[a]),
+        });
+        usedAdded.add(a);
+        nextAdded = a + 1;
+        m++;
+        matched = true;
+        break;
+      }
+
+      if (isCloseMatch(expected, actual)) {
+        out.push({ word: added[a].word, status: 'close', expected: missing[m].word, ...timingOf(added[a]) });
+        usedAdded.add(a);
+        nextAdded = a + 1;
+        matched = true;
+      }
+    }
+
+    if (!matched) out.push(missing[m]);
+  }
+
+  // Unpaired extra words stay 'added'
+  added.forEach((word, a) => {
+    if (!usedAdded.has(a)) out.push(word);
+  });
+
+  return out;
+}
+
+function stripCompound(word: string): string {
+  return word.replace(/[-']/g, '');
+}
+
+function joinCompound(first: string, second: string): string {
+  return stripCompound(first) + stripCompound(second);
+}
+
+/**
+ * Two different words count as close if they sound the same, or differ by a
+ * small edit relative to their length (spelling variants, inflections, STT slips).
+ * An edit that changes the first letter or a vowel sound changes the word
+ * ("lord"/"word", "love"/"live"), so it doesn't count.
+ */
+function isCloseMatch(expected: string, actual: string): boolean {
+  if (!expected || !actual) return false;
+
+  const expectedKey = phoneticKey(expected);
+  const actualKey = phoneticKey(actual);
+  if (expectedKey === actualKey) return true;
+
+  // Short words differ too easily ("a"/"i", "in"/"on") - phonetic match only
+  const maxLen = Math.max(expected.length, actual.length);
+  if (maxLen < 4) return false;
+
+  if (expected[0] !== actual[0] || vowelSounds(expectedKey) !== vowelSounds(actualKey)) return false;
+  return editDistance(expected, actual) / maxLen <= 0.25;
+}
+
+/**
+ * The vowel sounds of a phonetic key, in order
+ */
+function vowelSounds(key: string): string {
+  return key.replace(/[^a-z]/g, '');
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * How common vowel spellings sound, where it isn't their first letter
+ */
+const VOWEL_SOUNDS: Record<string, string> = {
+  oo: 'u', // "good"
+  ou: 'o', // "honour"
+  ei: 'e', // "their"
+  ea: 'i', // "sea"
+  ee: 'i', // "see"
+  ie: 'i', // "believe"
+};
+
+/**
+ * Simplified Metaphone key: words that sound alike share a key
+ * ("their"/"there" → "0eR", "savior"/"saviour" → "SaFiR", "knew"/"new" → "Ne").
+ * Consonants are uppercase; vowel sounds stay in lowercase, so words that only
+ * differ by a vowel don't share a key ("sin"/"son", "God"/"good").
+ */
+function phoneticKey(word: string): string {
+  let w = word.toLowerCase().replace(/ñ/g, 'n').replace(/[^a-z]/g, '');
+  if (!w) return '';
+
+  // Silent leading letters
+  w = w.replace(/^(kn|gn|pn|wr)/, (m) => m[1]).replace(/^x/, 's').replace(/^wh/, 'w');
+
+  const isVowel = (c: string | undefined) => !!c && 'aeiou'.includes(c);
+  let key = '';
+
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const next = w[i + 1];
+
+    if (isVowel(c)) {
+      let run = c;
+      while (isVowel(w[i + 1])) run += w[++i];
+
+      // Silent final e ("love", "there")
+      if (run === 'e' && i === w.length - 1 && i > 0) continue;
+      key += VOWEL_SOUNDS[run] ?? run[0];
+      continue;
+    }
+
+    switch (c) {
+      case 'b':
+        if (!(i === w.length - 1 && w[i - 1] === 'm')) key += 'B'; // "lamb"
+        break;
+      case 'c':
+        if (next === 'h') { key += 'X'; i++; }
+        else if (next === 'k') { key += 'K'; i++; }
+        else key += next && 'eiy'.includes(next) ? 'S' : 'K';
+        break;
+      case 'd':
+        if (next === 'g' && w[i + 2] && 'eiy'.includes(w[i + 2])) { key += 'J'; i++; }
+        else key += 'T';
+        break;
+      case 'g':
+        if (next === 'h') { i++; if (!isVowel(w[i + 1])) break; key += 'K'; } // "light", "night"
+        else key += next && 'eiy'.includes(next) ? 'J' : 'K';
+        break;
+      case 'h':
+        if (isVowel(next) && !'csptg'.includes(w[i - 1] ?? '')) key += 'H';
+        break;
+      case 'p':
+        if (next === 'h') { key += 'F'; i++; }
+        else key += 'P';
+        break;
+      case 'q':
+        key += 'K';
+        break;
+      case 's':
+        if (next === 'h') { key += 'X'; i++; }
+        else key += 'S';
+        break;
+      case 't':
+        if (next === 'h') { key += '0'; i++; }
+        else key += 'T';
+        break;
+      case 'v':
+        key += 'F';
+        break;
+      case 'w':
+      case 'y':
+        if (isVowel(next)) key += c.toUpperCase();
+        break;
+      case 'x':
+        key += 'KS';
+        break;
+      case 'z':
+        key += 'S';
+        break;
+      default:
+        key += c.toUpperCase();
+    }
   }
 
-  return alignment;
+  // Collapse doubled sounds ("ll", "ss")
+  return key.replace(/(.)\1+/g, '$1');
 }
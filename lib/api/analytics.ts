@@ -6,21 +6,33 @@
 
 import { supabase } from './client';
 import type { Difficulty } from '@/lib/storage';
+import type { ScoringProfileId } from '@/lib/scoring';
+import type { InputMode } from '@/lib/study-chunks';
+import type { FluencyMetrics } from '@/lib/fluency';
+import { segmentsColumn, type PassageLocation, type PassageSegment } from '@/lib/bible/passage';
 
 export interface SessionAttemptData {
   book: string;
   chapter: number;
   verseStart: number;
   verseEnd: number;
+  segments?: PassageSegment[]; // Passages of more than one segment
   version: string;
   difficulty: Difficulty;
   chunkSize: number;
   accuracy: number;
-  recordingDurationMs?: number;
+  scoringProfile: ScoringProfileId;
+  inputMode: InputMode;
+  recordingDurationMs?: number; // Spoken attempts only
+  fluency?: FluencyMetrics | null; // Spoken attempts only
+  hintCount: number;
+  clientId?: string; // Makes replays idempotent
+  createdAt?: number; // When the attempt happened (defaults to now)
 }
 
 /**
- * Log a completed session attempt
+ * Log a completed session attempt.
+ * Throws if the write fails so queued attempts can be retried.
  */
 export async function logSessionAttempt(data: SessionAttemptData): Promise<void> {
   const { data: { user } } = await supabase.auth.getUser();
@@ -29,24 +41,99 @@ export async function logSessionAttempt(data: SessionAttemptData): Promise<void>
     return;
   }
 
-  const { error } = await supabase.from('session_attempts').insert({
+  const row = {
     user_id: user.id,
+    client_id: data.clientId,
     book: data.book,
     chapter: data.chapter,
     verse_start: data.verseStart,
     verse_end: data.verseEnd,
+    segments: segmentsColumn(data),
     version: data.version,
     difficulty: data.difficulty,
     chunk_size: data.chunkSize,
     accuracy: data.accuracy,
+    scoring_profile: data.scoringProfile,
+    input_mode: data.inputMode,
     recording_duration_ms: data.recordingDurationMs,
-  });
+    words_per_minute: data.fluency?.wordsPerMinute,
+    longest_pause_ms: data.fluency?.longestPauseMs,
+    hesitation_count: data.fluency?.hesitationCount,
+    hint_count: data.hintCount,
+    created_at: data.createdAt ? new Date(data.createdAt).toISOString() : undefined,
+  };
+
+  const { error } = data.clientId
+    ? await supabase
+        .from('session_attempts')
+        .upsert(row, { onConflict: 'user_id,client_id', ignoreDuplicates: true })
+    : await supabase.from('session_attempts').insert(row);
 
   if (error) {
     console.error('[ANALYTICS] Failed to log session attempt:', error);
+    throw new Error('Failed to log session attempt');
   }
 }
 
+export interface SessionAttemptRecord {
+  book: string;
+  chapter: number;
+  verseStart: number;
+  verseEnd: number;
+  segments?: PassageSegment[]; // Passages of more than one segment
+  version: string;
+  difficulty: Difficulty;
+  accuracy: number;
+  createdAt: number;
+}
+
+/**
+ * Get logged attempts (oldest first), optionally for a single verse
+ */
+export async function getSessionAttempts(
+  verse?: PassageLocation & { version: string }
+): Promise<SessionAttemptRecord[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let query = supabase
+    .from('session_attempts')
+    .select('book, chapter, verse_start, verse_end, segments, version, difficulty, accuracy, created_at')
+    .eq('user_id', user.id);
+
+  if (verse) {
+    query = query
+      .eq('book', verse.book)
+      .eq('chapter', verse.chapter)
+      .eq('verse_start', verse.verseStart)
+      .eq('verse_end', verse.verseEnd)
+      .eq('version', verse.version);
+    const segments = segmentsColumn(verse);
+    query = segments
+      ? query.eq('segments', JSON.stringify(segments))
+      : query.is('segments', null);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+
+  if (error || !data) {
+    console.error('[ANALYTICS] Failed to fetch session attempts:', error);
+    return [];
+  }
+
+  return data.map((row) => ({
+    book: row.book,
+    chapter: row.chapter,
+    verseStart: row.verse_start,
+    verseEnd: row.verse_end,
+    segments: row.segments ?? undefined,
+    version: row.version,
+    difficulty: row.difficulty as Difficulty,
+    accuracy: Number(row.accuracy),
+    createdAt: new Date(row.created_at).getTime(),
+  }));
+}
+
 /**
  * Get current practice streak (consecutive days with at least one attempt)
  * Returns 0 if no attempts or streak broken
@@ -3,87 +3,156 @@ import {
   getChapterFromSession,
   setChapterInSession,
   getVerseRangeFromSession,
-  setVerseInSession,
+  setVersesInSession,
   getSavedVerseFromSession,
   setSavedVerseInSession,
   clearSessionCache,
   getSessionCacheStats,
 } from "../cache/session-cache";
+import {
+  getOfflineChapter,
+  getOfflineVerseRange,
+  setOfflineVerses,
+} from "../cache/offline-cache";
+import { isPublicDomainVersion, type BibleVersion } from "../settings";
+import {
+  compareVerseKeys,
+  formatPassage,
+  getPassageVerses,
+  parsePassage,
+  passageVerseKey,
+  spansChapters,
+  type Passage,
+} from "../bible/passage";
 import type { SavedVerse } from "../storage";
 
 // Re-export for dev tools
 export { clearSessionCache, getSessionCacheStats };
 
-export type BibleVersion = "ESV" | "NLT";
+export type { BibleVersion };
+
+/**
+ * Text of each verse in a passage, keyed by verse number: { "16": "text...", "17": "text..." }
+ * Passages that span chapters are keyed by chapter and verse: { "52:15": "...", "53:1": "..." }
+ */
+export type VerseTexts = Record<string, string>;
 
 export interface BibleVerse {
   reference: string;
   version: BibleVersion;
-  text: string;
+  text: string; // All verses, joined
+  verses: VerseTexts;
   cached: boolean;
 }
 
 export interface ChapterResponse {
   reference: string;
   version: BibleVersion;
-  verses: Record<string, string>; // { "1": "text...", "2": "text..." }
+  verses: VerseTexts;
   cached: boolean;
 }
 
 /**
- * Parse a reference string into components
- * "John 3:16" → { book: "John", chapter: 3, verse: 16 }
- * "John 3:16-18" → { book: "John", chapter: 3, verse: 16, verseEnd: 18 }
+ * Join a passage's verses in verse order
  */
-function parseReference(ref: string): {
-  book: string;
-  chapter: number;
-  verse?: number;
-  verseEnd?: number;
-} | null {
-  const match = ref.match(/^(.+?)\s+(\d+)(?::(\d+)(?:-(\d+))?)?$/);
-  if (!match) return null;
-
-  const [, book, chapter, verse, verseEnd] = match;
-  return {
-    book,
-    chapter: parseInt(chapter, 10),
-    verse: verse ? parseInt(verse, 10) : undefined,
-    verseEnd: verseEnd ? parseInt(verseEnd, 10) : undefined,
-  };
+export function joinVerseTexts(verses: VerseTexts): string {
+  return Object.keys(verses)
+    .sort(compareVerseKeys)
+    .map((verseNum) => verses[verseNum])
+    .join(" ");
+}
+
+/**
+ * Look up each segment of a passage, keyed for the passage (null if any segment is missing)
+ */
+function collectSegments(passage: Passage, segmentVerses: (VerseTexts | null)[]): VerseTexts | null {
+  const multiChapter = spansChapters(passage.segments);
+  const verses: VerseTexts = {};
+
+  for (let i = 0; i < passage.segments.length; i++) {
+    const found = segmentVerses[i];
+    if (!found) return null;
+    for (const [verseNum, text] of Object.entries(found)) {
+      verses[passageVerseKey(passage.segments[i].chapter, parseInt(verseNum, 10), multiChapter)] = text;
+    }
+  }
+
+  return verses;
+}
+
+/**
+ * Split a passage's verses back into chapters (verse number → text), for caching
+ */
+function versesByChapter(passage: Passage, verses: VerseTexts): Map<number, VerseTexts> {
+  const multiChapter = spansChapters(passage.segments);
+  const chapters = new Map<number, VerseTexts>();
+
+  for (const segment of passage.segments) {
+    const chapterVerses = chapters.get(segment.chapter) ?? {};
+    for (let v = segment.verseStart; v <= segment.verseEnd; v++) {
+      const text = verses[passageVerseKey(segment.chapter, v, multiChapter)];
+      if (text) chapterVerses[v.toString()] = text;
+    }
+    chapters.set(segment.chapter, chapterVerses);
+  }
+
+  return chapters;
 }
 
 /**
- * Fetch a verse from the Bible API
+ * Fetch a passage from the Bible API
  *
- * @param reference - Verse reference (e.g., "John 3:16", "Psalm 23:1-6")
- * @param version - Bible version ("ESV" or "NLT")
- * @returns The verse text and metadata
+ * @param reference - Passage reference (e.g., "John 3:16", "Psalm 23:1-6", "Isaiah 52:13-53:12", "Romans 8:28, 38-39")
+ * @param version - Bible version code (see GET /bible/versions)
+ * @returns The passage text and metadata
  */
 export async function fetchVerse(
   reference: string,
   version: BibleVersion = "ESV"
 ): Promise<BibleVerse> {
   // Check session cache first
-  const parsed = parseReference(reference);
-  if (parsed?.verse) {
-    const verseEnd = parsed.verseEnd || parsed.verse;
-    const cached = getVerseRangeFromSession(
-      parsed.book,
-      parsed.chapter,
-      parsed.verse,
-      verseEnd,
-      version
+  const passage = parsePassage(reference);
+  if (passage) {
+    const cached = collectSegments(
+      passage,
+      passage.segments.map((s) =>
+        getVerseRangeFromSession(passage.book, s.chapter, s.verseStart, s.verseEnd, version)
+      )
     );
     if (cached) {
       console.log(`[BIBLE] Session cache hit: ${reference} (${version})`);
       return {
         reference,
         version,
-        text: cached,
+        text: joinVerseTexts(cached),
+        verses: cached,
         cached: true,
       };
     }
+
+    // Public-domain text may be stored on the device
+    if (isPublicDomainVersion(version)) {
+      const stored = collectSegments(
+        passage,
+        await Promise.all(
+          passage.segments.map((s) =>
+            getOfflineVerseRange(passage.book, s.chapter, s.verseStart, s.verseEnd, version)
+          )
+        )
+      );
+      if (stored) {
+        for (const [chapter, verses] of versesByChapter(passage, stored)) {
+          setVersesInSession(passage.book, chapter, version, verses);
+        }
+        return {
+          reference,
+          version,
+          text: joinVerseTexts(stored),
+          verses: stored,
+          cached: true,
+        };
+      }
+    }
   }
 
   // Fetch from API
@@ -115,29 +184,15 @@ export async function fetchVerse(
     throw new Error(error.error || "Failed to fetch verse");
   }
 
-  const result = await response.json();
+  const result: BibleVerse = await response.json();
 
-  // Cache in session (if single verse, cache it; if range, cache each)
-  if (parsed?.verse) {
-    if (parsed.verseEnd) {
-      // Range - we'd need individual verses to cache properly
-      // For now, just cache the combined text as the start verse
-      setVerseInSession(
-        parsed.book,
-        parsed.chapter,
-        parsed.verse,
-        version,
-        result.text
-      );
-    } else {
-      // Single verse
-      setVerseInSession(
-        parsed.book,
-        parsed.chapter,
-        parsed.verse,
-        version,
-        result.text
-      );
+  // Cache each verse in session (and on the device, for public-domain versions)
+  if (passage) {
+    for (const [chapter, verses] of versesByChapter(passage, result.verses)) {
+      setVersesInSession(passage.book, chapter, version, verses);
+      if (isPublicDomainVersion(version)) {
+        await setOfflineVerses(passage.book, chapter, version, verses);
+      }
     }
   }
 
@@ -159,7 +214,7 @@ export async function fetchVerses(
  *
  * @param book - Book name (e.g., "John", "Genesis")
  * @param chapter - Chapter number
- * @param version - Bible version ("ESV" or "NLT")
+ * @param version - Bible version code (see GET /bible/versions)
  * @returns Object with verses mapped by verse number
  */
 export async function fetchChapter(
@@ -179,6 +234,20 @@ export async function fetchChapter(
     };
   }
 
+  // Public-domain text may be stored on the device
+  if (isPublicDomainVersion(version)) {
+    const stored = await getOfflineChapter(book, chapter, version);
+    if (stored) {
+      setChapterInSession(book, chapter, version, stored);
+      return {
+        reference: `${book} ${chapter}`,
+        version,
+        verses: stored,
+        cached: true,
+      };
+    }
+  }
+
   // Fetch from API
   const token = await getAuthToken();
   const baseUrl = getSupabaseUrl();
@@ -212,69 +281,52 @@ export async function fetchChapter(
 
   const result = await response.json();
 
-  // Cache in session
+  // Cache in session (and on the device, for public-domain versions)
   if (result.verses) {
     setChapterInSession(book, chapter, version, result.verses);
+    if (isPublicDomainVersion(version)) {
+      await setOfflineVerses(book, chapter, version, result.verses);
+    }
   }
 
   return result;
 }
 
 /**
- * Get text for a saved verse
+ * Get text for a saved verse, verse by verse
  *
  * Checks session cache first, then fetches from API (which checks verse_cache).
  * If the verse was evicted from cache, re-fetches from API.
  *
  * @param verse - The saved verse (may or may not have text)
- * @returns The verse text
+ * @returns The text of each verse in the passage
  */
-export async function getVerseText(verse: SavedVerse): Promise<string> {
-  // If text is already available, return it
-  if (verse.text) {
-    return verse.text;
+export async function getVerseText(verse: SavedVerse): Promise<VerseTexts> {
+  // Stored text can only be used as-is for a single verse (ranges aren't split)
+  const passageVerses = getPassageVerses(verse);
+  if (verse.text && passageVerses.length === 1) {
+    return { [passageVerses[0].key]: verse.text };
   }
 
   // Check session cache for this exact saved verse
-  const sessionCached = getSavedVerseFromSession(
-    verse.book,
-    verse.chapter,
-    verse.verseStart,
-    verse.verseEnd,
-    verse.version
-  );
+  const reference = formatReference(verse);
+  const sessionCached = getSavedVerseFromSession(reference, verse.version);
   if (sessionCached) {
     return sessionCached;
   }
 
-  // Build reference string
-  const reference =
-    verse.verseStart === verse.verseEnd
-      ? `${verse.book} ${verse.chapter}:${verse.verseStart}`
-      : `${verse.book} ${verse.chapter}:${verse.verseStart}-${verse.verseEnd}`;
-
   // Fetch from API (which checks verse_cache internally, then external API)
   const result = await fetchVerse(reference, verse.version);
 
   // Cache in session for next time
-  setSavedVerseInSession(
-    verse.book,
-    verse.chapter,
-    verse.verseStart,
-    verse.verseEnd,
-    verse.version,
-    result.text
-  );
-
-  return result.text;
+  setSavedVerseInSession(reference, verse.version, result.verses);
+
+  return result.verses;
 }
 
 /**
  * Format a verse reference string from SavedVerse
  */
 export function formatReference(verse: SavedVerse): string {
-  if (verse.verseStart === verse.verseEnd) {
-    return `${verse.book} ${verse.chapter}:${verse.verseStart}`;
-  }
-  return `${verse.book} ${verse.chapter}:${verse.verseStart}-${verse.verseEnd}`;
+  return formatPassage(verse);
 }
@@ -6,6 +6,28 @@
  */
 
 export { supabase, ensureAuth, getAuthToken } from "./client";
-export { fetchVerse, fetchVerses, fetchChapter, type BibleVersion, type BibleVerse, type ChapterResponse } from "./bible";
+export {
+  fetchVerse,
+  fetchVerses,
+  fetchChapter,
+  joinVerseTexts,
+  type BibleVersion,
+  type BibleVerse,
+  type ChapterResponse,
+  type VerseTexts,
+} from "./bible";
+export { fetchVersionCatalog, type VersionCatalogEntry } from "./versions";
 export { processRecording, type ProcessRecordingResult } from "./recording";
-export { logSessionAttempt, getCurrentStreak, getTotalPracticeDays, type SessionAttemptData } from "./analytics";
+export {
+  startLiveTranscription,
+  type LiveTranscription,
+  type LiveTranscriptionResult,
+} from "./live-transcription";
+export {
+  logSessionAttempt,
+  getSessionAttempts,
+  getCurrentStreak,
+  getTotalPracticeDays,
+  type SessionAttemptData,
+  type SessionAttemptRecord,
+} from "./analytics";
@@ -0,0 +1,137 @@
+import { getAuthToken, getSupabaseUrl } from "./client";
+import type { LiveAudioFormat } from "../live-audio";
+import type { TranscriptionWord } from "../study-chunks";
+
+/**
+ * Live transcription session over a WebSocket to the transcribe-stream function.
+ *
+ * Protocol (JSON text frames, audio as binary frames):
+ * - client → server: { type: "start", actualVerse, language, ...format }, audio..., { type: "finish" }
+ * - server → client: { type: "partial", text }..., { type: "final", transcription, words } | { type: "error", error }
+ */
+export interface LiveTranscription {
+  sendAudio: (bytes: Uint8Array) => void;
+  finish: () => Promise<LiveTranscriptionResult | null>; // null if the stream failed
+  cancel: () => void;
+}
+
+export interface LiveTranscriptionResult {
+  transcription: string;
+  words: TranscriptionWord[];
+}
+
+interface StartLiveTranscriptionOptions {
+  actualVerse: string; // Context for the recognizer
+  language?: string; // Language of the verse text (default "en")
+  format: LiveAudioFormat;
+  onPartial: (text: string) => void; // Everything heard so far
+}
+
+type ServerMessage =
+  | { type: "partial"; text: string }
+  | { type: "final"; transcription: string; words?: TranscriptionWord[] }
+  | { type: "error"; error: string };
+
+// How long to wait for the final transcript after the last audio is sent
+const FINISH_TIMEOUT_MS = 5000;
+
+// React Native's WebSocket takes headers as a third argument (missing from the DOM typings)
+const NativeWebSocket = WebSocket as unknown as new (
+  url: string,
+  protocols: string | string[] | null,
+  options: { headers: Record<string, string> }
+) => WebSocket;
+
+/**
+ * Open a live transcription stream. Audio sent before the socket opens is queued.
+ * Failures never throw - finish() resolves null and the caller falls back to
+ * uploading the recording.
+ */
+export function startLiveTranscription({
+  actualVerse,
+  language = "en",
+  format,
+  onPartial,
+}: StartLiveTranscriptionOptions): LiveTranscription {
+  let socket: WebSocket | null = null;
+  let open = false;
+  let finishing = false;
+  let settled = false;
+  const queue: Uint8Array[] = [];
+
+  let resolveFinal: (result: LiveTranscriptionResult | null) => void = () => {};
+  const finalResult = new Promise<LiveTranscriptionResult | null>((resolve) => {
+    resolveFinal = resolve;
+  });
+
+  const settle = (result: LiveTranscriptionResult | null) => {
+    if (settled) return;
+    settled = true;
+    resolveFinal(result);
+    socket?.close();
+  };
+
+  const fail = (reason: unknown) => {
+    if (settled) return;
+    console.error("[Live] Stream failed:", reason);
+    settle(null);
+  };
+
+  const connect = async () => {
+    const token = await getAuthToken();
+    if (settled) return;
+
+    const url = `${getSupabaseUrl().replace(/^http/, "ws")}/functions/v1/transcribe-stream`;
+    socket = new NativeWebSocket(url, null, { headers: { Authorization: `Bearer ${token}` } });
+
+    socket.onopen = () => {
+      open = true;
+      socket!.send(JSON.stringify({ type: "start", actualVerse, language, ...format }));
+      queue.splice(0).forEach((bytes) => socket!.send(bytes));
+      if (finishing) socket!.send(JSON.stringify({ type: "finish" }));
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as ServerMessage;
+      switch (message.type) {
+        case "partial":
+          if (!settled) onPartial(message.text);
+          break;
+        case "final":
+          settle({ transcription: message.transcription, words: message.words ?? [] });
+          break;
+        case "error":
+          fail(message.error);
+          break;
+      }
+    };
+
+    socket.onerror = () => fail("socket error");
+    socket.onclose = (event) => fail(`closed (${event.code ?? "no code"})`);
+  };
+
+  connect().catch(fail);
+
+  return {
+    sendAudio: (bytes) => {
+      if (settled || finishing) return;
+      if (open) {
+        socket!.send(bytes);
+      } else {
+        queue.push(bytes);
+      }
+    },
+
+    finish: () => {
+      if (!finishing && !settled) {
+        finishing = true;
+        if (open) socket!.send(JSON.stringify({ type: "finish" }));
+      }
+
+      const timeout = setTimeout(() => fail("timed out waiting for final transcript"), FINISH_TIMEOUT_MS);
+      return finalResult.finally(() => clearTimeout(timeout));
+    },
+
+    cancel: () => settle(null),
+  };
+}
@@ -1,9 +1,11 @@
 import { getAuthToken, getSupabaseUrl } from "./client";
+import type { TranscriptionWord } from "../study-chunks";
 
 export interface ProcessRecordingResult {
   transcription: string;
   cleanedTranscription: string;
   cleaningUsed: boolean;
+  words: TranscriptionWord[]; // Timings for the words of `transcription` (raw, not cleaned)
 }
 
 /**
@@ -14,12 +16,14 @@ export interface ProcessRecordingResult {
  * @param audioUri - Local URI of the audio file
  * @param durationSeconds - Duration of the audio in seconds
  * @param actualVerse - The actual verse text (for GPT cleaning context)
- * @returns Transcription results with raw and cleaned versions
+ * @param language - Language of the verse text, as a hint for transcription (e.g., "es")
+ * @returns Transcription results with raw and cleaned versions, and word timings
  */
 export async function processRecording(
   audioUri: string,
   durationSeconds: number,
-  actualVerse: string
+  actualVerse: string,
+  language: string = "en"
 ): Promise<ProcessRecordingResult> {
   const token = await getAuthToken();
   const baseUrl = getSupabaseUrl();
@@ -39,14 +43,17 @@ export async function processRecording(
 
   // React Native requires this specific format for file uploads
   // Can't just append a Blob - need uri, type, name
+  // (m4a normally; wav/aac when recorded for live transcription)
+  const extension = audioUri.split(".").pop() || "m4a";
   formData.append("audio", {
     uri: audioUri,
-    type: audioBlob.type || "audio/m4a",
-    name: "recording.m4a",
+    type: audioBlob.type || `audio/${extension}`,
+    name: `recording.${extension}`,
   } as unknown as Blob);
 
   formData.append("durationSeconds", durationSeconds.toString());
   formData.append("actualVerse", actualVerse);
+  formData.append("language", language);
 
   const response = await fetch(`${baseUrl}/functions/v1/process-recording`, {
     method: "POST",
@@ -86,6 +93,7 @@ async function handleProcessingResponse(
     transcription: result.transcription,
     cleanedTranscription: result.cleanedTranscription,
     cleaningUsed: result.cleaningUsed,
+    words: result.words ?? [],
   };
 }
 
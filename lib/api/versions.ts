@@ -0,0 +1,37 @@
+import { getAuthToken, getSupabaseUrl } from "./client";
+
+/**
+ * A version served by the bible function (see supabase/functions/bible/versions.ts)
+ */
+export interface VersionCatalogEntry {
+  id: string; // Version code used in requests (e.g., "ESV")
+  name: string;
+  language: string; // BCP 47 tag (e.g., "en", "es", "en-GB")
+  copyright: string;
+  adapter: string;
+  caching: "capped" | "offline"; // "offline" = public domain, may be stored on the device
+}
+
+/**
+ * Fetch every version the bible function can serve
+ */
+export async function fetchVersionCatalog(): Promise<VersionCatalogEntry[]> {
+  const token = await getAuthToken();
+  const baseUrl = getSupabaseUrl();
+
+  const response = await fetch(`${baseUrl}/functions/v1/bible/versions`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to fetch versions");
+  }
+
+  const result: { versions: VersionCatalogEntry[] } = await response.json();
+  return result.versions;
+}
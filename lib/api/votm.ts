@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/lib/api/client';
+import { MASTERY_DIFFICULTY } from '@/lib/difficulty';
 
 export interface VOTM {
   id: string;
@@ -54,7 +55,8 @@ export async function getVOTMMasteryCount(votm: VOTM): Promise<number> {
     .eq('chapter', votm.chapter)
     .eq('verse_start', votm.verseStart)
     .eq('verse_end', votm.verseEnd)
-    .eq('progress->hard->completed', true);
+    .is('segments', null)
+    .eq(`progress->${MASTERY_DIFFICULTY}->completed`, true);
 
   if (error) {
     console.error('[VOTM] Failed to get mastery count:', error);
@@ -75,7 +77,8 @@ export async function hasUserMasteredVOTM(votm: VOTM): Promise<boolean> {
     .eq('chapter', votm.chapter)
     .eq('verse_start', votm.verseStart)
     .eq('verse_end', votm.verseEnd)
-    .eq('progress->hard->completed', true)
+    .is('segments', null)
+    .eq(`progress->${MASTERY_DIFFICULTY}->completed`, true)
     .limit(1)
     .maybeSingle();
 
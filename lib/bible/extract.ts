@@ -0,0 +1,44 @@
+/**
+ * Reference Extraction
+ *
+ * Finds every Bible reference in free text, like sermon notes or a group email:
+ * "This week: Rom 12:1-2; Phil 4:6–7 and Ps 46:10"
+ * → Romans 12:1-2, Philippians 4:6-7, Psalms 46:10
+ *
+ * References are found by the shared grammar (findReferences), so book names
+ * are resolved exactly like normalizeBookName, and verses are checked against
+ * getVerseCount (see parsePassageResult).
+ */
+
+import { findReferences } from '@/supabase/functions/_shared/reference';
+import { formatPassage, parsePassageResult, toPassageLocation, type Passage } from './passage';
+
+export interface ExtractedReference {
+  text: string; // As written ("Phil 4:6–7")
+  reference: string; // Canonical ("Philippians 4:6-7"), or as written if it didn't parse
+  passage: Passage | null; // null if it names verses that don't exist
+  error?: string; // Why it can't be added
+}
+
+/**
+ * Every reference in the text, in order, without repeats
+ */
+export function extractReferences(text: string): ExtractedReference[] {
+  const found: ExtractedReference[] = [];
+  const seen = new Set<string>();
+
+  for (const match of findReferences(text)) {
+    const result = match.result.ok ? parsePassageResult(match.text) : match.result;
+    const reference = result.ok ? formatPassage(toPassageLocation(result.value)) : match.text;
+    if (seen.has(reference)) continue;
+
+    seen.add(reference);
+    found.push(
+      result.ok
+        ? { text: match.text, reference, passage: result.value }
+        : { text: match.text, reference, passage: null, error: result.error.message }
+    );
+  }
+
+  return found;
+}
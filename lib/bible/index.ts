@@ -1,5 +1,10 @@
-import { BOOK_ALIASES, VerseRef } from './types';
+import { VerseRef } from './types';
 import structureData from '@/assets/bible/structure.json';
+import {
+  localizedBookName,
+  parseReference as parseReferenceGrammar,
+  resolveBookName,
+} from '@/supabase/functions/_shared/reference';
 
 interface BookStructure {
   abbr: string;
@@ -9,45 +14,35 @@ interface BookStructure {
 
 const structure = structureData as BookStructure[];
 
-// Build lookup maps for fast access
+// Build lookup map for fast access
 const bookByName: Record<string, BookStructure> = {};
-const bookByAbbr: Record<string, BookStructure> = {};
 for (const book of structure) {
   bookByName[book.book.toLowerCase()] = book;
-  bookByAbbr[book.abbr.toLowerCase()] = book;
 }
 
 /**
- * Normalize book name to canonical form
+ * Normalize book name to canonical form ("jn" → "John", "II Kings" → "2 Kings",
+ * "Juan" → "John"). Names, aliases and Spanish names are in the shared
+ * reference grammar (supabase/functions/_shared/reference.ts).
  */
 export function normalizeBookName(book: string): string {
-  const lower = book.toLowerCase().trim();
-
-  // Check aliases first
-  if (BOOK_ALIASES[lower]) {
-    return BOOK_ALIASES[lower];
-  }
-
-  // Try exact match by book name
-  if (bookByName[lower]) {
-    return bookByName[lower].book;
-  }
-
-  // Try by abbreviation
-  if (bookByAbbr[lower]) {
-    return bookByAbbr[lower].book;
-  }
-
-  // Try partial match
-  const partialMatch = structure.find((b) => b.book.toLowerCase().startsWith(lower));
-  if (partialMatch) {
-    return partialMatch.book;
+  const resolved = resolveBookName(book);
+  if (resolved) {
+    return resolved;
   }
 
   // Return original with title case as fallback
   return book.charAt(0).toUpperCase() + book.slice(1);
 }
 
+/**
+ * Book name as printed in a language's Bibles ("John" → "Juan" in 'es')
+ * Falls back to the canonical English name.
+ */
+export function getBookName(book: string, language: string = 'en'): string {
+  return localizedBookName(book, language);
+}
+
 /**
  * Get book structure by name
  */
@@ -57,25 +52,25 @@ function getBookStructure(book: string): BookStructure | null {
 }
 
 /**
- * Parse a reference string like "John 3:16" or "Psalm 23:1-6"
+ * Parse a single-range reference like "John 3:16" or "Psalm 23:1-6"
+ * Null for anything else (see lib/bible/passage.ts for passages).
  */
 export function parseReference(refString: string): VerseRef | null {
-  // Match patterns like "John 3:16", "1 John 1:9", "Psalm 23:1-6"
-  const match = refString.match(
-    /^(\d?\s?[a-zA-Z\s]+?)\s*(\d+):(\d+)(?:-(\d+))?$/
-  );
-
-  if (!match) {
+  const result = parseReferenceGrammar(refString);
+  if (!result.ok || result.value.items.length !== 1) {
     return null;
   }
 
-  const [, book, chapter, verse, verseEnd] = match;
+  const [item] = result.value.items;
+  if (item.verseStart === null || item.verseEnd === null || item.chapterEnd !== item.chapter) {
+    return null;
+  }
 
   return {
-    book: book.trim(),
-    chapter: parseInt(chapter, 10),
-    verse: parseInt(verse, 10),
-    verseEnd: verseEnd ? parseInt(verseEnd, 10) : undefined,
+    book: result.value.book,
+    chapter: item.chapter,
+    verse: item.verseStart,
+    verseEnd: item.verseEnd !== item.verseStart ? item.verseEnd : undefined,
   };
 }
 
@@ -0,0 +1,228 @@
+/**
+ * Passages
+ *
+ * A passage is one or more segments in a single book. A segment is a verse
+ * range within one chapter, so:
+ * - "John 3:16-18" is one segment
+ * - "Romans 8:28, 38-39" is two segments in chapter 8
+ * - "Isaiah 52:13-53:12" is two segments: 52:13-15 and 53:1-12
+ *
+ * Saved verses keep their first segment in chapter/verseStart/verseEnd and
+ * only carry `segments` when there's more than one.
+ *
+ * Verse text for a passage is keyed by verse number ("16") while it stays in
+ * one chapter, and by chapter and verse ("53:1") when it spans chapters.
+ */
+
+import { getBookName, getVerseCount } from './index';
+import {
+  expandReference,
+  formatReference,
+  parseReference,
+  type ReferenceResult,
+} from '@/supabase/functions/_shared/reference';
+
+export interface PassageSegment {
+  chapter: number;
+  verseStart: number;
+  verseEnd: number;
+}
+
+export interface Passage {
+  book: string;
+  segments: PassageSegment[];
+}
+
+/**
+ * Where a passage is (SavedVerse, VOTM, session attempts)
+ */
+export interface PassageLocation {
+  book: string;
+  chapter: number;
+  verseStart: number;
+  verseEnd: number;
+  segments?: PassageSegment[]; // Only for passages of more than one segment
+}
+
+/**
+ * One verse of a passage, in reading order
+ */
+export interface PassageVerse {
+  chapter: number;
+  verse: number;
+  key: string; // Key in the passage's verse texts
+}
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+/**
+ * Every segment of a passage, in reading order
+ */
+export function getPassageSegments(location: PassageLocation): PassageSegment[] {
+  if (location.segments && location.segments.length > 0) return location.segments;
+  return [{ chapter: location.chapter, verseStart: location.verseStart, verseEnd: location.verseEnd }];
+}
+
+/**
+ * Location fields for saving a passage: the first segment, plus every
+ * segment if there's more than one
+ */
+export function toPassageLocation(passage: Passage): PassageLocation {
+  const [first] = passage.segments;
+  return {
+    book: passage.book,
+    chapter: first.chapter,
+    verseStart: first.verseStart,
+    verseEnd: first.verseEnd,
+    segments: passage.segments.length > 1 ? passage.segments : undefined,
+  };
+}
+
+/**
+ * Value of the `segments` column (null for single-segment passages)
+ */
+export function segmentsColumn(location: PassageLocation): PassageSegment[] | null {
+  const segments = getPassageSegments(location);
+  return segments.length > 1 ? segments : null;
+}
+
+export function spansChapters(segments: PassageSegment[]): boolean {
+  return segments.some((s) => s.chapter !== segments[0].chapter);
+}
+
+/**
+ * Whether two locations are the same passage
+ */
+export function isSamePassage(a: PassageLocation, b: PassageLocation): boolean {
+  if (a.book !== b.book) return false;
+  const segmentsA = getPassageSegments(a);
+  const segmentsB = getPassageSegments(b);
+  return (
+    segmentsA.length === segmentsB.length &&
+    segmentsA.every(
+      (s, i) =>
+        s.chapter === segmentsB[i].chapter &&
+        s.verseStart === segmentsB[i].verseStart &&
+        s.verseEnd === segmentsB[i].verseEnd
+    )
+  );
+}
+
+// ============================================================================
+// Verses
+// ============================================================================
+
+/**
+ * Key of a verse in a passage's verse texts
+ */
+export function passageVerseKey(chapter: number, verse: number, multiChapter: boolean): string {
+  return multiChapter ? `${chapter}:${verse}` : verse.toString();
+}
+
+/**
+ * Order verse keys ("16" before "17", "52:15" before "53:1")
+ */
+export function compareVerseKeys(a: string, b: string): number {
+  const [chapterA, verseA] = a.includes(':') ? a.split(':').map(Number) : [0, Number(a)];
+  const [chapterB, verseB] = b.includes(':') ? b.split(':').map(Number) : [0, Number(b)];
+  return chapterA - chapterB || verseA - verseB;
+}
+
+/**
+ * Every verse of a passage, in reading order
+ */
+export function getPassageVerses(location: PassageLocation): PassageVerse[] {
+  const segments = getPassageSegments(location);
+  const multiChapter = spansChapters(segments);
+
+  const verses: PassageVerse[] = [];
+  for (const segment of segments) {
+    for (let v = segment.verseStart; v <= segment.verseEnd; v++) {
+      verses.push({ chapter: segment.chapter, verse: v, key: passageVerseKey(segment.chapter, v, multiChapter) });
+    }
+  }
+  return verses;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a passage reference: "John 3:16", "Isaiah 52:13–53:12",
+ * "Romans 8:28, 38-39", "Rom. 8:28; 9:1", "II Kings 2:11", "Juan 3:16".
+ * Chapter-only references ("John 3") aren't passages.
+ * The grammar is shared with the bible function (supabase/functions/_shared/reference.ts).
+ */
+export function parsePassageResult(reference: string): ReferenceResult<Passage> {
+  const parsed = parseReference(reference);
+  if (!parsed.ok) return parsed;
+
+  const { book, items } = parsed.value;
+  if (items.some((item) => item.verseStart === null)) {
+    return {
+      ok: false,
+      error: { code: 'invalid_locator', message: `Add a verse to ${formatReference(parsed.value)}`, input: reference },
+    };
+  }
+
+  const segments = expandReference(parsed.value, getVerseCount);
+  return segments.ok ? { ok: true, value: { book, segments: segments.value } } : segments;
+}
+
+/**
+ * parsePassageResult without the reason: null if it can't be parsed
+ */
+export function parsePassage(reference: string): Passage | null {
+  const result = parsePassageResult(reference);
+  return result.ok ? result.value : null;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format a passage for display: "Isaiah 52:13-53:12", "Romans 8:28, 38-39", "Romans 8:28; 9:1".
+ * Segments that run on into the next chapter are shown as one range.
+ * The book is named in `language` ("Juan 3:16" in 'es').
+ */
+export function formatPassage(location: PassageLocation, language: string = 'en'): string {
+  const segments = getPassageSegments(location);
+
+  // Join segments that continue straight into the next chapter
+  const runs: { chapter: number; verseStart: number; chapterEnd: number; verseEnd: number }[] = [];
+  for (const segment of segments) {
+    const last = runs[runs.length - 1];
+    if (
+      last &&
+      segment.chapter === last.chapterEnd + 1 &&
+      segment.verseStart === 1 &&
+      last.verseEnd === getVerseCount(location.book, last.chapterEnd)
+    ) {
+      last.chapterEnd = segment.chapter;
+      last.verseEnd = segment.verseEnd;
+    } else {
+      runs.push({ chapter: segment.chapter, verseStart: segment.verseStart, chapterEnd: segment.chapter, verseEnd: segment.verseEnd });
+    }
+  }
+
+  let result = getBookName(location.book, language);
+  runs.forEach((run, i) => {
+    const previous = runs[i - 1];
+    const sameChapter = previous && previous.chapterEnd === run.chapter;
+
+    let part = sameChapter ? `${run.verseStart}` : `${run.chapter}:${run.verseStart}`;
+    if (run.chapterEnd !== run.chapter) {
+      part += `-${run.chapterEnd}:${run.verseEnd}`;
+    } else if (run.verseEnd !== run.verseStart) {
+      part += `-${run.verseEnd}`;
+    }
+
+    result += !previous ? ` ${part}` : sameChapter ? `, ${part}` : `; ${part}`;
+  });
+
+  return result;
+}
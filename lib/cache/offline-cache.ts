@@ -0,0 +1,90 @@
+/**
+ * Offline Cache
+ *
+ * Persistent cache for public-domain Bible versions (caching: "offline" in the catalog).
+ * Licensed versions may only be kept in memory (see session-cache.ts);
+ * public-domain text can be stored on the device, so every chapter or
+ * verse loaded once keeps working offline.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getVerseCount } from "../bible";
+
+const KEY_PREFIX = "offline_bible";
+
+/**
+ * Generate storage key for chapter: "offline_bible:KJV:John:3"
+ */
+function chapterKey(book: string, chapter: number, version: string): string {
+  return `${KEY_PREFIX}:${version}:${book}:${chapter}`;
+}
+
+async function loadVerses(
+  book: string,
+  chapter: number,
+  version: string
+): Promise<Record<string, string>> {
+  try {
+    const data = await AsyncStorage.getItem(chapterKey(book, chapter, version));
+    return data ? JSON.parse(data) : {};
+  } catch (e) {
+    console.error("[OFFLINE] Failed to load stored verses:", e);
+    return {};
+  }
+}
+
+/**
+ * Get a stored chapter (null unless every verse is stored)
+ */
+export async function getOfflineChapter(
+  book: string,
+  chapter: number,
+  version: string
+): Promise<Record<string, string> | null> {
+  const verses = await loadVerses(book, chapter, version);
+  const expectedCount = getVerseCount(book, chapter);
+  if (expectedCount === 0 || Object.keys(verses).length < expectedCount) return null;
+  return verses;
+}
+
+/**
+ * Get a stored verse range (null if any verse is missing)
+ */
+export async function getOfflineVerseRange(
+  book: string,
+  chapter: number,
+  verseStart: number,
+  verseEnd: number,
+  version: string
+): Promise<Record<string, string> | null> {
+  const stored = await loadVerses(book, chapter, version);
+  const verses: Record<string, string> = {};
+
+  for (let v = verseStart; v <= verseEnd; v++) {
+    const text = stored[v.toString()];
+    if (!text) return null;
+    verses[v.toString()] = text;
+  }
+
+  return verses;
+}
+
+/**
+ * Store verses of a chapter (merged with any already stored)
+ */
+export async function setOfflineVerses(
+  book: string,
+  chapter: number,
+  version: string,
+  verses: Record<string, string>
+): Promise<void> {
+  try {
+    const stored = await loadVerses(book, chapter, version);
+    await AsyncStorage.setItem(
+      chapterKey(book, chapter, version),
+      JSON.stringify({ ...stored, ...verses })
+    );
+  } catch (e) {
+    console.error("[OFFLINE] Failed to store verses:", e);
+  }
+}
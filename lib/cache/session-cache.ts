@@ -11,8 +11,8 @@ const chapterCache = new Map<string, Record<string, string>>();
 // Single verse cache: "John:3:16:NLT" → "text"
 const verseCache = new Map<string, string>();
 
-// Saved verse range cache: "John:3:16-18:ESV" → "combined text"
-const savedVerseCache = new Map<string, string>();
+// Saved passage cache: "John 3:16-18:ESV" → { "16": "text", "17": "text", "18": "text" }
+const savedVerseCache = new Map<string, Record<string, string>>();
 
 /**
  * Generate cache key for chapter
@@ -58,10 +58,7 @@ export function setChapterInSession(
   chapterCache.set(key, verses);
 
   // Also cache individual verses for single-verse lookups
-  for (const [verseNum, text] of Object.entries(verses)) {
-    const vKey = verseKey(book, chapter, parseInt(verseNum, 10), version);
-    verseCache.set(vKey, text);
-  }
+  setVersesInSession(book, chapter, version, verses);
 }
 
 /**
@@ -78,7 +75,7 @@ export function getVerseFromSession(
 }
 
 /**
- * Get cached verse range
+ * Get cached verse range (verse number → text)
  */
 export function getVerseRangeFromSession(
   book: string,
@@ -86,72 +83,59 @@ export function getVerseRangeFromSession(
   verseStart: number,
   verseEnd: number,
   version: string
-): string | null {
-  const texts: string[] = [];
+): Record<string, string> | null {
+  const verses: Record<string, string> = {};
 
   for (let v = verseStart; v <= verseEnd; v++) {
     const text = getVerseFromSession(book, chapter, v, version);
     if (!text) return null; // Missing a verse, can't satisfy from cache
-    texts.push(text);
+    verses[v.toString()] = text;
   }
 
-  return texts.join(" ");
+  return verses;
 }
 
 /**
- * Cache a single verse
+ * Cache individual verses (verse number → text)
  */
-export function setVerseInSession(
+export function setVersesInSession(
   book: string,
   chapter: number,
-  verse: number,
   version: string,
-  text: string
+  verses: Record<string, string>
 ): void {
-  const key = verseKey(book, chapter, verse, version);
-  verseCache.set(key, text);
+  for (const [verseNum, text] of Object.entries(verses)) {
+    const key = verseKey(book, chapter, parseInt(verseNum, 10), version);
+    verseCache.set(key, text);
+  }
 }
 
 /**
- * Generate cache key for saved verse range
+ * Generate cache key for a saved passage
  */
-function savedVerseKey(
-  book: string,
-  chapter: number,
-  verseStart: number,
-  verseEnd: number,
-  version: string
-): string {
-  return `${book}:${chapter}:${verseStart}-${verseEnd}:${version}`;
+function savedVerseKey(reference: string, version: string): string {
+  return `${reference}:${version}`;
 }
 
 /**
- * Get cached saved verse text
+ * Get cached saved passage text
  */
 export function getSavedVerseFromSession(
-  book: string,
-  chapter: number,
-  verseStart: number,
-  verseEnd: number,
+  reference: string,
   version: string
-): string | null {
-  const key = savedVerseKey(book, chapter, verseStart, verseEnd, version);
-  return savedVerseCache.get(key) || null;
+): Record<string, string> | null {
+  return savedVerseCache.get(savedVerseKey(reference, version)) || null;
 }
 
 /**
- * Cache a saved verse's text
+ * Cache a saved passage's text (keyed as in VerseTexts)
  */
 export function setSavedVerseInSession(
-  book: string,
-  chapter: number,
-  verseStart: number,
-  verseEnd: number,
+  reference: string,
   version: string,
-  text: string
+  verses: Record<string, string>
 ): void {
-  const key = savedVerseKey(book, chapter, verseStart, verseEnd, version);
-  savedVerseCache.set(key, text);
+  savedVerseCache.set(savedVerseKey(reference, version), verses);
 }
 
 /**
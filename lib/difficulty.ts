@@ -0,0 +1,71 @@
+/**
+ * Difficulty Modes
+ *
+ * Every way a verse can be shown during a session, easiest first.
+ * To add a mode: add it to DIFFICULTIES and DIFFICULTY_INFO, give it a mask in
+ * applyDifficulty (lib/study-chunks.ts) and a max quality in lib/review-schedule.ts,
+ * and insert it into the difficulty_modes table.
+ */
+
+import type { DifficultyProgress, VerseProgress } from '@/lib/storage';
+
+// ============================================================================
+// Modes
+// ============================================================================
+
+export const DIFFICULTIES = ['easy', 'medium', 'letters', 'hard'] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+/**
+ * Completing this mode masters a verse
+ */
+export const MASTERY_DIFFICULTY: Difficulty = 'hard';
+
+export interface DifficultyInfo {
+  label: string;
+  description: string; // What's on screen
+  color: string; // Progress dot
+}
+
+export const DIFFICULTY_INFO: Record<Difficulty, DifficultyInfo> = {
+  easy: { label: 'Easy', description: 'All words', color: '#eab308' },
+  medium: { label: 'Medium', description: 'Some hidden', color: '#1d4ed8' },
+  letters: { label: 'Letters', description: 'First letters', color: '#9333ea' },
+  hard: { label: 'Hard', description: 'No words', color: '#22c55e' },
+};
+
+export function isDifficulty(value: string | undefined): value is Difficulty {
+  return DIFFICULTIES.includes(value as Difficulty);
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+const EMPTY_PROGRESS: DifficultyProgress = { bestAccuracy: null, completed: false };
+
+/**
+ * Progress for one mode (empty if the mode was never attempted)
+ */
+export function getDifficultyProgress(progress: VerseProgress | undefined, difficulty: Difficulty): DifficultyProgress {
+  return progress?.[difficulty] ?? EMPTY_PROGRESS;
+}
+
+export function isVerseMastered(progress: VerseProgress | undefined): boolean {
+  return getDifficultyProgress(progress, MASTERY_DIFFICULTY).completed;
+}
+
+/**
+ * Hardest mode completed, or null
+ */
+export function getHighestCompletedDifficulty(progress: VerseProgress | undefined): Difficulty | null {
+  for (let i = DIFFICULTIES.length - 1; i >= 0; i--) {
+    if (getDifficultyProgress(progress, DIFFICULTIES[i]).completed) return DIFFICULTIES[i];
+  }
+  return null;
+}
+
+export function hasAnyProgress(progress: VerseProgress | undefined): boolean {
+  return DIFFICULTIES.some((d) => getDifficultyProgress(progress, d).bestAccuracy !== null);
+}
@@ -0,0 +1,103 @@
+/**
+ * Fluency Metrics
+ *
+ * How smoothly a passage was recited. Accuracy says whether the words were
+ * right; fluency says whether they came without searching for them:
+ * - wordsPerMinute: words said over the recording time
+ * - longestPauseMs: longest gap between two said words
+ * - hesitationCount: gaps of HESITATION_MS or more
+ *
+ * Pauses need word timings from the transcription; without them only
+ * words per minute is known.
+ */
+
+import type { AlignmentWord } from './study-chunks';
+import type { ScoringProfile } from './scoring';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FluencyMetrics {
+  wordsPerMinute: number;
+  longestPauseMs: number | null; // null without word timings
+  hesitationCount: number | null; // null without word timings
+}
+
+/**
+ * One recording and what was heard in it
+ */
+export interface FluencySample {
+  alignment: AlignmentWord[];
+  durationMs: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * A pause this long before a word counts as a hesitation
+ */
+export const HESITATION_MS = 1500;
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Gaps between consecutive said words, in the order they were said
+ */
+function pausesBetweenWords(alignment: AlignmentWord[]): number[] | null {
+  const timed = alignment
+    .filter((w) => w.status !== 'missing' && w.startMs !== undefined && w.endMs !== undefined)
+    .sort((a, b) => a.startMs! - b.startMs!);
+  if (timed.length === 0) return null;
+
+  const pauses: number[] = [];
+  for (let i = 1; i < timed.length; i++) {
+    pauses.push(Math.max(0, timed[i].startMs! - timed[i - 1].endMs!));
+  }
+  return pauses;
+}
+
+/**
+ * Fluency across one or more recordings (a chunk, or every chunk of a verse).
+ * Pauses are only measured within a recording. Null if nothing was recorded.
+ */
+export function calculateFluency(samples: FluencySample[]): FluencyMetrics | null {
+  const durationMs = samples.reduce((sum, s) => sum + s.durationMs, 0);
+  if (durationMs <= 0) return null;
+
+  const wordCount = samples.reduce(
+    (sum, s) => sum + s.alignment.filter((w) => w.status !== 'missing').length,
+    0
+  );
+
+  const timedPauses = samples
+    .map((s) => pausesBetweenWords(s.alignment))
+    .filter((p): p is number[] => p !== null);
+  const pauses = timedPauses.flat();
+
+  return {
+    wordsPerMinute: Math.round(wordCount / (durationMs / 60000)),
+    longestPauseMs: timedPauses.length > 0 ? Math.max(0, ...pauses) : null,
+    hesitationCount: timedPauses.length > 0 ? pauses.filter((p) => p >= HESITATION_MS).length : null,
+  };
+}
+
+/**
+ * Whether an attempt is fluent enough for the profile to count it toward mastery.
+ * Attempts without fluency data (typed) and profiles without a requirement always pass.
+ */
+export function meetsFluencyRequirement(
+  fluency: FluencyMetrics | null | undefined,
+  profile: ScoringProfile
+): boolean {
+  const requirement = profile.fluency;
+  if (!requirement || !fluency) return true;
+
+  if (fluency.wordsPerMinute < requirement.minWordsPerMinute) return false;
+  if (fluency.hesitationCount !== null && fluency.hesitationCount > requirement.maxHesitations) return false;
+  return true;
+}
@@ -0,0 +1,129 @@
+/**
+ * Live Audio
+ *
+ * Recording settings for live transcription, and a reader that picks up the
+ * audio the recorder has written so far. expo-av only records to a file, so
+ * the file has to be in a format that is playable while it's still growing:
+ * - iOS: 16kHz mono 16-bit WAV, streamed as raw PCM (the header is skipped)
+ * - Android: 16kHz mono AAC in ADTS frames, streamed as-is
+ */
+
+import { Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import { File } from 'expo-file-system';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the streamed bytes are encoded (sent to the transcribe-stream function)
+ */
+export interface LiveAudioFormat {
+  audioFormat: 'auto' | 'pcm_s16le';
+  sampleRate?: number; // Required for raw PCM
+  numChannels?: number; // Required for raw PCM
+}
+
+export interface AudioTail {
+  read: () => Uint8Array | null; // Bytes written since the last read, or null if none
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SAMPLE_RATE = 16000;
+
+export const LIVE_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  isMeteringEnabled: true,
+  android: {
+    extension: '.aac',
+    outputFormat: Audio.AndroidOutputFormat.AAC_ADTS,
+    audioEncoder: Audio.AndroidAudioEncoder.AAC,
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitRate: 64000,
+  },
+  ios: {
+    extension: '.wav',
+    outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+    sampleRate: SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitRate: 256000,
+    linearPCMBitDepth: 16,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: 64000,
+  },
+};
+
+export const LIVE_AUDIO_FORMAT: LiveAudioFormat = Platform.OS === 'ios'
+  ? { audioFormat: 'pcm_s16le', sampleRate: SAMPLE_RATE, numChannels: 1 }
+  : { audioFormat: 'auto' };
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Offset of the first PCM sample in a WAV file, or null if the header
+ * hasn't been written yet. Walks the RIFF chunks to "data" (iOS pads the
+ * header with a FLLR chunk, so it isn't always 44 bytes).
+ */
+function findWavDataOffset(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 12; // "RIFF" <size> "WAVE"
+
+  while (pos + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(pos, pos + 4));
+    if (id === 'data') return pos + 8;
+    pos += 8 + view.getUint32(pos + 4, true);
+  }
+
+  return null;
+}
+
+/**
+ * Follow a recording file as it grows
+ */
+export function createAudioTail(uri: string, format: LiveAudioFormat = LIVE_AUDIO_FORMAT): AudioTail {
+  const isPcm = format.audioFormat === 'pcm_s16le';
+  let offset: number | null = isPcm ? null : 0; // null until the WAV header is found
+
+  const readFrom = (start: number): Uint8Array | null => {
+    const file = new File(uri);
+    if (!file.exists) return null;
+
+    let length = file.size - start;
+    if (isPcm) length -= length % 2; // whole 16-bit samples only
+    if (length <= 0) return null;
+
+    const handle = file.open();
+    try {
+      handle.offset = start;
+      return handle.readBytes(length);
+    } finally {
+      handle.close();
+    }
+  };
+
+  return {
+    read: () => {
+      if (offset === null) {
+        const header = readFrom(0);
+        if (!header) return null;
+        offset = findWavDataOffset(header);
+        if (offset === null) return null;
+      }
+
+      const bytes = readFrom(offset);
+      if (bytes) offset += bytes.length;
+      return bytes;
+    },
+  };
+}
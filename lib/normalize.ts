@@ -0,0 +1,326 @@
+/**
+ * Recitation Text Normalization
+ *
+ * Maps verse text and transcriptions onto a canonical form before diffing,
+ * so equivalent renderings of the same words compare equal:
+ * - numbers: "three" / "3", "forty-two" / "forty two" / "42"
+ * - ordinals: "third" / "3rd"
+ * - British and American spellings: "saviour" / "savior"
+ * - contractions: "don't" / "do not"
+ * - accents: "sólo" / "solo", "él" / "el" (said alike, so a recitation can't
+ *   tell them apart); "ñ" is a different letter and is kept
+ *
+ * Raw words are kept alongside the canonical form for display.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NormalizeOptions {
+  expandContractions?: boolean; // Default true; strict scoring keeps "don't" ≠ "do not"
+}
+
+export interface NormalizedToken {
+  raw: string; // Original word(s) for display; '' for the 2nd+ part of an expanded word
+  normalized: string; // Canonical form used for diffing (never contains spaces)
+  index: number; // Position of the (first) source word in the text
+}
+
+// ============================================================================
+// Word Tables
+// ============================================================================
+
+const CONTRACTIONS: Record<string, string[]> = {
+  "don't": ['do', 'not'],
+  "doesn't": ['does', 'not'],
+  "didn't": ['did', 'not'],
+  "can't": ['can', 'not'],
+  cannot: ['can', 'not'],
+  "won't": ['will', 'not'],
+  "shan't": ['shall', 'not'],
+  "isn't": ['is', 'not'],
+  "aren't": ['are', 'not'],
+  "wasn't": ['was', 'not'],
+  "weren't": ['were', 'not'],
+  "hasn't": ['has', 'not'],
+  "haven't": ['have', 'not'],
+  "hadn't": ['had', 'not'],
+  "shouldn't": ['should', 'not'],
+  "wouldn't": ['would', 'not'],
+  "couldn't": ['could', 'not'],
+  "mustn't": ['must', 'not'],
+  "i'm": ['i', 'am'],
+  "you're": ['you', 'are'],
+  "we're": ['we', 'are'],
+  "they're": ['they', 'are'],
+  "it's": ['it', 'is'],
+  "'tis": ['it', 'is'],
+  "he's": ['he', 'is'],
+  "she's": ['she', 'is'],
+  "that's": ['that', 'is'],
+  "there's": ['there', 'is'],
+  "what's": ['what', 'is'],
+  "who's": ['who', 'is'],
+  "let's": ['let', 'us'],
+  "i'll": ['i', 'will'],
+  "you'll": ['you', 'will'],
+  "he'll": ['he', 'will'],
+  "she'll": ['she', 'will'],
+  "we'll": ['we', 'will'],
+  "they'll": ['they', 'will'],
+  "i've": ['i', 'have'],
+  "you've": ['you', 'have'],
+  "we've": ['we', 'have'],
+  "they've": ['they', 'have'],
+  "i'd": ['i', 'would'],
+  "you'd": ['you', 'would'],
+  "he'd": ['he', 'would'],
+  "she'd": ['she', 'would'],
+  "we'd": ['we', 'would'],
+  "they'd": ['they', 'would'],
+  "o'er": ['over'],
+};
+
+/**
+ * British → American spellings that show up in Bible translations
+ * (NLTUK, older editions) or STT output
+ */
+const SPELLINGS: Record<string, string> = {
+  saviour: 'savior',
+  honour: 'honor',
+  honoured: 'honored',
+  honours: 'honors',
+  labour: 'labor',
+  labours: 'labors',
+  laboured: 'labored',
+  neighbour: 'neighbor',
+  neighbours: 'neighbors',
+  favour: 'favor',
+  favoured: 'favored',
+  colour: 'color',
+  colours: 'colors',
+  behaviour: 'behavior',
+  splendour: 'splendor',
+  valour: 'valor',
+  vigour: 'vigor',
+  fervour: 'fervor',
+  odour: 'odor',
+  clamour: 'clamor',
+  armour: 'armor',
+  endeavour: 'endeavor',
+  harbour: 'harbor',
+  rumour: 'rumor',
+  counsellor: 'counselor',
+  counsellors: 'counselors',
+  travelled: 'traveled',
+  travelling: 'traveling',
+  worshipped: 'worshiped',
+  worshipping: 'worshiping',
+  judgement: 'judgment',
+  judgements: 'judgments',
+  defence: 'defense',
+  offence: 'offense',
+  offences: 'offenses',
+  centre: 'center',
+  sepulchre: 'sepulcher',
+  grey: 'gray',
+  plough: 'plow',
+  ploughed: 'plowed',
+  practise: 'practice',
+  jewellery: 'jewelry',
+  fulfil: 'fulfill',
+  fulfilment: 'fulfillment',
+  baptise: 'baptize',
+  baptised: 'baptized',
+  realise: 'realize',
+  recognise: 'recognize',
+  apologise: 'apologize',
+  sceptre: 'scepter',
+  mould: 'mold',
+  amongst: 'among',
+};
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  hundred: 100, thousand: 1000, million: 1000000,
+};
+
+const ORDINALS: Record<string, string> = {
+  first: 'one', second: 'two', third: 'three', fourth: 'four', fifth: 'five', sixth: 'six',
+  seventh: 'seven', eighth: 'eight', ninth: 'nine', tenth: 'ten', eleventh: 'eleven',
+  twelfth: 'twelve', thirteenth: 'thirteen', fourteenth: 'fourteen', fifteenth: 'fifteen',
+  sixteenth: 'sixteen', seventeenth: 'seventeen', eighteenth: 'eighteen', nineteenth: 'nineteen',
+  twentieth: 'twenty', thirtieth: 'thirty', fortieth: 'forty', fiftieth: 'fifty',
+  sixtieth: 'sixty', seventieth: 'seventy', eightieth: 'eighty', ninetieth: 'ninety',
+  hundredth: 'hundred', thousandth: 'thousand',
+};
+
+// ============================================================================
+// Single Words
+// ============================================================================
+
+/**
+ * Drop accent marks, except the tilde of "ñ" ("está" → "esta", "año" stays)
+ */
+export function foldAccents(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/(n\u0303)|\p{M}/gu, (_, enye: string | undefined) => enye ?? '')
+    .normalize('NFC');
+}
+
+/**
+ * Normalize a single word:
+ * - lowercase, curly apostrophes → straight, accents folded
+ * - strip leading/trailing punctuation (letters in any script count as word chars)
+ * - keep internal apostrophes and hyphens
+ * - British → American spelling
+ */
+export function normalizeWord(word: string): string {
+  const base = foldAccents(word.toLowerCase())
+    .replace(/[‘’]/g, "'")
+    .replace(/^[^\p{L}\p{N}_']+/u, '')  // strip leading non-word chars (except apostrophe)
+    .replace(/[^\p{L}\p{N}_']+$/u, '')  // strip trailing non-word chars (except apostrophe)
+    .replace(/^'+(?!tis$)/, '') // stray leading quote (but keep "'tis")
+    .replace(/'+$/, '');
+  return SPELLINGS[base] ?? base;
+}
+
+// ============================================================================
+// Numbers
+// ============================================================================
+
+/**
+ * Numeric value of a number word ("seven", "twenty", "third"), or null
+ */
+function numberWordValue(word: string): { value: number; ordinal: boolean } | null {
+  const cardinal = ORDINALS[word];
+  const base = cardinal ?? word;
+  const value = UNITS[base] ?? TENS[base] ?? SCALES[base];
+  return value === undefined ? null : { value, ordinal: cardinal !== undefined };
+}
+
+/**
+ * Canonical form of a number: "42", ordinals "42th" (one suffix for all, "3rd" → "3th")
+ */
+function numberKey(value: number, ordinal: boolean): string {
+  return ordinal ? `${value}th` : String(value);
+}
+
+/**
+ * Canonical form of a numeral token ("42", "1,000", "3rd"), or null
+ */
+function numeralKey(word: string): string | null {
+  const match = word.replace(/,/g, '').match(/^(\d+)(st|nd|rd|th)?$/);
+  if (!match) return null;
+  return numberKey(parseInt(match[1], 10), !!match[2]);
+}
+
+/**
+ * Parse the longest number phrase starting at words[start]
+ * ("forty two", "one hundred and twenty", "twenty-first").
+ * Returns the canonical key and how many words it used.
+ */
+function parseNumberPhrase(words: string[], start: number): { key: string; length: number } | null {
+  let total = 0;
+  let current = 0;
+  let ordinal = false;
+  let used = 0;
+  let lastWasNumber = false;
+
+  for (let i = start; i < words.length && !ordinal; i++) {
+    // Hyphenated compounds: "forty-two" → ["forty", "two"]
+    const parts = words[i].split('-');
+    const values = parts.map(numberWordValue);
+
+    if (values.some((v) => v === null)) {
+      // "and" only joins number words ("one hundred and twenty")
+      if (words[i] === 'and' && lastWasNumber && current >= 100 && i + 1 < words.length &&
+          words[i + 1].split('-').every((p) => numberWordValue(p) !== null)) {
+        lastWasNumber = false;
+        continue;
+      }
+      break;
+    }
+
+    for (const v of values as { value: number; ordinal: boolean }[]) {
+      if (v.value >= 100) {
+        current = (current || 1) * v.value;
+        if (v.value >= 1000) {
+          total += current;
+          current = 0;
+        }
+      } else {
+        current += v.value;
+      }
+      ordinal = ordinal || v.ordinal;
+    }
+
+    used = i - start + 1;
+    lastWasNumber = true;
+  }
+
+  if (used === 0) return null;
+  return { key: numberKey(total + current, ordinal), length: used };
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Split text into canonical tokens for diffing.
+ * Contractions expand to several tokens (the first keeps the raw word),
+ * unless options.expandContractions is false;
+ * multi-word numbers collapse into one token (keeping all raw words).
+ */
+export function normalizeText(text: string, options: NormalizeOptions = {}): NormalizedToken[] {
+  const { expandContractions = true } = options;
+  const rawWords = text.split(/\s+/).filter((w) => w.length > 0);
+
+  // Words → canonical pieces (expanding contractions)
+  const expanded: NormalizedToken[] = [];
+  rawWords.forEach((raw, index) => {
+    const word = normalizeWord(raw);
+    const parts = (expandContractions && CONTRACTIONS[word]) || [word];
+    parts.forEach((part, i) => expanded.push({ raw: i === 0 ? raw : '', normalized: part, index }));
+  });
+
+  // Collapse numbers
+  const tokens: NormalizedToken[] = [];
+  const words = expanded.map((t) => t.normalized);
+  for (let i = 0; i < expanded.length; i++) {
+    const numeral = numeralKey(words[i]);
+    if (numeral) {
+      tokens.push({ ...expanded[i], normalized: numeral });
+      continue;
+    }
+
+    const phrase = parseNumberPhrase(words, i);
+    if (phrase) {
+      const raw = expanded
+        .slice(i, i + phrase.length)
+        .map((t) => t.raw)
+        .filter(Boolean)
+        .join(' ');
+      tokens.push({ raw, normalized: phrase.key, index: expanded[i].index });
+      i += phrase.length - 1;
+      continue;
+    }
+
+    tokens.push(expanded[i]);
+  }
+
+  // Drop tokens that were pure punctuation ("—", "...")
+  return tokens.filter((t) => t.normalized.length > 0);
+}
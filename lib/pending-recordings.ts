@@ -0,0 +1,260 @@
+/**
+ * Pending Recordings
+ *
+ * Recitations recorded while the process-recording edge function is
+ * unreachable. The audio is copied out of the cache directory and the verse
+ * attempt is saved with its chunk text, so it can be graded once the device
+ * is back online - with the original attempt timestamp.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { Directory, File, Paths } from 'expo-file-system';
+import { processRecording } from '@/lib/api';
+import { alignTranscription } from '@/lib/align';
+import { useAppStore } from '@/lib/store';
+import { getScoringProfile, type ScoringProfileId } from '@/lib/scoring';
+import { getVersionLanguage } from '@/lib/settings';
+import { calculateFinalScore, type AlignmentWord, type Difficulty } from '@/lib/study-chunks';
+import { calculateFluency } from '@/lib/fluency';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PendingChunk {
+  chunkId: string;
+  text: string; // Chunk text to grade against
+  durationMs: number;
+  hints?: number; // Taken while reciting (missing on chunks queued before hints existed)
+  audioUri?: string; // Set until the chunk is graded
+  alignment?: AlignmentWord[]; // Set once graded
+}
+
+/**
+ * A finished verse with at least one ungraded chunk
+ */
+export interface PendingAttempt {
+  id: string;
+  verseId: string;
+  difficulty: Difficulty;
+  chunkSize: number;
+  scoringProfile?: ScoringProfileId; // Profile of the original session (standard if missing)
+  attemptedAt: number; // ms timestamp of the original session
+  chunks: PendingChunk[];
+  failures?: number; // Failed grading runs while online (missing on attempts queued before retries were counted)
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PENDING_KEY = 'pending_recordings';
+const AUDIO_DIR_NAME = 'pending-recordings';
+
+/**
+ * Give up on an attempt after this many failed grading runs while online.
+ * Offline failures don't count - those just wait for the next reconnect.
+ */
+const MAX_FAILURES = 5;
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+let processing: Promise<void> | null = null;
+
+async function loadPendingAttempts(): Promise<PendingAttempt[]> {
+  try {
+    const data = await AsyncStorage.getItem(PENDING_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('[PENDING] Failed to load pending attempts:', e);
+    return [];
+  }
+}
+
+async function savePendingAttempts(attempts: PendingAttempt[]): Promise<void> {
+  await AsyncStorage.setItem(PENDING_KEY, JSON.stringify(attempts));
+}
+
+/**
+ * Re-read before writing, so attempts queued while grading aren't lost
+ */
+async function updatePendingAttempt(id: string, update: PendingAttempt | null): Promise<void> {
+  const attempts = await loadPendingAttempts();
+  const next = update
+    ? attempts.map((a) => (a.id === id ? update : a))
+    : attempts.filter((a) => a.id !== id);
+  await savePendingAttempts(next);
+}
+
+function deleteAudio(uri: string | undefined): void {
+  if (!uri) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (e) {
+    console.error('[PENDING] Failed to delete audio:', e);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * True if a processing failure was caused by having no connection
+ * (as opposed to a server error or a usage limit)
+ */
+export async function isOfflineError(error: unknown): Promise<boolean> {
+  const { isConnected, isInternetReachable } = await NetInfo.fetch();
+  if (!isConnected || isInternetReachable === false) return true;
+  return error instanceof TypeError && /network request failed/i.test(error.message);
+}
+
+/**
+ * Copy a recording out of the cache directory so the OS can't purge it
+ * before it is graded. Returns the new URI.
+ */
+export function persistRecording(uri: string, chunkId: string): string {
+  const dir = new Directory(Paths.document, AUDIO_DIR_NAME);
+  dir.create({ idempotent: true, intermediates: true });
+
+  const safeName = chunkId.replace(/[^a-zA-Z0-9-]/g, '_');
+  const extension = uri.split('.').pop() || 'm4a';
+  const dest = new File(dir, `${safeName}-${Date.now()}.${extension}`);
+  new File(uri).copy(dest);
+  return dest.uri;
+}
+
+/**
+ * Save a finished verse whose chunks can't all be graded yet
+ */
+export async function queuePendingAttempt(attempt: Omit<PendingAttempt, 'id'>): Promise<void> {
+  const attempts = await loadPendingAttempts();
+  attempts.push({ ...attempt, id: `pending-${attempt.attemptedAt}-${attempt.verseId}` });
+  await savePendingAttempts(attempts);
+  console.log(`[PENDING] Queued ${attempt.verseId} for grading`);
+}
+
+/**
+ * Number of verse attempts waiting to be graded
+ */
+export async function getPendingAttemptCount(): Promise<number> {
+  return (await loadPendingAttempts()).length;
+}
+
+/**
+ * Grade every pending attempt that can be graded now.
+ * Stops when offline and leaves the rest for the next reconnect; an attempt
+ * that fails for another reason is skipped until the next run, and dropped
+ * after MAX_FAILURES. Concurrent calls share one run.
+ */
+export function processPendingRecordings(): Promise<void> {
+  if (!processing) {
+    processing = runProcessing().finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+async function runProcessing(): Promise<void> {
+  const attempts = await loadPendingAttempts();
+
+  for (const attempt of attempts) {
+    const profile = getScoringProfile(attempt.scoringProfile);
+    const verse = useAppStore.getState().verses.find((v) => v.id === attempt.verseId);
+    const language = getVersionLanguage(verse?.version);
+
+    // Transcribe + align each ungraded chunk
+    let failed = false;
+    for (const chunk of attempt.chunks) {
+      if (chunk.alignment || !chunk.audioUri) continue;
+
+      try {
+        const { cleanedTranscription, cleaningUsed, words } = await processRecording(
+          chunk.audioUri,
+          Math.ceil(chunk.durationMs / 1000),
+          chunk.text,
+          language
+        );
+        chunk.alignment = alignTranscription(
+          chunk.text,
+          cleanedTranscription,
+          profile,
+          cleaningUsed ? undefined : words
+        );
+      } catch (e) {
+        if (await isOfflineError(e)) return;
+
+        attempt.failures = (attempt.failures ?? 0) + 1;
+        if (attempt.failures >= MAX_FAILURES) {
+          console.error(`[PENDING] Dropping ${attempt.verseId} after ${MAX_FAILURES} failures:`, e);
+          attempt.chunks.forEach((c) => deleteAudio(c.audioUri));
+          await updatePendingAttempt(attempt.id, null);
+        } else {
+          console.error('[PENDING] Failed to grade recording, will retry:', e);
+          await updatePendingAttempt(attempt.id, attempt);
+        }
+        failed = true;
+        break;
+      }
+
+      deleteAudio(chunk.audioUri);
+      chunk.audioUri = undefined;
+      await updatePendingAttempt(attempt.id, attempt);
+    }
+    if (failed) continue;
+
+    // Every chunk graded - record the attempt as if it happened at the original time
+    const accuracy = calculateFinalScore(
+      new Map(attempt.chunks.map((chunk, i) => [i, chunk.alignment ?? []])),
+      profile,
+      new Map(attempt.chunks.map((chunk, i) => [i, chunk.hints ?? 0]))
+    );
+    const hintCount = attempt.chunks.reduce((sum, chunk) => sum + (chunk.hints ?? 0), 0);
+    const recordingDurationMs = attempt.chunks.reduce((sum, chunk) => sum + chunk.durationMs, 0);
+    const fluency = calculateFluency(
+      attempt.chunks.map((chunk) => ({ alignment: chunk.alignment ?? [], durationMs: chunk.durationMs }))
+    );
+
+    const store = useAppStore.getState();
+    await store.updateVerseProgress(attempt.verseId, attempt.difficulty, accuracy, profile, fluency);
+    await store.logAttempt(attempt.verseId, {
+      difficulty: attempt.difficulty,
+      chunkSize: attempt.chunkSize,
+      accuracy,
+      scoringProfile: profile.id,
+      inputMode: 'spoken',
+      recordingDurationMs,
+      fluency,
+      hintCount,
+      attemptedAt: attempt.attemptedAt,
+    });
+
+    await updatePendingAttempt(attempt.id, null);
+    console.log(`[PENDING] Graded ${attempt.verseId}: ${accuracy}%`);
+  }
+}
+
+/**
+ * Grade pending recordings whenever the device comes back online. Returns unsubscribe.
+ */
+export function startPendingRecordingSync(): () => void {
+  return NetInfo.addEventListener((state) => {
+    if (state.isConnected) {
+      processPendingRecordings().catch((e) => console.error('[PENDING] Processing error:', e));
+    }
+  });
+}
+
+/**
+ * Drop every pending attempt and its audio (on sign-out)
+ */
+export async function clearPendingRecordings(): Promise<void> {
+  const attempts = await loadPendingAttempts();
+  attempts.forEach((attempt) => attempt.chunks.forEach((chunk) => deleteAudio(chunk.audioUri)));
+  await savePendingAttempts([]);
+}
@@ -0,0 +1,157 @@
+import type { Difficulty, ReviewSchedule, SavedVerse } from '@/lib/storage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A logged attempt as seen by the scheduler (one session_attempts row)
+ */
+export interface ReviewAttempt {
+  difficulty: Difficulty;
+  accuracy: number; // 0-100
+  attemptedAt: number; // ms timestamp
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 86400000;
+
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+/**
+ * Highest SM-2 quality an attempt can earn at each difficulty.
+ * Reciting with the text on screen proves less recall than reciting from memory,
+ * so easier sessions can keep a verse alive but never grow it as fast.
+ */
+const MAX_QUALITY: Record<Difficulty, number> = {
+  easy: 3,
+  medium: 4,
+  letters: 4,
+  hard: 5,
+};
+
+export const INITIAL_REVIEW_SCHEDULE: ReviewSchedule = {
+  dueAt: null,
+  ease: DEFAULT_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lastReviewedAt: null,
+};
+
+// ============================================================================
+// SM-2 Scheduling
+// ============================================================================
+
+/**
+ * Map an attempt to an SM-2 quality grade (0-5).
+ * 3+ counts as a successful recall.
+ */
+export function attemptQuality(attempt: ReviewAttempt): number {
+  const { accuracy } = attempt;
+  let quality: number;
+  if (accuracy >= 95) quality = 5;
+  else if (accuracy >= 90) quality = 4;
+  else if (accuracy >= 80) quality = 3;
+  else if (accuracy >= 60) quality = 2;
+  else if (accuracy >= 40) quality = 1;
+  else quality = 0;
+
+  return Math.min(quality, MAX_QUALITY[attempt.difficulty]);
+}
+
+/**
+ * Apply a single attempt to a schedule (SM-2).
+ *
+ * - Failed recall (quality < 3): repetitions reset, review again tomorrow.
+ * - Successful recall before the verse was due: treated as extra practice,
+ *   so cramming the same verse several times in a row doesn't inflate the interval.
+ * - Successful recall when due: interval grows 1 → 6 → interval × ease.
+ */
+export function applyAttempt(schedule: ReviewSchedule, attempt: ReviewAttempt): ReviewSchedule {
+  const quality = attemptQuality(attempt);
+  const at = attempt.attemptedAt;
+
+  // Ease adjusts on every graded review
+  const ease = Math.max(
+    MIN_EASE,
+    schedule.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      dueAt: at + DAY_MS,
+      ease,
+      intervalDays: 1,
+      repetitions: 0,
+      lastReviewedAt: at,
+    };
+  }
+
+  const isEarly = schedule.dueAt !== null && at < schedule.dueAt;
+  if (isEarly) {
+    return { ...schedule, lastReviewedAt: at };
+  }
+
+  let intervalDays: number;
+  if (schedule.repetitions === 0) intervalDays = 1;
+  else if (schedule.repetitions === 1) intervalDays = 6;
+  else intervalDays = Math.round(schedule.intervalDays * ease);
+
+  return {
+    dueAt: at + intervalDays * DAY_MS,
+    ease,
+    intervalDays,
+    repetitions: schedule.repetitions + 1,
+    lastReviewedAt: at,
+  };
+}
+
+/**
+ * Replay every attempt (oldest first) to produce the current schedule.
+ */
+export function computeReviewSchedule(attempts: ReviewAttempt[]): ReviewSchedule {
+  return [...attempts]
+    .sort((a, b) => a.attemptedAt - b.attemptedAt)
+    .reduce(applyAttempt, INITIAL_REVIEW_SCHEDULE);
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * A verse is due once its due date has passed. Never-practiced verses are due now.
+ */
+export function isReviewDue(schedule: ReviewSchedule | undefined, now: number = Date.now()): boolean {
+  return schedule?.dueAt == null || schedule.dueAt <= now;
+}
+
+/**
+ * Whole days until the next review (negative = overdue, null = never practiced)
+ */
+export function daysUntilReview(schedule: ReviewSchedule | undefined, now: number = Date.now()): number | null {
+  if (schedule?.dueAt == null) return null;
+  return Math.ceil((schedule.dueAt - now) / DAY_MS);
+}
+
+/**
+ * Rank for the review queue (higher = review sooner).
+ * Days since the last attempt, plus a day for every 10 points of accuracy
+ * missing from the verse's best score - so a stale, shaky verse beats a stale, solid one.
+ * A never-practiced verse counts as practiced just now.
+ */
+export function reviewPriority(verse: SavedVerse, now: number = Date.now()): number {
+  const lastReviewedAt = verse.review?.lastReviewedAt ?? now;
+  const daysSince = (now - lastReviewedAt) / DAY_MS;
+
+  const best = Math.max(
+    0,
+    ...Object.values(verse.progress).map((p) => p.bestAccuracy ?? 0)
+  );
+
+  return daysSince + (100 - best) / 10;
+}
@@ -0,0 +1,163 @@
+/**
+ * Scoring Profiles
+ *
+ * How strictly a recitation is graded. A profile controls how the text is
+ * normalized before alignment, how much each kind of mistake (and each hint)
+ * costs, and the accuracy (and fluency) needed to complete a difficulty level.
+ * - standard: the default rubric
+ * - strict: for competitions - contractions, near-misses and word order must match exactly,
+ *   recited at a steady pace
+ * - lenient: for kids - small function words and filler can be skipped
+ */
+
+import type { AlignmentWord } from './study-chunks';
+import { normalizeWord } from './normalize';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScoringProfileId = 'standard' | 'strict' | 'lenient';
+
+/**
+ * Mistakes that cost part of a word. A missing or added word always costs a whole word;
+ * a substitution costs one word slot instead of a missing + added pair.
+ */
+export type PartialMistake = 'close' | 'transposed' | 'substituted';
+
+/**
+ * Pace a spoken attempt needs before it can complete a level (see lib/fluency.ts)
+ */
+export interface FluencyRequirement {
+  minWordsPerMinute: number;
+  maxHesitations: number;
+}
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  label: string;
+  description: string;
+  expandContractions: boolean; // "don't" and "do not" align as equal
+  penalties: Record<PartialMistake, number>; // Fraction of a word lost (0-1)
+  hintPenalty: number; // Fraction of a word lost per hint taken
+  skippableWords: ReadonlySet<string>; // Missing/added words that don't count against the score
+  masteryThreshold: number; // Accuracy (%) needed to complete a difficulty
+  fluency: FluencyRequirement | null; // Also needed to complete a difficulty (spoken attempts)
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+const FUNCTION_WORDS = [
+  'a', 'an', 'the', 'and', 'but', 'or', 'nor', 'so', 'of', 'to', 'in', 'on', 'at', 'by',
+  'for', 'from', 'with', 'as', 'that', 'is', 'are', 'was', 'be', 'it',
+];
+
+const FILLER_WORDS = ['um', 'uh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm'];
+
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Near-misses and out-of-order words earn half credit',
+    expandContractions: true,
+    penalties: { close: 0.5, transposed: 0.5, substituted: 1 },
+    hintPenalty: 0.5,
+    skippableWords: new Set(),
+    masteryThreshold: 90,
+    fluency: null,
+  },
+  strict: {
+    id: 'strict',
+    label: 'Strict',
+    description: 'Every word, article, contraction and word order must match exactly, without long pauses',
+    expandContractions: false,
+    penalties: { close: 1, transposed: 1, substituted: 1 },
+    hintPenalty: 1,
+    skippableWords: new Set(),
+    masteryThreshold: 95,
+    fluency: { minWordsPerMinute: 80, maxHesitations: 1 },
+  },
+  lenient: {
+    id: 'lenient',
+    label: 'Lenient',
+    description: 'Small words and filler can be skipped without penalty',
+    expandContractions: true,
+    penalties: { close: 0.25, transposed: 0.25, substituted: 1 },
+    hintPenalty: 0.25,
+    skippableWords: new Set([...FUNCTION_WORDS, ...FILLER_WORDS]),
+    masteryThreshold: 80,
+    fluency: null,
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES.standard;
+
+/**
+ * Look up a profile by id (unknown ids fall back to standard)
+ */
+export function getScoringProfile(id: string | undefined): ScoringProfile {
+  return SCORING_PROFILES[id as ScoringProfileId] ?? DEFAULT_SCORING_PROFILE;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Points earned and points possible for one alignment.
+ * Skippable words that were left out, added, or swapped for another
+ * skippable word ("in" → "um") don't count either way.
+ */
+export function tallyAlignment(
+  alignment: AlignmentWord[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): { earned: number; possible: number } {
+  let earned = 0;
+  let possible = 0;
+
+  const isSkippable = (word: string | undefined) =>
+    word !== undefined && profile.skippableWords.has(normalizeWord(word));
+
+  for (const item of alignment) {
+    switch (item.status) {
+      case 'correct':
+        earned += 1;
+        break;
+      case 'close':
+      case 'transposed':
+        earned += 1 - profile.penalties[item.status];
+        break;
+      case 'substituted':
+        if (isSkippable(item.word) && isSkippable(item.expected)) continue;
+        earned += 1 - profile.penalties.substituted;
+        break;
+      case 'missing':
+      case 'added':
+        if (isSkippable(item.word)) continue;
+        break;
+    }
+    possible += 1;
+  }
+
+  return { earned, possible };
+}
+
+/**
+ * Take hints off the points earned (never below zero)
+ */
+export function applyHintPenalty(
+  { earned, possible }: { earned: number; possible: number },
+  hints: number,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): { earned: number; possible: number } {
+  return { earned: Math.max(0, earned - hints * profile.hintPenalty), possible };
+}
+
+/**
+ * Percentage (0-100) from summed tallies
+ */
+export function scoreFromTally({ earned, possible }: { earned: number; possible: number }): number {
+  return possible > 0 ? Math.round(earned / possible * 100) : 0;
+}
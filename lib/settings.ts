@@ -1,20 +1,27 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useEffect, useState, useCallback } from 'react';
+import type { ScoringProfileId } from '@/lib/scoring';
+import { fetchVersionCatalog, type VersionCatalogEntry } from '@/lib/api/versions';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type BibleVersion = 'ESV' | 'NLT';
+/**
+ * Version code from the bible function's catalog (e.g. 'ESV', 'KJV')
+ */
+export type BibleVersion = string;
 
 export interface AppSettings {
   bibleVersion: BibleVersion;
+  scoringProfile: ScoringProfileId;
 }
 
 const SETTINGS_KEY = 'app_settings';
 
 const DEFAULT_SETTINGS: AppSettings = {
   bibleVersion: 'ESV',
+  scoringProfile: 'standard',
 };
 
 // ============================================================================
@@ -69,18 +76,138 @@ export function useSettings() {
     [updateSetting]
   );
 
+  const setScoringProfile = useCallback(
+    (profile: ScoringProfileId) => updateSetting('scoringProfile', profile),
+    [updateSetting]
+  );
+
   return {
     settings,
     loading,
     setBibleVersion,
+    setScoringProfile,
   };
 }
 
 // ============================================================================
-// Translation Display Info
+// Translations
 // ============================================================================
 
-export const BIBLE_VERSIONS: { value: BibleVersion; label: string; full: string }[] = [
-  { value: 'ESV', label: 'ESV', full: 'English Standard Version' },
-  { value: 'NLT', label: 'NLT', full: 'New Living Translation' },
+export interface BibleVersionInfo {
+  value: BibleVersion;
+  label: string;
+  full: string;
+  language: string; // BCP 47 tag, e.g. 'en' or 'en-GB'
+  copyright: string;
+  publicDomain: boolean; // Kept on the device for offline use
+}
+
+/**
+ * Built-in versions, used until the server's catalog has loaded once
+ */
+export const BIBLE_VERSIONS: BibleVersionInfo[] = [
+  { value: 'ESV', label: 'ESV', full: 'English Standard Version', language: 'en', copyright: '© 2001 by Crossway', publicDomain: false },
+  { value: 'NLT', label: 'NLT', full: 'New Living Translation', language: 'en', copyright: '© 1996, 2004, 2015 by Tyndale House Foundation', publicDomain: false },
+  { value: 'NTV', label: 'NTV', full: 'Nueva Traducción Viviente', language: 'es', copyright: '© Tyndale House Foundation, 2010', publicDomain: false },
+  { value: 'KJV', label: 'KJV', full: 'King James Version', language: 'en', copyright: 'Public domain.', publicDomain: false },
 ];
+
+/**
+ * Languages the app can memorize in. Versions in any other language
+ * are served but not offered.
+ */
+const SUPPORTED_LANGUAGES = ['en', 'es'];
+
+const VERSIONS_KEY = 'bible_versions';
+
+// Every version the server serves (last catalog seen), offered or not
+let knownVersions: BibleVersionInfo[] = BIBLE_VERSIONS;
+let versionsRequest: Promise<BibleVersionInfo[]> | null = null;
+
+function fromCatalog(entry: VersionCatalogEntry): BibleVersionInfo {
+  return {
+    value: entry.id,
+    label: entry.id,
+    full: entry.name,
+    language: entry.language,
+    copyright: entry.copyright,
+    publicDomain: entry.caching === 'offline',
+  };
+}
+
+function isOffered(version: BibleVersionInfo): boolean {
+  return SUPPORTED_LANGUAGES.includes(version.language.split('-')[0]);
+}
+
+async function refreshBibleVersions(): Promise<BibleVersionInfo[]> {
+  try {
+    const stored = await AsyncStorage.getItem(VERSIONS_KEY);
+    if (stored) knownVersions = JSON.parse(stored);
+  } catch (e) {
+    console.error('[SETTINGS] Failed to load stored versions:', e);
+  }
+
+  try {
+    const catalog = await fetchVersionCatalog();
+    if (catalog.length > 0) {
+      knownVersions = catalog.map(fromCatalog);
+      await AsyncStorage.setItem(VERSIONS_KEY, JSON.stringify(knownVersions));
+    }
+  } catch (e) {
+    console.error('[SETTINGS] Failed to fetch versions:', e);
+    versionsRequest = null; // Try again next time a picker opens
+  }
+
+  return getBibleVersions();
+}
+
+/**
+ * Versions users can pick, as last known (no network)
+ */
+export function getBibleVersions(): BibleVersionInfo[] {
+  return knownVersions.filter(isOffered);
+}
+
+/**
+ * Load the server's version catalog (once per app run), falling back to the
+ * last one stored on the device, then to BIBLE_VERSIONS
+ */
+export function loadBibleVersions(): Promise<BibleVersionInfo[]> {
+  if (!versionsRequest) {
+    versionsRequest = refreshBibleVersions();
+  }
+  return versionsRequest;
+}
+
+export function useBibleVersions(): BibleVersionInfo[] {
+  const [versions, setVersions] = useState(getBibleVersions);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadBibleVersions().then((loaded) => {
+      if (!cancelled) setVersions(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return versions;
+}
+
+export function isBibleVersion(value: string | undefined): value is BibleVersion {
+  return getBibleVersions().some((v) => v.value === value);
+}
+
+export function isPublicDomainVersion(version: string): boolean {
+  return knownVersions.some((v) => v.value === version && v.publicDomain);
+}
+
+/**
+ * Language of a version's text, without region ('en' for 'en-GB').
+ * Used for book names and as the speech recognition hint; 'en' if unknown.
+ */
+export function getVersionLanguage(version: string | undefined): string {
+  const info = knownVersions.find((v) => v.value === version);
+  return info ? info.language.split('-')[0] : 'en';
+}
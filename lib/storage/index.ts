@@ -7,21 +7,44 @@
 
 import { supabase } from '@/lib/api/client';
 import { ensureAuth } from '@/lib/api';
+import {
+  MASTERY_DIFFICULTY,
+  getDifficultyProgress,
+  isVerseMastered,
+  type Difficulty,
+} from '@/lib/difficulty';
+import { getVersionLanguage, type BibleVersion } from '@/lib/settings';
+import {
+  formatPassage,
+  segmentsColumn,
+  type PassageLocation,
+  type PassageSegment,
+} from '@/lib/bible/passage';
+
+export type { Difficulty };
 
 // ============ TYPES ============
 
 export interface DifficultyProgress {
   bestAccuracy: number | null;
-  completed: boolean; // true if bestAccuracy >= 90
+  completed: boolean; // true once a score met the scoring profile's mastery threshold
 }
 
-export interface VerseProgress {
-  easy: DifficultyProgress;
-  medium: DifficultyProgress;
-  hard: DifficultyProgress;
-}
+/**
+ * Best score per difficulty mode. Modes never attempted have no entry,
+ * so new modes don't need a migration (see lib/difficulty.ts).
+ */
+export type VerseProgress = Partial<Record<Difficulty, DifficultyProgress>>;
 
-export type BibleVersion = 'ESV' | 'NLT';
+export type { BibleVersion };
+
+export interface ReviewSchedule {
+  dueAt: number | null; // null = never practiced
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  lastReviewedAt: number | null;
+}
 
 export interface SavedVerse {
   id: string;
@@ -30,10 +53,12 @@ export interface SavedVerse {
   chapter: number;
   verseStart: number;
   verseEnd: number;
+  segments?: PassageSegment[]; // Every segment, if more than one (see lib/bible/passage.ts)
   text?: string; // Optional - fetched on demand from verse_cache
   version: BibleVersion;
   createdAt: number;
   progress: VerseProgress;
+  review?: ReviewSchedule; // Spaced-repetition state (see lib/review-schedule.ts)
 }
 
 export interface Collection {
@@ -43,20 +68,18 @@ export interface Collection {
   isVirtual?: boolean; // Virtual collections (like Mastered) can't be deleted or have verses manually added
   icon?: string; // SF Symbol name
   iconColor?: string; // Hex color for icon
+  sortOrder?: number; // Position in the library, lowest first (user collections only)
   createdAt: number;
 }
 
-export type Difficulty = 'easy' | 'medium' | 'hard';
+// What the user can change about a collection after creating it
+export type CollectionChanges = Partial<Pick<Collection, 'name' | 'icon' | 'iconColor'>>;
 
 // ============ CONSTANTS ============
 
 const DEFAULT_COLLECTION_ID = 'my-verses';
 
-const DEFAULT_PROGRESS: VerseProgress = {
-  easy: { bestAccuracy: null, completed: false },
-  medium: { bestAccuracy: null, completed: false },
-  hard: { bestAccuracy: null, completed: false },
-};
+const DEFAULT_PROGRESS: VerseProgress = {};
 
 const DEFAULT_COLLECTION: Collection = {
   id: DEFAULT_COLLECTION_ID,
@@ -97,6 +120,7 @@ export async function getCollections(): Promise<Collection[]> {
       .from('user_collections')
       .select('*')
       .is('deleted_at', null)
+      .order('sort_order', { ascending: true })
       .order('created_at', { ascending: true });
 
     if (error) {
@@ -104,10 +128,13 @@ export async function getCollections(): Promise<Collection[]> {
       return [DEFAULT_COLLECTION];
     }
 
-    const collections = data.map((c) => ({
+    const collections: Collection[] = data.map((c) => ({
       id: c.client_id,
       name: c.name,
       isDefault: c.is_default,
+      icon: c.icon ?? undefined,
+      iconColor: c.icon_color ?? undefined,
+      sortOrder: c.sort_order,
       createdAt: new Date(c.created_at).getTime(),
     }));
 
@@ -273,6 +300,7 @@ export async function getSavedVerses(): Promise<SavedVerse[]> {
       chapter: vc.user_verses.chapter,
       verseStart: vc.user_verses.verse_start,
       verseEnd: vc.user_verses.verse_end,
+      segments: vc.user_verses.segments ?? undefined,
       version: vc.user_verses.version as BibleVersion,
       createdAt: new Date(vc.added_at).getTime(),
       progress: vc.user_verses.progress || DEFAULT_PROGRESS,
@@ -319,6 +347,7 @@ export async function getVersesByCollection(collectionId: string): Promise<Saved
       chapter: vc.user_verses.chapter,
       verseStart: vc.user_verses.verse_start,
       verseEnd: vc.user_verses.verse_end,
+      segments: vc.user_verses.segments ?? undefined,
       version: vc.user_verses.version as BibleVersion,
       createdAt: new Date(vc.added_at).getTime(),
       progress: vc.user_verses.progress || DEFAULT_PROGRESS,
@@ -386,7 +415,8 @@ export async function saveVerse(
   }
 
   // Check if verse already exists (including soft-deleted)
-  const { data: existing } = await supabase
+  const segments = segmentsColumn(verse);
+  let existingQuery = supabase
     .from('user_verses')
     .select('id, client_id, deleted_at, progress')
     .eq('user_id', userId)
@@ -394,8 +424,11 @@ export async function saveVerse(
     .eq('chapter', verse.chapter)
     .eq('verse_start', verse.verseStart)
     .eq('verse_end', verse.verseEnd)
-    .eq('version', version)
-    .maybeSingle();
+    .eq('version', version);
+  existingQuery = segments
+    ? existingQuery.eq('segments', JSON.stringify(segments))
+    : existingQuery.is('segments', null);
+  const { data: existing } = await existingQuery.maybeSingle();
 
   let clientId: string;
   let progress = DEFAULT_PROGRESS;
@@ -432,6 +465,7 @@ export async function saveVerse(
         chapter: verse.chapter,
         verse_start: verse.verseStart,
         verse_end: verse.verseEnd,
+        segments,
         version,
         progress: DEFAULT_PROGRESS,
         created_at: createdAt.toISOString(),
@@ -457,6 +491,7 @@ export async function saveVerse(
     chapter: verse.chapter,
     verseStart: verse.verseStart,
     verseEnd: verse.verseEnd,
+    segments: segments ?? undefined,
     version,
     createdAt: createdAt.getTime(),
     progress,
@@ -483,7 +518,7 @@ export async function deleteVerse(id: string, collectionId: string): Promise<{ w
     return { wasMastered: false };
   }
 
-  const isMastered = verse?.progress?.hard?.completed === true;
+  const isMastered = isVerseMastered(verse?.progress);
 
   // Get collection server ID
   const { data: collection } = await supabase
@@ -564,7 +599,7 @@ export async function updateVerseProgress(
   }
 
   const currentProgress = verse.progress || DEFAULT_PROGRESS;
-  const currentBest = currentProgress[difficulty]?.bestAccuracy;
+  const currentBest = getDifficultyProgress(currentProgress, difficulty).bestAccuracy;
 
   // Only update if this is a new best score
   if (currentBest === null || accuracy > currentBest) {
@@ -590,7 +625,7 @@ export async function updateVerseProgress(
 // ============ MASTERED VERSES ============
 
 /**
- * Get all mastered verses (hard mode completed)
+ * Get all mastered verses (mastery mode completed)
  * Includes soft-deleted verses - mastery is permanent
  */
 export async function getMasteredVerses(): Promise<SavedVerse[]> {
@@ -598,7 +633,7 @@ export async function getMasteredVerses(): Promise<SavedVerse[]> {
     const { data, error } = await supabase
       .from('user_verses')
       .select('*')
-      .eq('progress->hard->completed', true)
+      .eq(`progress->${MASTERY_DIFFICULTY}->completed`, true)
       .order('updated_at', { ascending: false });
 
     if (error) {
@@ -613,6 +648,7 @@ export async function getMasteredVerses(): Promise<SavedVerse[]> {
       chapter: v.chapter,
       verseStart: v.verse_start,
       verseEnd: v.verse_end,
+      segments: v.segments ?? undefined,
       version: v.version as BibleVersion,
       createdAt: new Date(v.created_at).getTime(),
       progress: v.progress || DEFAULT_PROGRESS,
@@ -630,7 +666,7 @@ export async function getMasteredVerseCount(): Promise<number> {
   const { count, error } = await supabase
     .from('user_verses')
     .select('*', { count: 'exact', head: true })
-    .eq('progress->hard->completed', true);
+    .eq(`progress->${MASTERY_DIFFICULTY}->completed`, true);
 
   if (error) {
     console.error('[STORAGE] Failed to count mastered verses:', error);
@@ -658,9 +694,9 @@ export async function resetVerseProgress(id: string): Promise<void> {
 
 // ============ UTILITY FUNCTIONS ============
 
-export function formatVerseReference(verse: SavedVerse): string {
-  if (verse.verseStart === verse.verseEnd) {
-    return `${verse.book} ${verse.chapter}:${verse.verseStart}`;
-  }
-  return `${verse.book} ${verse.chapter}:${verse.verseStart}-${verse.verseEnd}`;
+/**
+ * Reference for display, with the book named in the verse's language
+ */
+export function formatVerseReference(verse: PassageLocation & { version?: string }): string {
+  return formatPassage(verse, getVersionLanguage(verse.version));
 }
@@ -2,25 +2,52 @@
  * Zustand Store for User Data
  *
  * Centralized state management for collections and verses.
- * Data is fetched from Supabase and cached in memory.
+ * Local-first: state is persisted on the device and every change applies
+ * locally before it is queued for Supabase (see ./outbox.ts).
  * Components subscribe and auto-update when data changes.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import { supabase } from '@/lib/api/client';
-import { ensureAuth } from '@/lib/api';
-import type { Collection, SavedVerse, BibleVersion, Difficulty } from '@/lib/storage';
+import { ensureAuth, getSessionAttempts, logSessionAttempt, type SessionAttemptRecord } from '@/lib/api';
+import type { Collection, CollectionChanges, SavedVerse, BibleVersion, Difficulty, ReviewSchedule, VerseProgress } from '@/lib/storage';
 import { MASTERED_COLLECTION_ID } from '@/lib/storage';
+import {
+  MASTERY_DIFFICULTY,
+  getDifficultyProgress,
+  hasAnyProgress,
+  isVerseMastered,
+} from '@/lib/difficulty';
+import {
+  applyAttempt,
+  computeReviewSchedule,
+  isReviewDue,
+  reviewPriority,
+  INITIAL_REVIEW_SCHEDULE,
+} from '@/lib/review-schedule';
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile, type ScoringProfileId } from '@/lib/scoring';
+import type { InputMode } from '@/lib/study-chunks';
+import { meetsFluencyRequirement, type FluencyMetrics } from '@/lib/fluency';
+import { isSamePassage, segmentsColumn } from '@/lib/bible/passage';
+import {
+  clearOutbox,
+  enqueueMutation,
+  flushOutbox,
+  getPendingMutationCount,
+  setMutationHandler,
+  subscribeToOutbox,
+  type Mutation,
+} from './outbox';
 
 // ============ CONSTANTS ============
 
 const DEFAULT_COLLECTION_ID = 'my-verses';
 
-const DEFAULT_PROGRESS = {
-  easy: { bestAccuracy: null, completed: false },
-  medium: { bestAccuracy: null, completed: false },
-  hard: { bestAccuracy: null, completed: false },
-};
+const STORE_KEY = 'app_store';
+
+const DEFAULT_PROGRESS: VerseProgress = {};
 
 const DEFAULT_COLLECTION: Collection = {
   id: DEFAULT_COLLECTION_ID,
@@ -56,6 +83,9 @@ interface AppState {
   // Error state
   error: string | null;
 
+  // Local changes not yet on the server
+  pendingMutations: number;
+
   // Actions - Fetch
   fetchCollections: () => Promise<boolean>;
   fetchVerses: () => Promise<boolean>;
@@ -65,7 +95,9 @@ interface AppState {
   clearError: () => void;
 
   // Actions - Collections
-  addCollection: (name: string) => Promise<Collection>;
+  addCollection: (name: string, appearance?: Pick<CollectionChanges, 'icon' | 'iconColor'>) => Promise<Collection>;
+  updateCollection: (id: string, changes: CollectionChanges) => Promise<void>;
+  reorderCollections: (order: string[]) => Promise<void>;
   deleteCollection: (id: string) => Promise<void>;
 
   // Actions - Verses
@@ -75,9 +107,37 @@ interface AppState {
     version: BibleVersion
   ) => Promise<SavedVerse>;
   deleteVerse: (id: string, collectionId: string) => Promise<{ wasMastered: boolean }>;
-  updateVerseProgress: (id: string, difficulty: Difficulty, accuracy: number) => Promise<void>;
+  copyVerse: (id: string, toCollectionId: string) => Promise<void>;
+  moveVerse: (id: string, fromCollectionId: string, toCollectionId: string) => Promise<void>;
+  updateVerseProgress: (
+    id: string,
+    difficulty: Difficulty,
+    accuracy: number,
+    profile?: ScoringProfile, // Sets the mastery threshold (defaults to standard)
+    fluency?: FluencyMetrics | null // Checked against the profile's fluency requirement
+  ) => Promise<void>;
   resetVerseProgress: (id: string) => Promise<void>;
 
+  // Actions - Session attempts
+  logAttempt: (
+    verseId: string,
+    attempt: {
+      difficulty: Difficulty;
+      chunkSize: number;
+      accuracy: number;
+      scoringProfile: ScoringProfileId;
+      inputMode: InputMode;
+      recordingDurationMs?: number;
+      fluency?: FluencyMetrics | null;
+      hintCount?: number;
+      attemptedAt?: number; // Defaults to now (set for attempts graded later)
+    }
+  ) => Promise<void>;
+
+  // Actions - Review schedule
+  updateReviewSchedule: (id: string) => Promise<void>;
+  backfillReviewSchedules: () => Promise<void>;
+
   // Reset
   clear: () => void;
 }
@@ -91,9 +151,87 @@ async function getCurrentUserId(): Promise<string> {
   return user.id;
 }
 
+/**
+ * Wait until persisted state has been read back from the device,
+ * so a server fetch can't be overwritten by stale local data
+ */
+async function waitForLocalData(): Promise<void> {
+  if (useAppStore.persist.hasHydrated()) return;
+  await new Promise<void>((resolve) => {
+    const unsubscribe = useAppStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Push queued changes before fetching, so the fetch doesn't overwrite them.
+ * Returns false if changes are still pending (offline) and local data should be kept.
+ */
+async function flushBeforeFetch(): Promise<boolean> {
+  await waitForLocalData();
+  await flushOutbox();
+  const pending = await getPendingMutationCount();
+  if (pending > 0) {
+    console.log(`[STORE] ${pending} local changes pending - keeping local data`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * review_* columns of a user_verses row (numeric columns may arrive as strings)
+ */
+interface ReviewColumns {
+  review_due_at: string | null;
+  review_ease: number | string | null;
+  review_interval_days: number | string | null;
+  review_repetitions: number | null;
+  review_last_at: string | null;
+}
+
+/**
+ * Map review_* columns from a user_verses row
+ */
+function mapReviewSchedule(row: ReviewColumns): ReviewSchedule {
+  return {
+    dueAt: row.review_due_at ? new Date(row.review_due_at).getTime() : null,
+    ease: row.review_ease != null ? Number(row.review_ease) : 2.5,
+    intervalDays: row.review_interval_days != null ? Number(row.review_interval_days) : 0,
+    repetitions: row.review_repetitions ?? 0,
+    lastReviewedAt: row.review_last_at ? new Date(row.review_last_at).getTime() : null,
+  };
+}
+
+/**
+ * Map a ReviewSchedule to review_* columns for user_verses
+ */
+function toReviewColumns(review: ReviewSchedule): ReviewColumns {
+  return {
+    review_due_at: review.dueAt !== null ? new Date(review.dueAt).toISOString() : null,
+    review_ease: review.ease,
+    review_interval_days: review.intervalDays,
+    review_repetitions: review.repetitions,
+    review_last_at: review.lastReviewedAt !== null ? new Date(review.lastReviewedAt).toISOString() : null,
+  };
+}
+
+/**
+ * Replay attempts logged after resetAt into a schedule
+ */
+function scheduleFromAttempts(attempts: SessionAttemptRecord[], resetAt: string | null): ReviewSchedule {
+  const since = resetAt ? new Date(resetAt).getTime() : 0;
+  return computeReviewSchedule(
+    attempts
+      .filter((a) => a.createdAt > since)
+      .map((a) => ({ difficulty: a.difficulty, accuracy: a.accuracy, attemptedAt: a.createdAt }))
+  );
+}
+
 // ============ STORE ============
 
-export const useAppStore = create<AppState>((set, get) => ({
+export const useAppStore = create<AppState>()(persist((set, get) => ({
   // Initial state
   collections: [],
   verses: [],
@@ -103,6 +241,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   versesLoading: true,
   masteredLoading: true,
   error: null,
+  pendingMutations: 0,
 
   // ============ FETCH ACTIONS ============
 
@@ -113,6 +252,7 @@ export const useAppStore = create<AppState>((set, get) => ({
         .from('user_collections')
         .select('*')
         .is('deleted_at', null)
+        .order('sort_order', { ascending: true })
         .order('created_at', { ascending: true });
 
       if (error) {
@@ -122,13 +262,23 @@ export const useAppStore = create<AppState>((set, get) => ({
         return false;
       }
 
-      const collections = data.map((c) => ({
+      const collections: Collection[] = data.map((c) => ({
         id: c.client_id,
         name: c.name,
         isDefault: c.is_default,
+        icon: c.icon ?? undefined,
+        iconColor: c.icon_color ?? undefined,
+        sortOrder: c.sort_order,
         createdAt: new Date(c.created_at).getTime(),
       }));
 
+      // Default collection stays first; only user collections are reordered
+      const defaultCollection = collections.find((c) => c.isDefault);
+      if (defaultCollection) {
+        collections.splice(collections.indexOf(defaultCollection), 1);
+        collections.unshift(defaultCollection);
+      }
+
       // Ensure default collection always exists
       const hasDefault = collections.some((c) => c.isDefault);
       if (!hasDefault) {
@@ -178,9 +328,11 @@ export const useAppStore = create<AppState>((set, get) => ({
         chapter: vc.user_verses.chapter,
         verseStart: vc.user_verses.verse_start,
         verseEnd: vc.user_verses.verse_end,
+        segments: vc.user_verses.segments ?? undefined,
         version: vc.user_verses.version as BibleVersion,
         createdAt: new Date(vc.added_at).getTime(),
         progress: vc.user_verses.progress || DEFAULT_PROGRESS,
+        review: mapReviewSchedule(vc.user_verses),
       }));
 
       set({ verses, versesLoading: false, error: null });
@@ -201,7 +353,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       const { data, error } = await supabase
         .from('user_verses')
         .select('*')
-        .eq('progress->hard->completed', true)
+        .eq(`progress->${MASTERY_DIFFICULTY}->completed`, true)
         .order('updated_at', { ascending: false });
 
       if (error) {
@@ -217,9 +369,11 @@ export const useAppStore = create<AppState>((set, get) => ({
         chapter: v.chapter,
         verseStart: v.verse_start,
         verseEnd: v.verse_end,
+        segments: v.segments ?? undefined,
         version: v.version as BibleVersion,
         createdAt: new Date(v.created_at).getTime(),
         progress: v.progress || DEFAULT_PROGRESS,
+        review: mapReviewSchedule(v),
       }));
 
       set({ masteredVerses, masteredLoading: false });
@@ -233,6 +387,8 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   hydrate: async () => {
     console.log('[STORE] Hydrating...');
+    if (!(await flushBeforeFetch())) return;
+
     const [collectionsOk, versesOk, masteredOk] = await Promise.all([
       get().fetchCollections(),
       get().fetchVerses(),
@@ -242,6 +398,11 @@ export const useAppStore = create<AppState>((set, get) => ({
     if (collectionsOk && versesOk && masteredOk) {
       set({ hydrated: true, error: null });
       console.log('[STORE] Hydrated successfully');
+
+      // Schedule verses practiced before the scheduler existed (fire-and-forget)
+      get().backfillReviewSchedules().catch((e) => {
+        console.error('[STORE] Review backfill error:', e);
+      });
     } else {
       console.log('[STORE] Hydration failed - data may be stale');
     }
@@ -249,6 +410,8 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   refresh: async () => {
     set({ error: null });
+    if (!(await flushBeforeFetch())) return;
+
     await Promise.all([
       get().fetchCollections(),
       get().fetchVerses(),
@@ -262,191 +425,674 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   // ============ COLLECTION ACTIONS ============
 
-  addCollection: async (name: string) => {
-    const userId = await getCurrentUserId();
-    const clientId = `collection-${Date.now()}`;
-    const createdAt = new Date();
-
-    const { error } = await supabase.from('user_collections').insert({
-      user_id: userId,
-      client_id: clientId,
-      name,
-      is_default: false,
-      created_at: createdAt.toISOString(),
-    });
-
-    if (error) {
-      console.error('[STORE] Failed to create collection:', error);
-      throw new Error('Failed to create collection');
-    }
-
+  addCollection: async (name: string, appearance = {}) => {
+    // New collections go to the end of the library
+    const sortOrder = Math.max(0, ...get().collections.map((c) => c.sortOrder ?? 0)) + 1;
     const newCollection: Collection = {
-      id: clientId,
+      id: `collection-${Date.now()}`,
       name,
       isDefault: false,
-      createdAt: createdAt.getTime(),
+      icon: appearance.icon,
+      iconColor: appearance.iconColor,
+      sortOrder,
+      createdAt: Date.now(),
     };
 
-    // Optimistically add to store
+    // Apply locally, then queue for the server
     set((state) => ({
       collections: [...state.collections, newCollection],
     }));
 
+    await enqueueMutation({
+      type: 'addCollection',
+      clientId: newCollection.id,
+      name,
+      icon: appearance.icon,
+      iconColor: appearance.iconColor,
+      sortOrder,
+      createdAt: newCollection.createdAt,
+    });
+
     return newCollection;
   },
 
+  updateCollection: async (id: string, changes: CollectionChanges) => {
+    const collection = get().collections.find((c) => c.id === id);
+    if (!collection || collection.isVirtual) return;
+
+    set((state) => ({
+      collections: state.collections.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    }));
+
+    await enqueueMutation({ type: 'updateCollection', clientId: id, changes });
+  },
+
+  reorderCollections: async (order: string[]) => {
+    // Pinned collections (default, Mastered) keep their place ahead of the rest
+    const position = new Map(order.map((id, index) => [id, index + 1]));
+
+    set((state) => {
+      const pinned = state.collections.filter((c) => c.isDefault || c.isVirtual);
+      const ordered = state.collections
+        .filter((c) => position.has(c.id) && !c.isDefault && !c.isVirtual)
+        .map((c) => ({ ...c, sortOrder: position.get(c.id) }))
+        .sort((a, b) => a.sortOrder! - b.sortOrder!);
+      const rest = state.collections.filter(
+        (c) => !position.has(c.id) && !c.isDefault && !c.isVirtual
+      );
+      return { collections: [...pinned, ...ordered, ...rest] };
+    });
+
+    await enqueueMutation({ type: 'reorderCollections', order });
+  },
+
   deleteCollection: async (id: string) => {
     if (id === DEFAULT_COLLECTION_ID) return;
 
-    // Get server UUID for this collection
-    const { data: collection, error: collectionError } = await supabase
-      .from('user_collections')
-      .select('id')
-      .eq('client_id', id)
-      .is('deleted_at', null)
-      .single();
+    // Move verses to the default collection (dropping ones already there)
+    set((state) => {
+      const inDefault = new Set(
+        state.verses.filter((v) => v.collectionId === DEFAULT_COLLECTION_ID).map((v) => v.id)
+      );
+      return {
+        collections: state.collections.filter((c) => c.id !== id),
+        verses: state.verses
+          .filter((v) => !(v.collectionId === id && inDefault.has(v.id)))
+          .map((v) => (v.collectionId === id ? { ...v, collectionId: DEFAULT_COLLECTION_ID } : v)),
+      };
+    });
+
+    await enqueueMutation({ type: 'deleteCollection', clientId: id });
+  },
+
+  // ============ VERSE ACTIONS ============
+
+  addVerse: async (verse, collectionId, version) => {
+    const isSameVerse = (v: SavedVerse) => isSamePassage(v, verse) && v.version === version;
+
+    const { verses, masteredVerses } = get();
+
+    const alreadyInCollection = verses.find((v) => isSameVerse(v) && v.collectionId === collectionId);
+    if (alreadyInCollection) return alreadyInCollection;
+
+    // Reuse the verse if it's in another collection (or soft-deleted but mastered)
+    const existing = verses.find(isSameVerse) || masteredVerses.find(isSameVerse);
+    const createdAt = Date.now();
+
+    const resultVerse: SavedVerse = {
+      id: existing?.id ?? `${verse.book}-${verse.chapter}-${verse.verseStart}-${verse.verseEnd}-${createdAt}`,
+      collectionId,
+      book: verse.book,
+      chapter: verse.chapter,
+      verseStart: verse.verseStart,
+      verseEnd: verse.verseEnd,
+      segments: segmentsColumn(verse) ?? undefined,
+      version,
+      createdAt,
+      progress: existing?.progress ?? DEFAULT_PROGRESS,
+      review: existing?.review,
+    };
+
+    set((state) => ({
+      verses: [resultVerse, ...state.verses],
+    }));
+
+    await enqueueMutation({
+      type: 'addVerse',
+      clientId: resultVerse.id,
+      collectionId,
+      book: verse.book,
+      chapter: verse.chapter,
+      verseStart: verse.verseStart,
+      verseEnd: verse.verseEnd,
+      segments: resultVerse.segments,
+      version,
+      createdAt,
+    });
+
+    return resultVerse;
+  },
+
+  deleteVerse: async (id: string, collectionId: string): Promise<{ wasMastered: boolean }> => {
+    // Get verse info
+    const verse = get().verses.find((v) => v.id === id);
+    const isMastered = isVerseMastered(verse?.progress);
+
+    // Remove from this collection (mastered verses stay in the Mastered list)
+    set((state) => ({
+      verses: state.verses.filter((v) => !(v.id === id && v.collectionId === collectionId)),
+    }));
+
+    await enqueueMutation({
+      type: 'removeVerse',
+      clientId: id,
+      collectionId,
+      wasMastered: isMastered,
+    });
+
+    return { wasMastered: isMastered };
+  },
+
+  copyVerse: async (id: string, toCollectionId: string) => {
+    const { verses } = get();
+    const verse = verses.find((v) => v.id === id);
+    if (!verse || verses.some((v) => v.id === id && v.collectionId === toCollectionId)) return;
+
+    const addedAt = Date.now();
+    set((state) => ({
+      verses: [{ ...verse, collectionId: toCollectionId, createdAt: addedAt }, ...state.verses],
+    }));
+
+    await enqueueMutation({ type: 'copyVerse', clientId: id, collectionId: toCollectionId, addedAt });
+  },
+
+  moveVerse: async (id: string, fromCollectionId: string, toCollectionId: string) => {
+    if (fromCollectionId === toCollectionId) return;
+
+    const { verses } = get();
+    const verse = verses.find((v) => v.id === id && v.collectionId === fromCollectionId);
+    if (!verse) return;
+
+    // Already in the target collection - moving just leaves this one
+    const inTarget = verses.some((v) => v.id === id && v.collectionId === toCollectionId);
+    const addedAt = Date.now();
+
+    set((state) => ({
+      verses: inTarget
+        ? state.verses.filter((v) => v !== verse)
+        : state.verses.map((v) => (v === verse ? { ...v, collectionId: toCollectionId, createdAt: addedAt } : v)),
+    }));
+
+    await enqueueMutation({
+      type: 'moveVerse',
+      clientId: id,
+      fromCollectionId,
+      toCollectionId,
+      addedAt,
+    });
+  },
+
+  updateVerseProgress: async (
+    id: string,
+    difficulty: Difficulty,
+    accuracy: number,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    fluency?: FluencyMetrics | null
+  ) => {
+    // Get current verse from store
+    const verse = get().verses.find((v) => v.id === id);
+    if (!verse) return;
+
+    const current = getDifficultyProgress(verse.progress, difficulty);
+    const currentBest = current.bestAccuracy;
+    const completed = accuracy >= profile.masteryThreshold && meetsFluencyRequirement(fluency, profile);
+
+    // Only update on a new best score, or a score that completes this level
+    // under the current profile's threshold
+    if (currentBest === null || accuracy > currentBest || (completed && !current.completed)) {
+      const newProgress: VerseProgress = {
+        ...verse.progress,
+        [difficulty]: {
+          bestAccuracy: currentBest === null ? accuracy : Math.max(accuracy, currentBest),
+          completed: completed || current.completed,
+        },
+      };
 
-    if (collectionError || !collection) {
-      console.error('[STORE] Collection not found for deletion:', id);
-      throw new Error('Collection not found');
+      // Update in store (a newly mastered verse joins the Mastered list)
+      set((state) => {
+        const inMastered = state.masteredVerses.some((v) => v.id === id);
+        let masteredVerses = state.masteredVerses.map((v) =>
+          v.id === id ? { ...v, progress: newProgress } : v
+        );
+        if (!inMastered && isVerseMastered(newProgress)) {
+          masteredVerses = [
+            { ...verse, progress: newProgress, collectionId: MASTERED_COLLECTION_ID },
+            ...masteredVerses,
+          ];
+        }
+
+        return {
+          verses: state.verses.map((v) =>
+            v.id === id ? { ...v, progress: newProgress } : v
+          ),
+          masteredVerses,
+        };
+      });
+
+      await enqueueMutation({ type: 'updateProgress', clientId: id, progress: newProgress });
     }
+  },
+
+  resetVerseProgress: async (id: string) => {
+    set((state) => ({
+      verses: state.verses.map((v) =>
+        v.id === id ? { ...v, progress: DEFAULT_PROGRESS, review: INITIAL_REVIEW_SCHEDULE } : v
+      ),
+      masteredVerses: state.masteredVerses.filter((v) => v.id !== id),
+    }));
+
+    await enqueueMutation({ type: 'resetProgress', clientId: id, resetAt: Date.now() });
+  },
+
+  // ============ SESSION ATTEMPT ACTIONS ============
+
+  logAttempt: async (verseId, { attemptedAt, ...attempt }) => {
+    const verse =
+      get().verses.find((v) => v.id === verseId) ||
+      get().masteredVerses.find((v) => v.id === verseId);
+    if (!verse) return;
+
+    const createdAt = attemptedAt ?? Date.now();
+
+    // Schedule locally right away; the server recomputes from full history once the attempt lands
+    const review = applyAttempt(verse.review ?? INITIAL_REVIEW_SCHEDULE, {
+      difficulty: attempt.difficulty,
+      accuracy: attempt.accuracy,
+      attemptedAt: createdAt,
+    });
+
+    set((state) => ({
+      verses: state.verses.map((v) => (v.id === verseId ? { ...v, review } : v)),
+      masteredVerses: state.masteredVerses.map((v) => (v.id === verseId ? { ...v, review } : v)),
+    }));
 
-    // Get default collection server ID FIRST (before deleting)
-    const { data: defaultCollection, error: defaultError } = await supabase
-      .from('user_collections')
-      .select('id')
-      .eq('client_id', DEFAULT_COLLECTION_ID)
-      .is('deleted_at', null)
+    await enqueueMutation({
+      type: 'logAttempt',
+      clientId: `attempt-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+      verseId,
+      book: verse.book,
+      chapter: verse.chapter,
+      verseStart: verse.verseStart,
+      verseEnd: verse.verseEnd,
+      segments: verse.segments,
+      version: verse.version,
+      ...attempt,
+      createdAt,
+    });
+  },
+
+  // ============ REVIEW SCHEDULE ACTIONS ============
+
+  updateReviewSchedule: async (id: string) => {
+    const verse =
+      get().verses.find((v) => v.id === id) ||
+      get().masteredVerses.find((v) => v.id === id);
+    if (!verse) return;
+
+    const { data: row, error: fetchError } = await supabase
+      .from('user_verses')
+      .select('review_reset_at')
+      .eq('client_id', id)
       .single();
 
-    if (defaultError || !defaultCollection) {
-      console.error('[STORE] Default collection not found, cannot reassign verses');
-      throw new Error('Cannot delete collection: default collection not found');
+    if (fetchError || !row) {
+      console.error('[STORE] Failed to fetch review state:', fetchError);
+      return;
     }
 
-    // Soft-delete the collection
-    const { error: deleteError } = await supabase
-      .from('user_collections')
-      .update({ deleted_at: new Date().toISOString() })
-      .eq('id', collection.id);
+    const attempts = await getSessionAttempts(verse);
+    const review = scheduleFromAttempts(attempts, row.review_reset_at);
 
-    if (deleteError) {
-      console.error('[STORE] Failed to delete collection:', deleteError);
-      throw new Error('Failed to delete collection');
+    const { error } = await supabase
+      .from('user_verses')
+      .update(toReviewColumns(review))
+      .eq('client_id', id);
+
+    if (error) {
+      console.error('[STORE] Failed to update review schedule:', error);
+      return;
     }
 
-    // Move verses to default collection on server
-    const { error: moveError } = await supabase
+    set((state) => ({
+      verses: state.verses.map((v) => (v.id === id ? { ...v, review } : v)),
+      masteredVerses: state.masteredVerses.map((v) => (v.id === id ? { ...v, review } : v)),
+    }));
+  },
+
+  backfillReviewSchedules: async () => {
+    // Verses that have never been scheduled
+    const { data: pending, error } = await supabase
       .from('user_verses')
-      .update({ collection_id: defaultCollection.id })
-      .eq('collection_id', collection.id)
+      .select('client_id, book, chapter, verse_start, verse_end, segments, version, review_reset_at')
+      .is('review_last_at', null)
       .is('deleted_at', null);
 
-    if (moveError) {
-      console.error('[STORE] Failed to move verses to default collection:', moveError);
-      // Collection is already deleted, but verses weren't moved - this is a problem
-      // Refresh to get correct server state
-      get().refresh();
-      throw new Error('Collection deleted but failed to move verses');
+    if (error) {
+      console.error('[STORE] Failed to fetch unscheduled verses:', error);
+      return;
+    }
+    if (!pending || pending.length === 0) return;
+
+    const attempts = await getSessionAttempts();
+    if (attempts.length === 0) return;
+
+    const updated = new Map<string, ReviewSchedule>();
+    for (const row of pending) {
+      const location = {
+        book: row.book,
+        chapter: row.chapter,
+        verseStart: row.verse_start,
+        verseEnd: row.verse_end,
+        segments: row.segments ?? undefined,
+      };
+      const verseAttempts = attempts.filter(
+        (a) => isSamePassage(a, location) && a.version === row.version
+      );
+      if (verseAttempts.length === 0) continue;
+
+      const review = scheduleFromAttempts(verseAttempts, row.review_reset_at);
+      if (review.lastReviewedAt === null) continue;
+
+      const { error: updateError } = await supabase
+        .from('user_verses')
+        .update(toReviewColumns(review))
+        .eq('client_id', row.client_id);
+
+      if (updateError) {
+        console.error('[STORE] Failed to backfill review schedule:', updateError);
+        continue;
+      }
+      updated.set(row.client_id, review);
     }
 
-    // Update local state
+    if (updated.size === 0) return;
+    console.log(`[STORE] Backfilled review schedule for ${updated.size} verses`);
+
     set((state) => ({
-      collections: state.collections.filter((c) => c.id !== id),
-      verses: state.verses.map((v) =>
-        v.collectionId === id ? { ...v, collectionId: DEFAULT_COLLECTION_ID } : v
+      verses: state.verses.map((v) => (updated.has(v.id) ? { ...v, review: updated.get(v.id) } : v)),
+      masteredVerses: state.masteredVerses.map((v) =>
+        updated.has(v.id) ? { ...v, review: updated.get(v.id) } : v
       ),
     }));
   },
 
-  // ============ VERSE ACTIONS ============
+  // ============ RESET ============
 
-  addVerse: async (verse, collectionId, version) => {
-    const userId = await getCurrentUserId();
-    const createdAt = new Date();
-
-    // Get server collection ID
-    let serverCollectionId: string;
-    const { data: collection } = await supabase
-      .from('user_collections')
-      .select('id')
-      .eq('client_id', collectionId)
-      .is('deleted_at', null)
-      .single();
+  clear: () => {
+    // Pending changes belong to the signed-out user
+    clearOutbox().catch((e) => console.error('[STORE] Failed to clear outbox:', e));
+    set({
+      collections: [],
+      verses: [],
+      masteredVerses: [],
+      hydrated: false,
+      collectionsLoading: true,
+      versesLoading: true,
+      masteredLoading: true,
+      error: null,
+      pendingMutations: 0,
+    });
+  },
+}), {
+  name: STORE_KEY,
+  storage: createJSONStorage(() => AsyncStorage),
+  partialize: (state) => ({
+    collections: state.collections,
+    verses: state.verses,
+    masteredVerses: state.masteredVerses,
+  }),
+  onRehydrateStorage: () => (state) => {
+    // Cached data is good enough to render while offline
+    if (state && state.collections.length > 0) {
+      useAppStore.setState({
+        hydrated: true,
+        collectionsLoading: false,
+        versesLoading: false,
+        masteredLoading: false,
+      });
+    }
+  },
+}));
 
-    if (collection) {
-      serverCollectionId = collection.id;
-    } else {
-      // Ensure default collection exists
-      const { data: defaultColl } = await supabase
+// ============ SERVER WRITES (OUTBOX) ============
+
+/**
+ * Look up a live collection's server UUID. Throws on network errors.
+ */
+async function getServerCollectionId(clientId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('user_collections')
+    .select('id')
+    .eq('client_id', clientId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[STORE] Failed to look up collection:', error);
+    throw new Error('Failed to look up collection');
+  }
+  return data?.id ?? null;
+}
+
+/**
+ * Server UUID for a collection, falling back to (and creating) the default
+ * collection if it no longer exists
+ */
+async function ensureServerCollection(userId: string, clientId: string): Promise<string> {
+  const collectionId = await getServerCollectionId(clientId);
+  if (collectionId) return collectionId;
+
+  if (clientId !== DEFAULT_COLLECTION_ID) {
+    return ensureServerCollection(userId, DEFAULT_COLLECTION_ID);
+  }
+
+  const { data, error } = await supabase
+    .from('user_collections')
+    .upsert(
+      {
+        user_id: userId,
+        client_id: DEFAULT_COLLECTION_ID,
+        name: 'My Verses',
+        is_default: true,
+        created_at: new Date(0).toISOString(),
+        deleted_at: null,
+      },
+      { onConflict: 'user_id,client_id' }
+    )
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[STORE] Failed to create default collection:', error);
+    throw new Error('Failed to create default collection');
+  }
+  return data.id;
+}
+
+/**
+ * Write one queued mutation to Supabase. Safe to replay.
+ */
+async function applyMutation(mutation: Mutation): Promise<void> {
+  const userId = await getCurrentUserId();
+
+  switch (mutation.type) {
+    case 'addCollection': {
+      const { error } = await supabase.from('user_collections').upsert(
+        {
+          user_id: userId,
+          client_id: mutation.clientId,
+          name: mutation.name,
+          is_default: false,
+          icon: mutation.icon ?? null,
+          icon_color: mutation.iconColor ?? null,
+          sort_order: mutation.sortOrder ?? 0,
+          created_at: new Date(mutation.createdAt).toISOString(),
+        },
+        { onConflict: 'user_id,client_id', ignoreDuplicates: true }
+      );
+
+      if (error) {
+        console.error('[STORE] Failed to create collection:', error);
+        throw new Error('Failed to create collection');
+      }
+      return;
+    }
+
+    case 'updateCollection': {
+      const { name, icon, iconColor } = mutation.changes;
+      const { error } = await supabase
         .from('user_collections')
-        .select('id')
-        .eq('client_id', DEFAULT_COLLECTION_ID)
-        .is('deleted_at', null)
-        .single();
+        .update({
+          ...(name !== undefined && { name }),
+          ...(icon !== undefined && { icon }),
+          ...(iconColor !== undefined && { icon_color: iconColor }),
+        })
+        .eq('client_id', mutation.clientId)
+        .is('deleted_at', null);
 
-      if (defaultColl) {
-        serverCollectionId = defaultColl.id;
-      } else {
-        // Create default collection
-        const { data: newDefault, error: createError } = await supabase
+      if (error) {
+        console.error('[STORE] Failed to update collection:', error);
+        throw new Error('Failed to update collection');
+      }
+      return;
+    }
+
+    case 'reorderCollections': {
+      // One row per collection; collections deleted since are skipped by the filter
+      for (const [index, clientId] of mutation.order.entries()) {
+        const { error } = await supabase
           .from('user_collections')
-          .insert({
-            user_id: userId,
-            client_id: DEFAULT_COLLECTION_ID,
-            name: 'My Verses',
-            is_default: true,
-            created_at: new Date(0).toISOString(),
-          })
-          .select('id')
-          .single();
+          .update({ sort_order: index + 1 })
+          .eq('client_id', clientId)
+          .is('deleted_at', null);
 
-        if (createError || !newDefault) {
-          throw new Error('Failed to create default collection');
+        if (error) {
+          console.error('[STORE] Failed to reorder collections:', error);
+          throw new Error('Failed to reorder collections');
         }
-        serverCollectionId = newDefault.id;
       }
+      return;
     }
 
-    // Check if verse already exists (including soft-deleted)
-    const { data: existing } = await supabase
-      .from('user_verses')
-      .select('id, client_id, deleted_at, progress')
-      .eq('user_id', userId)
-      .eq('book', verse.book)
-      .eq('chapter', verse.chapter)
-      .eq('verse_start', verse.verseStart)
-      .eq('verse_end', verse.verseEnd)
-      .eq('version', version)
-      .maybeSingle();
-
-    let verseId: string;
-    let clientId: string;
-    let progress = DEFAULT_PROGRESS;
-
-    if (existing) {
-      verseId = existing.id;
-      clientId = existing.client_id;
-      progress = existing.progress || DEFAULT_PROGRESS;
-
-      // Restore if soft-deleted
-      if (existing.deleted_at) {
-        const { error: restoreError } = await supabase
+    case 'deleteCollection': {
+      const collectionId = await getServerCollectionId(mutation.clientId);
+      if (!collectionId) return; // Already deleted
+
+      // Get default collection server ID FIRST (before deleting)
+      const defaultId = await ensureServerCollection(userId, DEFAULT_COLLECTION_ID);
+
+      // Move memberships to the default collection
+      const { data: memberships, error: listError } = await supabase
+        .from('verse_collections')
+        .select('verse_id')
+        .eq('collection_id', collectionId);
+
+      if (listError) {
+        console.error('[STORE] Failed to list collection verses:', listError);
+        throw new Error('Failed to delete collection');
+      }
+
+      if (memberships.length > 0) {
+        const { error: moveError } = await supabase
+          .from('verse_collections')
+          .upsert(
+            memberships.map((m) => ({ verse_id: m.verse_id, collection_id: defaultId })),
+            { onConflict: 'verse_id,collection_id', ignoreDuplicates: true }
+          );
+
+        if (moveError) {
+          console.error('[STORE] Failed to move verses to default collection:', moveError);
+          throw new Error('Failed to delete collection');
+        }
+
+        const { error: unlinkError } = await supabase
+          .from('verse_collections')
+          .delete()
+          .eq('collection_id', collectionId);
+
+        if (unlinkError) {
+          console.error('[STORE] Failed to unlink collection verses:', unlinkError);
+          throw new Error('Failed to delete collection');
+        }
+      }
+
+      // Soft-delete the collection
+      const { error: deleteError } = await supabase
+        .from('user_collections')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', collectionId);
+
+      if (deleteError) {
+        console.error('[STORE] Failed to delete collection:', deleteError);
+        throw new Error('Failed to delete collection');
+      }
+      return;
+    }
+
+    case 'addVerse': {
+      const collectionId = await ensureServerCollection(userId, mutation.collectionId);
+      const addedAt = new Date(mutation.createdAt).toISOString();
+
+      // Check if verse already exists (including soft-deleted)
+      const segments = mutation.segments ?? null;
+      let existingQuery = supabase
+        .from('user_verses')
+        .select('id, deleted_at')
+        .eq('user_id', userId)
+        .eq('book', mutation.book)
+        .eq('chapter', mutation.chapter)
+        .eq('verse_start', mutation.verseStart)
+        .eq('verse_end', mutation.verseEnd)
+        .eq('version', mutation.version);
+      existingQuery = segments
+        ? existingQuery.eq('segments', JSON.stringify(segments))
+        : existingQuery.is('segments', null);
+      const { data: existing, error: existingError } = await existingQuery
+        .order('deleted_at', { ascending: false, nullsFirst: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error('[STORE] Failed to look up verse:', existingError);
+        throw new Error('Failed to save verse');
+      }
+
+      let verseId: string;
+      if (existing) {
+        verseId = existing.id;
+
+        // Restore if soft-deleted
+        if (existing.deleted_at) {
+          const { error: restoreError } = await supabase
+            .from('user_verses')
+            .update({ deleted_at: null })
+            .eq('id', existing.id);
+
+          if (restoreError) {
+            console.error('[STORE] Failed to restore verse:', restoreError);
+            throw new Error('Failed to restore verse');
+          }
+        }
+      } else {
+        const { data: newVerse, error: insertError } = await supabase
           .from('user_verses')
-          .update({ deleted_at: null })
-          .eq('id', existing.id);
+          .insert({
+            user_id: userId,
+            client_id: mutation.clientId,
+            book: mutation.book,
+            chapter: mutation.chapter,
+            verse_start: mutation.verseStart,
+            verse_end: mutation.verseEnd,
+            segments,
+            version: mutation.version,
+            progress: DEFAULT_PROGRESS,
+            created_at: addedAt,
+          })
+          .select('id')
+          .single();
 
-        if (restoreError) {
-          console.error('[STORE] Failed to restore verse:', restoreError);
-          throw new Error('Failed to restore verse');
+        if (insertError || !newVerse) {
+          console.error('[STORE] Failed to save verse:', insertError);
+          throw new Error('Failed to save verse');
         }
+        verseId = newVerse.id;
       }
 
       // Add to collection via junction table (ignore if already exists)
       const { error: junctionError } = await supabase
         .from('verse_collections')
         .upsert(
-          { verse_id: existing.id, collection_id: serverCollectionId, added_at: createdAt.toISOString() },
+          { verse_id: verseId, collection_id: collectionId, added_at: addedAt },
           { onConflict: 'verse_id,collection_id', ignoreDuplicates: true }
         );
 
@@ -454,217 +1100,182 @@ export const useAppStore = create<AppState>((set, get) => ({
         console.error('[STORE] Failed to add verse to collection:', junctionError);
         throw new Error('Failed to add verse to collection');
       }
-    } else {
-      // Create new verse
-      clientId = `${verse.book}-${verse.chapter}-${verse.verseStart}-${verse.verseEnd}-${Date.now()}`;
+      return;
+    }
 
-      const { data: newVerse, error: insertError } = await supabase
+    case 'removeVerse': {
+      const { data: verseData, error: verseError } = await supabase
         .from('user_verses')
-        .insert({
-          user_id: userId,
-          client_id: clientId,
-          book: verse.book,
-          chapter: verse.chapter,
-          verse_start: verse.verseStart,
-          verse_end: verse.verseEnd,
-          version,
-          progress: DEFAULT_PROGRESS,
-          created_at: createdAt.toISOString(),
-        })
         .select('id')
-        .single();
+        .eq('client_id', mutation.clientId)
+        .maybeSingle();
 
-      if (insertError || !newVerse) {
-        console.error('[STORE] Failed to save verse:', insertError);
-        throw new Error('Failed to save verse');
+      if (verseError) {
+        console.error('[STORE] Failed to look up verse:', verseError);
+        throw new Error('Failed to remove verse');
       }
 
-      verseId = newVerse.id;
+      const collectionId = await getServerCollectionId(mutation.collectionId);
+      if (!verseData || !collectionId) return; // Already gone
 
-      // Add to collection via junction table
+      // Remove from junction table (remove from this collection)
       const { error: junctionError } = await supabase
         .from('verse_collections')
-        .insert({ verse_id: newVerse.id, collection_id: serverCollectionId, added_at: createdAt.toISOString() });
+        .delete()
+        .eq('verse_id', verseData.id)
+        .eq('collection_id', collectionId);
 
       if (junctionError) {
-        console.error('[STORE] Failed to add verse to collection:', junctionError);
-        throw new Error('Failed to add verse to collection');
+        console.error('[STORE] Failed to remove verse from collection:', junctionError);
+        throw new Error('Failed to remove verse from collection');
       }
-    }
-
-    const resultVerse: SavedVerse = {
-      id: clientId,
-      collectionId,
-      book: verse.book,
-      chapter: verse.chapter,
-      verseStart: verse.verseStart,
-      verseEnd: verse.verseEnd,
-      version,
-      createdAt: createdAt.getTime(),
-      progress,
-    };
 
-    // Refresh verses and mastered verses to get latest state
-    await Promise.all([
-      get().fetchVerses(),
-      get().fetchMasteredVerses(),
-    ]);
+      // Check if verse is still in any other collections
+      const { count, error: countError } = await supabase
+        .from('verse_collections')
+        .select('*', { count: 'exact', head: true })
+        .eq('verse_id', verseData.id);
 
-    return resultVerse;
-  },
+      if (countError) {
+        console.error('[STORE] Failed to count verse collections:', countError);
+        throw new Error('Failed to remove verse');
+      }
 
-  deleteVerse: async (id: string, collectionId: string): Promise<{ wasMastered: boolean }> => {
-    // Get verse info
-    const verse = get().verses.find((v) => v.id === id);
-    const isMastered = verse?.progress?.hard?.completed === true;
+      if (count === 0) {
+        // No collections left - soft delete if mastered (keep for Mastered list), hard delete otherwise
+        const { error } = mutation.wasMastered
+          ? await supabase
+              .from('user_verses')
+              .update({ deleted_at: new Date().toISOString() })
+              .eq('id', verseData.id)
+          : await supabase.from('user_verses').delete().eq('id', verseData.id);
 
-    // Get server IDs for verse and collection
-    const { data: verseData } = await supabase
-      .from('user_verses')
-      .select('id')
-      .eq('client_id', id)
-      .single();
+        if (error) {
+          console.error('[STORE] Failed to delete verse:', error);
+          throw new Error('Failed to delete verse');
+        }
+      }
+      return;
+    }
 
-    const { data: collectionData } = await supabase
-      .from('user_collections')
-      .select('id')
-      .eq('client_id', collectionId)
-      .single();
+    case 'copyVerse':
+    case 'moveVerse': {
+      const { data: verseData, error: verseError } = await supabase
+        .from('user_verses')
+        .select('id')
+        .eq('client_id', mutation.clientId)
+        .maybeSingle();
 
-    if (!verseData || !collectionData) {
-      console.error('[STORE] Verse or collection not found');
-      return { wasMastered: isMastered };
-    }
+      if (verseError) {
+        console.error('[STORE] Failed to look up verse:', verseError);
+        throw new Error('Failed to update verse collections');
+      }
+      if (!verseData) return; // Deleted since
 
-    // Remove from junction table (remove from this collection)
-    const { error: junctionError } = await supabase
-      .from('verse_collections')
-      .delete()
-      .eq('verse_id', verseData.id)
-      .eq('collection_id', collectionData.id);
+      const toCollectionId = await ensureServerCollection(
+        userId,
+        mutation.type === 'copyVerse' ? mutation.collectionId : mutation.toCollectionId
+      );
 
-    if (junctionError) {
-      console.error('[STORE] Failed to remove verse from collection:', junctionError);
-      return { wasMastered: isMastered };
-    }
+      // Add to the target first, so the verse never ends up in no collection
+      const { error: linkError } = await supabase
+        .from('verse_collections')
+        .upsert(
+          {
+            verse_id: verseData.id,
+            collection_id: toCollectionId,
+            added_at: new Date(mutation.addedAt).toISOString(),
+          },
+          { onConflict: 'verse_id,collection_id', ignoreDuplicates: true }
+        );
 
-    // Check if verse is still in any other collections
-    const { count } = await supabase
-      .from('verse_collections')
-      .select('*', { count: 'exact', head: true })
-      .eq('verse_id', verseData.id);
+      if (linkError) {
+        console.error('[STORE] Failed to add verse to collection:', linkError);
+        throw new Error('Failed to add verse to collection');
+      }
 
-    if (count === 0) {
-      // No collections left - delete or soft-delete the verse itself
-      if (isMastered) {
-        // Soft delete - keep for Mastered list
-        const { error } = await supabase
-          .from('user_verses')
-          .update({ deleted_at: new Date().toISOString() })
-          .eq('id', verseData.id);
+      if (mutation.type === 'moveVerse') {
+        const fromCollectionId = await getServerCollectionId(mutation.fromCollectionId);
+        if (!fromCollectionId || fromCollectionId === toCollectionId) return;
 
-        if (error) {
-          console.error('[STORE] Failed to soft delete verse:', error);
-        }
-      } else {
-        // Hard delete - remove completely
-        const { error } = await supabase
-          .from('user_verses')
+        const { error: unlinkError } = await supabase
+          .from('verse_collections')
           .delete()
-          .eq('id', verseData.id);
+          .eq('verse_id', verseData.id)
+          .eq('collection_id', fromCollectionId);
 
-        if (error) {
-          console.error('[STORE] Failed to hard delete verse:', error);
+        if (unlinkError) {
+          console.error('[STORE] Failed to remove verse from collection:', unlinkError);
+          throw new Error('Failed to move verse');
         }
       }
+      return;
     }
 
-    // Refresh verses and mastered verses
-    await Promise.all([
-      get().fetchVerses(),
-      get().fetchMasteredVerses(),
-    ]);
-
-    return { wasMastered: isMastered };
-  },
-
-  updateVerseProgress: async (id: string, difficulty: Difficulty, accuracy: number) => {
-    // Get current verse from store
-    const verse = get().verses.find((v) => v.id === id);
-    if (!verse) return;
-
-    const currentBest = verse.progress[difficulty]?.bestAccuracy;
-
-    // Only update if this is a new best score
-    if (currentBest === null || accuracy > currentBest) {
-      const newProgress = {
-        ...verse.progress,
-        [difficulty]: {
-          bestAccuracy: accuracy,
-          completed: accuracy >= 90,
-        },
-      };
-
-      // Update on server
+    case 'updateProgress': {
       const { error } = await supabase
         .from('user_verses')
-        .update({ progress: newProgress })
-        .eq('client_id', id);
+        .update({ progress: mutation.progress })
+        .eq('client_id', mutation.clientId);
 
       if (error) {
         console.error('[STORE] Failed to update progress:', error);
-        return;
+        throw new Error('Failed to update progress');
       }
-
-      // Update in store
-      set((state) => ({
-        verses: state.verses.map((v) =>
-          v.id === id ? { ...v, progress: newProgress } : v
-        ),
-      }));
+      return;
     }
-  },
 
-  resetVerseProgress: async (id: string) => {
-    const DEFAULT_PROGRESS = {
-      easy: { bestAccuracy: null, completed: false },
-      medium: { bestAccuracy: null, completed: false },
-      hard: { bestAccuracy: null, completed: false },
-    };
-
-    // Update on server
-    const { error } = await supabase
-      .from('user_verses')
-      .update({ progress: DEFAULT_PROGRESS })
-      .eq('client_id', id);
+    case 'resetProgress': {
+      // Earlier attempts no longer count toward the review schedule
+      const { error } = await supabase
+        .from('user_verses')
+        .update({
+          progress: DEFAULT_PROGRESS,
+          ...toReviewColumns(INITIAL_REVIEW_SCHEDULE),
+          review_reset_at: new Date(mutation.resetAt).toISOString(),
+        })
+        .eq('client_id', mutation.clientId);
 
-    if (error) {
-      console.error('[STORE] Failed to reset progress:', error);
+      if (error) {
+        console.error('[STORE] Failed to reset progress:', error);
+        throw new Error('Failed to reset progress');
+      }
       return;
     }
 
-    // Refresh verses and mastered verses to reflect changes
-    await Promise.all([
-      get().fetchVerses(),
-      get().fetchMasteredVerses(),
-    ]);
-  },
+    case 'logAttempt': {
+      await logSessionAttempt({
+        book: mutation.book,
+        chapter: mutation.chapter,
+        verseStart: mutation.verseStart,
+        verseEnd: mutation.verseEnd,
+        segments: mutation.segments,
+        version: mutation.version,
+        difficulty: mutation.difficulty,
+        chunkSize: mutation.chunkSize,
+        accuracy: mutation.accuracy,
+        scoringProfile: mutation.scoringProfile ?? DEFAULT_SCORING_PROFILE.id,
+        inputMode: mutation.inputMode ?? 'spoken',
+        recordingDurationMs: mutation.recordingDurationMs,
+        fluency: mutation.fluency,
+        hintCount: mutation.hintCount ?? 0,
+        clientId: mutation.clientId,
+        createdAt: mutation.createdAt,
+      });
+
+      // Reschedule from the full server history (fire-and-forget)
+      useAppStore.getState().updateReviewSchedule(mutation.verseId).catch((e) => {
+        console.error('[STORE] Failed to reschedule verse:', e);
+      });
+      return;
+    }
+  }
+}
 
-  // ============ RESET ============
+setMutationHandler(applyMutation);
+subscribeToOutbox((pending) => useAppStore.setState({ pendingMutations: pending }));
 
-  clear: () => {
-    set({
-      collections: [],
-      verses: [],
-      masteredVerses: [],
-      hydrated: false,
-      collectionsLoading: true,
-      versesLoading: true,
-      masteredLoading: true,
-      error: null,
-    });
-  },
-}));
+export { startOutboxSync } from './outbox';
 
 // ============ SELECTORS ============
 
@@ -710,7 +1321,7 @@ export function useCollection(id: string) {
 }
 
 /**
- * Get all mastered verses (hard mode completed with ≥90% accuracy)
+ * Get all mastered verses (mastery mode completed)
  * Includes soft-deleted verses - mastery is permanent
  */
 export function useMasteredVerses() {
@@ -735,12 +1346,7 @@ export function useInsightsStats() {
     const masteredIds = new Set(masteredVerses.map((v) => v.id));
     const inProgressVerses = verses.filter((v) => {
       if (masteredIds.has(v.id)) return false;
-      const p = v.progress;
-      return (
-        p.easy?.bestAccuracy !== null ||
-        p.medium?.bestAccuracy !== null ||
-        p.hard?.bestAccuracy !== null
-      );
+      return hasAnyProgress(v.progress);
     });
 
     // Deduplicate by verse ID (verse may be in multiple collections)
@@ -776,3 +1382,26 @@ export function useMostMemorizedBooks() {
       .slice(0, 5);
   }, [masteredVerses]);
 }
+
+/**
+ * Get verses due for review (deduplicated across collections), highest priority first.
+ * Includes mastered verses - mastery still needs upkeep.
+ */
+export function useDueVerses() {
+  const verses = useAppStore(useShallow((state) => state.verses));
+  const masteredVerses = useAppStore(useShallow((state) => state.masteredVerses));
+
+  return useMemo(() => {
+    const now = Date.now();
+    const seenIds = new Set<string>();
+    const due: SavedVerse[] = [];
+
+    for (const v of [...verses, ...masteredVerses]) {
+      if (seenIds.has(v.id)) continue;
+      seenIds.add(v.id);
+      if (isReviewDue(v.review, now)) due.push(v);
+    }
+
+    return due.sort((a, b) => reviewPriority(b, now) - reviewPriority(a, now));
+  }, [verses, masteredVerses]);
+}
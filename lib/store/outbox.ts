@@ -0,0 +1,267 @@
+/**
+ * Mutation Outbox
+ *
+ * Persistent, ordered queue of writes that haven't reached Supabase yet.
+ * The store applies every change locally first, then enqueues it here.
+ * The queue replays in order whenever NetInfo reports connectivity.
+ *
+ * Every mutation is keyed by client_id, so replaying one that already
+ * landed (e.g. the app died before it was dequeued) is a no-op.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import type { BibleVersion, CollectionChanges, Difficulty, VerseProgress } from '@/lib/storage';
+import type { ScoringProfileId } from '@/lib/scoring';
+import type { InputMode } from '@/lib/study-chunks';
+import type { FluencyMetrics } from '@/lib/fluency';
+import type { PassageSegment } from '@/lib/bible/passage';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MutationPayload =
+  | {
+      type: 'addCollection';
+      clientId: string;
+      name: string;
+      icon?: string;
+      iconColor?: string;
+      sortOrder?: number; // Missing on collections queued before reordering existed
+      createdAt: number;
+    }
+  | {
+      type: 'updateCollection';
+      clientId: string;
+      changes: CollectionChanges;
+    }
+  | {
+      type: 'reorderCollections';
+      order: string[]; // Collection client IDs, first to last
+    }
+  | {
+      type: 'deleteCollection';
+      clientId: string;
+    }
+  | {
+      type: 'addVerse';
+      clientId: string;
+      collectionId: string;
+      book: string;
+      chapter: number;
+      verseStart: number;
+      verseEnd: number;
+      segments?: PassageSegment[]; // Passages of more than one segment
+      version: BibleVersion;
+      createdAt: number;
+    }
+  | {
+      type: 'removeVerse';
+      clientId: string;
+      collectionId: string;
+      wasMastered: boolean;
+    }
+  | {
+      type: 'copyVerse';
+      clientId: string;
+      collectionId: string;
+      addedAt: number;
+    }
+  | {
+      type: 'moveVerse';
+      clientId: string;
+      fromCollectionId: string;
+      toCollectionId: string;
+      addedAt: number;
+    }
+  | {
+      type: 'updateProgress';
+      clientId: string;
+      progress: VerseProgress;
+    }
+  | {
+      type: 'resetProgress';
+      clientId: string;
+      resetAt: number;
+    }
+  | {
+      type: 'logAttempt';
+      clientId: string; // session_attempts.client_id
+      verseId: string;
+      book: string;
+      chapter: number;
+      verseStart: number;
+      verseEnd: number;
+      segments?: PassageSegment[]; // Passages of more than one segment
+      version: BibleVersion;
+      difficulty: Difficulty;
+      chunkSize: number;
+      accuracy: number;
+      scoringProfile?: ScoringProfileId; // Missing on attempts queued before profiles existed
+      inputMode?: InputMode; // Missing on attempts queued before typed mode existed
+      recordingDurationMs?: number;
+      fluency?: FluencyMetrics | null;
+      hintCount?: number; // Missing on attempts queued before hints existed
+      createdAt: number;
+    };
+
+export type Mutation = MutationPayload & {
+  id: string;
+  enqueuedAt: number;
+  attempts: number; // failed replays so far
+};
+
+type MutationHandler = (mutation: Mutation) => Promise<void>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const OUTBOX_KEY = 'mutation_outbox';
+
+/**
+ * Give up on a mutation after this many failed replays while online.
+ * Offline failures don't count - those just wait for the next reconnect.
+ */
+const MAX_ATTEMPTS = 5;
+
+// ============================================================================
+// Queue State
+// ============================================================================
+
+let queue: Mutation[] | null = null; // null until loaded from disk
+let handler: MutationHandler | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<(pending: number) => void>();
+
+async function loadQueue(): Promise<Mutation[]> {
+  if (queue) return queue;
+  try {
+    const data = await AsyncStorage.getItem(OUTBOX_KEY);
+    queue = data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error('[OUTBOX] Failed to load queue:', e);
+    queue = [];
+  }
+  return queue!;
+}
+
+async function saveQueue(): Promise<void> {
+  const pending = queue ?? [];
+  listeners.forEach((listener) => listener(pending.length));
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(pending));
+  } catch (e) {
+    console.error('[OUTBOX] Failed to persist queue:', e);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Register the function that writes a mutation to the server.
+ * Must throw if the write did not land.
+ */
+export function setMutationHandler(fn: MutationHandler): void {
+  handler = fn;
+}
+
+/**
+ * Subscribe to pending-count changes. Returns unsubscribe.
+ */
+export function subscribeToOutbox(listener: (pending: number) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Queue a mutation and try to send it right away
+ */
+export async function enqueueMutation(payload: MutationPayload): Promise<void> {
+  const pending = await loadQueue();
+  pending.push({
+    ...payload,
+    id: `mutation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    enqueuedAt: Date.now(),
+    attempts: 0,
+  } as Mutation);
+  await saveQueue();
+
+  flushOutbox().catch((e) => console.error('[OUTBOX] Flush error:', e));
+}
+
+/**
+ * Number of mutations still waiting for the server
+ */
+export async function getPendingMutationCount(): Promise<number> {
+  return (await loadQueue()).length;
+}
+
+/**
+ * Replay queued mutations in order. Stops at the first failure so later
+ * mutations never overtake an earlier one. Concurrent calls share one run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function runFlush(): Promise<void> {
+  if (!handler) return;
+  const pending = await loadQueue();
+
+  while (pending.length > 0) {
+    const mutation = pending[0];
+    try {
+      await handler(mutation);
+      pending.shift();
+      await saveQueue();
+    } catch (e) {
+      const { isConnected } = await NetInfo.fetch();
+      if (!isConnected) {
+        console.log(`[OUTBOX] Offline, ${pending.length} mutations waiting`);
+        return;
+      }
+
+      mutation.attempts++;
+      if (mutation.attempts >= MAX_ATTEMPTS) {
+        console.error(`[OUTBOX] Dropping ${mutation.type} after ${MAX_ATTEMPTS} attempts:`, e);
+        pending.shift();
+        await saveQueue();
+        continue;
+      }
+
+      console.error(`[OUTBOX] Failed to apply ${mutation.type}, will retry:`, e);
+      await saveQueue();
+      return;
+    }
+  }
+}
+
+/**
+ * Replay the outbox whenever the device comes back online. Returns unsubscribe.
+ */
+export function startOutboxSync(): () => void {
+  return NetInfo.addEventListener((state) => {
+    if (state.isConnected) {
+      flushOutbox().catch((e) => console.error('[OUTBOX] Flush error:', e));
+    }
+  });
+}
+
+/**
+ * Drop every pending mutation (on sign-out, so they can't leak into another account)
+ */
+export async function clearOutbox(): Promise<void> {
+  queue = [];
+  await saveQueue();
+}
@@ -1,25 +1,66 @@
 import type { SavedVerse } from '@/lib/storage';
+import type { VerseTexts } from '@/lib/api/bible';
+import type { Difficulty } from '@/lib/difficulty';
+import { getPassageVerses, spansChapters, getPassageSegments, type PassageVerse } from './bible/passage';
+import {
+  DEFAULT_SCORING_PROFILE,
+  applyHintPenalty,
+  scoreFromTally,
+  tallyAlignment,
+  type ScoringProfile,
+} from './scoring';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type Difficulty = 'easy' | 'medium' | 'hard';
+export type { Difficulty };
+
+export type InputMode = 'spoken' | 'typed';
+
+/**
+ * How a passage is split into chunks
+ * - verses: whole verses, chunkSize at a time
+ * - phrases: each verse split at clause punctuation into phrases of about PHRASE_TARGET_WORDS
+ */
+export type ChunkStrategy = 'verses' | 'phrases';
 
 export interface Chunk {
   id: string; // Stable ID for FlatList keys
   verseNum: number;
   verseNumEnd?: number; // For multi-verse chunks
+  chapter?: number; // Chapter of verseNum, for passages that span chapters
+  chapterEnd?: number; // Chapter of verseNumEnd, for passages that span chapters
+  phrase?: { index: number; total: number }; // For part of a verse (phrases strategy), 1-based
   text: string; // Original text (for evaluation)
-  displayText: string; // May have blanks for medium mode
+  displayText: string; // Masked for the session's difficulty
+}
+
+/**
+ * A transcribed word with when it was said and how sure the recognizer was
+ */
+export interface TranscriptionWord {
+  text: string;
+  startMs: number; // From the start of the recording
+  endMs: number;
+  confidence?: number; // 0-1, if the provider reports it
 }
 
 export interface AlignmentWord {
   word: string;
-  status: 'correct' | 'close' | 'missing' | 'added';
-  expected?: string; // For 'close' or 'missing' status
+  status: 'correct' | 'close' | 'transposed' | 'substituted' | 'missing' | 'added';
+  expected?: string; // For 'close', 'substituted' or 'missing' status
+  // When the word was said - set on said words if the transcription had timings
+  startMs?: number;
+  endMs?: number;
+  confidence?: number;
 }
 
+/**
+ * Where each word of a chunk stands while it is being recited live
+ */
+export type LiveWordStatus = 'spoken' | 'skipped' | 'upcoming';
+
 // ============================================================================
 // Superscript & Annotation
 // ============================================================================
@@ -44,28 +85,23 @@ export function annotateWithVerseNum(text: string, verseNum: number): string {
 }
 
 // ============================================================================
-// Verse Text Extraction
+// Verse Text
 // ============================================================================
 
 /**
- * Extract a single verse's text from a combined multi-verse string.
- * Tries to split by sentence boundaries first, falls back to word count.
+ * Text of one verse of a passage ('' if it's missing)
  */
-export function getVerseText(fullText: string, index: number, total: number): string {
-  if (total === 1) return fullText;
-
-  // Try to split by sentence-like boundaries
-  const sentences = fullText.split(/(?<=[.!?])\s+/);
-  if (sentences.length >= total) {
-    return sentences[index] || fullText;
-  }
+export function getVerseText(verseTexts: VerseTexts, passageVerse: PassageVerse): string {
+  return verseTexts[passageVerse.key] ?? '';
+}
 
-  // Fallback: split by words
-  const words = fullText.split(' ');
-  const chunkSize = Math.ceil(words.length / total);
-  const start = index * chunkSize;
-  const end = start + chunkSize;
-  return words.slice(start, end).join(' ');
+/**
+ * A passage with a superscript number before each verse ("¹⁶For God... ¹⁷For God...")
+ */
+export function annotateVerseTexts(verse: SavedVerse, verseTexts: VerseTexts): string {
+  return getPassageVerses(verse)
+    .map((v) => annotateWithVerseNum(getVerseText(verseTexts, v), v.verse))
+    .join(' ');
 }
 
 // ============================================================================
@@ -89,17 +125,31 @@ function seededRandom(seed: number): () => number {
  * Apply difficulty masking to text.
  * - easy: show full text
  * - medium: blank exactly 50% of words (alternating, seeded offset)
+ * - letters: first letter of each word ("For God so loved" → "F G s l")
  * - hard: show nothing
  *
  * @param text - The annotated text to mask
- * @param difficulty - easy | medium | hard
+ * @param difficulty - Difficulty mode (see lib/difficulty.ts)
  * @param seed - Numeric seed for deterministic offset (0 or 1)
  */
 export function applyDifficulty(text: string, difficulty: Difficulty, seed: number = 0): string {
-  if (difficulty === 'easy') return text;
-  if (difficulty === 'hard') return '';
+  switch (difficulty) {
+    case 'easy':
+      return text;
+    case 'hard':
+      return '';
+    case 'letters':
+      // Keep verse numbers and punctuation; "God's" → "G", "well-pleased" → "w-p"
+      return text.replace(/(\p{L})[\p{L}\p{M}'’]*/gu, '$1');
+    case 'medium':
+      return blankAlternateWords(text, seed);
+  }
+}
 
-  // Medium: blank every other word, offset determined by seed
+/**
+ * Blank every other word, offset determined by seed
+ */
+function blankAlternateWords(text: string, seed: number): string {
   const offset = seed % 2; // 0 or 1
   const words = text.split(' ');
 
@@ -107,8 +157,8 @@ export function applyDifficulty(text: string, difficulty: Difficulty, seed: numb
     // Blank if index matches offset pattern (alternating)
     if (i % 2 === offset) {
       // Replace letters with underscores, keep trailing punctuation
-      const letters = word.replace(/[^a-zA-Z]/g, '');
-      const trailingPunct = word.match(/[^a-zA-Z]+$/)?.[0] || '';
+      const letters = word.replace(/[^\p{L}]/gu, '');
+      const trailingPunct = word.match(/[^\p{L}]+$/u)?.[0] || '';
       return '_'.repeat(letters.length) + trailingPunct;
     }
 
@@ -116,20 +166,159 @@ export function applyDifficulty(text: string, difficulty: Difficulty, seed: numb
   }).join(' ');
 }
 
+// ============================================================================
+// Hints
+// ============================================================================
+
+const VERSE_NUM_PREFIX = new RegExp(`^[${Object.values(SUPERSCRIPTS).join('')}]+`);
+
+interface HintStep {
+  word: number; // Index into chunk.text words
+  full: boolean; // Whole word, or just its first letter
+}
+
+/**
+ * Letters only ("God's," → "Gods", "¿Quién?" → "Quién")
+ */
+function lettersOf(word: string): string {
+  return word.replace(/[^\p{L}]/gu, '');
+}
+
+/**
+ * Every hint a chunk can give, in order: each hidden word reveals its
+ * first letter, then the whole word. Words already showing their first
+ * letter (letters mode) go straight to the whole word.
+ */
+function getHintSteps(chunk: Chunk): HintStep[] {
+  const shown = chunk.displayText ? chunk.displayText.split(' ') : [];
+  const steps: HintStep[] = [];
+
+  chunk.text.split(' ').forEach((word, i) => {
+    const masked = (shown[i] ?? '').replace(VERSE_NUM_PREFIX, '');
+    if (masked === word) return;
+
+    if (lettersOf(masked)[0] !== lettersOf(word)[0]) {
+      steps.push({ word: i, full: false });
+    }
+    steps.push({ word: i, full: true });
+  });
+
+  return steps;
+}
+
+/**
+ * Number of hints before the whole chunk is revealed
+ */
+export function getMaxHints(chunk: Chunk): number {
+  return getHintSteps(chunk).length;
+}
+
+/**
+ * Display text with the first `hints` hints revealed.
+ * In hard mode (nothing shown) only the hinted words appear.
+ */
+export function applyHints(chunk: Chunk, hints: number): string {
+  if (hints <= 0) return chunk.displayText;
+
+  const revealed = new Map<number, boolean>(); // word index -> fully revealed
+  for (const step of getHintSteps(chunk).slice(0, hints)) {
+    revealed.set(step.word, step.full);
+  }
+
+  const shown = chunk.displayText ? chunk.displayText.split(' ') : null;
+  const words = chunk.text.split(' ').map((word, i) => {
+    const masked = shown?.[i] ?? '';
+    const full = revealed.get(i);
+    if (full === undefined) return masked;
+
+    if (full) {
+      return (masked.match(VERSE_NUM_PREFIX)?.[0] ?? '') + word;
+    }
+    // First letter: fill the first blank, or show just the letter in hard mode
+    const letter = lettersOf(word)[0];
+    return shown ? masked.replace('_', letter) : word.match(/^[^\p{L}]*\p{L}/u)![0];
+  });
+
+  return shown
+    ? words.join(' ')
+    : words.filter((_, i) => revealed.has(i)).join(' ');
+}
+
 // ============================================================================
 // Chunk Parsing
 // ============================================================================
 
 /**
- * Annotate a full verse range (for when all verses are in one chunk)
+ * Words a phrase aims for. Phrases break at the first clause punctuation
+ * after half this many words, or after PHRASE_MAX_WORDS without any.
  */
-function annotateVerseRange(fullText: string, startVerse: number, totalVerses: number): string {
-  const parts: string[] = [];
-  for (let i = 0; i < totalVerses; i++) {
-    const verseText = getVerseText(fullText, i, totalVerses);
-    parts.push(annotateWithVerseNum(verseText, startVerse + i));
+export const PHRASE_TARGET_WORDS = 12;
+const PHRASE_MIN_WORDS = Math.ceil(PHRASE_TARGET_WORDS / 2);
+const PHRASE_MAX_WORDS = Math.round(PHRASE_TARGET_WORDS * 1.5);
+
+// A word ending a clause: "earth," "said:" "Lord;" "heaven." (closing quotes allowed)
+const CLAUSE_END = /[,;:.!?—–][”’"')\]]*$/;
+
+/**
+ * Split one verse into phrases at clause punctuation.
+ * Deterministic for a given text; verses up to PHRASE_TARGET_WORDS stay
+ * whole, and no phrase shorter than PHRASE_MIN_WORDS is left at the end.
+ */
+export function splitIntoPhrases(text: string): string[] {
+  const words = text.split(' ').filter((w) => w.length > 0);
+  if (words.length <= PHRASE_TARGET_WORDS) return [words.join(' ')];
+
+  const phrases: string[] = [];
+  let current: string[] = [];
+
+  words.forEach((word, i) => {
+    current.push(word);
+    const remaining = words.length - i - 1;
+    if (remaining < PHRASE_MIN_WORDS) return;
+
+    const atClause = CLAUSE_END.test(word) && current.length >= PHRASE_MIN_WORDS;
+    if (atClause || current.length >= PHRASE_MAX_WORDS) {
+      phrases.push(current.join(' '));
+      current = [];
+    }
+  });
+
+  if (current.length > 0) phrases.push(current.join(' '));
+  return phrases;
+}
+
+/**
+ * One chunk per phrase; the verse number is shown on the first phrase only.
+ * A verse that fits in one phrase keeps its verses-strategy ID.
+ */
+function parseVerseIntoPhrases(
+  verse: SavedVerse,
+  verseTexts: VerseTexts,
+  difficulty: Difficulty,
+  sessionSeed: number
+): Chunk[] {
+  const chunks: Chunk[] = [];
+  const multiChapter = spansChapters(getPassageSegments(verse));
+
+  for (const v of getPassageVerses(verse)) {
+    const phrases = splitIntoPhrases(getVerseText(verseTexts, v));
+
+    phrases.forEach((phrase, i) => {
+      const chunkId = phrases.length > 1 ? `${verse.id}:${v.key}.${i + 1}` : `${verse.id}:${v.key}`;
+      const annotatedText = i === 0 ? annotateWithVerseNum(phrase, v.verse) : phrase;
+
+      chunks.push({
+        id: chunkId,
+        verseNum: v.verse,
+        chapter: multiChapter ? v.chapter : undefined,
+        phrase: phrases.length > 1 ? { index: i + 1, total: phrases.length } : undefined,
+        text: phrase,
+        displayText: applyDifficulty(annotatedText, difficulty, hashString(chunkId) + sessionSeed),
+      });
+    });
   }
-  return parts.join(' ');
+
+  return chunks;
 }
 
 /**
@@ -137,71 +326,50 @@ function annotateVerseRange(fullText: string, startVerse: number, totalVerses: n
  * Each chunk gets a stable ID for FlatList keys.
  *
  * @param verse - The saved verse to parse
+ * @param verseTexts - Text of each verse in the passage (see getVerseText in lib/api/bible.ts)
  * @param difficulty - Difficulty level for display masking
- * @param chunkSize - Number of verses per chunk
+ * @param chunkSize - Number of verses per chunk (verses strategy)
  * @param sessionSeed - Seed for randomizing blanks (0 or 1)
+ * @param strategy - Whole verses, or phrases within each verse
  * @returns Array of chunks ready for study
  */
 export function parseVerseIntoChunks(
   verse: SavedVerse,
+  verseTexts: VerseTexts,
   difficulty: Difficulty,
   chunkSize: number,
-  sessionSeed: number = 0
+  sessionSeed: number = 0,
+  strategy: ChunkStrategy = 'verses'
 ): Chunk[] {
-  const totalVerses = verse.verseEnd - verse.verseStart + 1;
-  const text = verse.text || ''; // Guard against optional text
-
-  // If only one verse, return single chunk
-  if (totalVerses === 1) {
-    const annotatedText = annotateWithVerseNum(text, verse.verseStart);
-    const chunkId = `${verse.id}:${verse.verseStart}`;
-    return [{
-      id: chunkId,
-      verseNum: verse.verseStart,
-      text: text,
-      displayText: applyDifficulty(annotatedText, difficulty, hashString(chunkId) + sessionSeed),
-    }];
-  }
-
-  // If chunkSize >= totalVerses, return all verses as one chunk
-  if (chunkSize >= totalVerses) {
-    const annotatedText = annotateVerseRange(text, verse.verseStart, totalVerses);
-    const chunkId = `${verse.id}:${verse.verseStart}-${verse.verseEnd}`;
-    return [{
-      id: chunkId,
-      verseNum: verse.verseStart,
-      verseNumEnd: verse.verseEnd,
-      text: text,
-      displayText: applyDifficulty(annotatedText, difficulty, hashString(chunkId) + sessionSeed),
-    }];
-  }
-
-  // Get individual verse texts
-  const verseTexts: { verseNum: number; text: string }[] = [];
-  for (let v = verse.verseStart; v <= verse.verseEnd; v++) {
-    const verseText = getVerseText(text, v - verse.verseStart, totalVerses);
-    verseTexts.push({ verseNum: v, text: verseText });
+  if (strategy === 'phrases') {
+    return parseVerseIntoPhrases(verse, verseTexts, difficulty, sessionSeed);
   }
 
   // Group verses into chunks based on chunkSize
   const chunks: Chunk[] = [];
-  for (let i = 0; i < verseTexts.length; i += chunkSize) {
-    const chunkVerses = verseTexts.slice(i, i + chunkSize);
-    const combinedText = chunkVerses.map(v => v.text).join(' ');
+  const passageVerses = getPassageVerses(verse);
+  const multiChapter = spansChapters(getPassageSegments(verse));
+
+  for (let i = 0; i < passageVerses.length; i += chunkSize) {
+    const chunkVerses = passageVerses.slice(i, i + chunkSize);
+    const first = chunkVerses[0];
+    const last = chunkVerses[chunkVerses.length - 1];
+
+    const combinedText = chunkVerses.map(v => getVerseText(verseTexts, v)).join(' ');
     const annotatedText = chunkVerses
-      .map(v => annotateWithVerseNum(v.text, v.verseNum))
+      .map(v => annotateWithVerseNum(getVerseText(verseTexts, v), v.verse))
       .join(' ');
-    const startVerse = chunkVerses[0].verseNum;
-    const endVerse = chunkVerses[chunkVerses.length - 1].verseNum;
 
-    const chunkId = endVerse !== startVerse
-      ? `${verse.id}:${startVerse}-${endVerse}`
-      : `${verse.id}:${startVerse}`;
+    const chunkId = last !== first
+      ? `${verse.id}:${first.key}-${last.key}`
+      : `${verse.id}:${first.key}`;
 
     chunks.push({
       id: chunkId,
-      verseNum: startVerse,
-      verseNumEnd: endVerse !== startVerse ? endVerse : undefined,
+      verseNum: first.verse,
+      verseNumEnd: last !== first ? last.verse : undefined,
+      chapter: multiChapter ? first.chapter : undefined,
+      chapterEnd: last.chapter !== first.chapter ? last.chapter : undefined,
       text: combinedText,
       displayText: applyDifficulty(annotatedText, difficulty, hashString(chunkId) + sessionSeed),
     });
@@ -210,44 +378,79 @@ export function parseVerseIntoChunks(
   return chunks;
 }
 
+/**
+ * "Verse 16" or "Verses 16-18", with chapters in passages that span them ("Verses 52:15-53:2")
+ */
+export function formatChunkVerses(chunk: Chunk): string {
+  const start = chunk.chapter !== undefined ? `${chunk.chapter}:${chunk.verseNum}` : `${chunk.verseNum}`;
+  if (chunk.verseNumEnd === undefined) return `Verse ${start}`;
+
+  const endChapter = chunk.chapterEnd ?? chunk.chapter;
+  const end = endChapter !== chunk.chapter ? `${endChapter}:${chunk.verseNumEnd}` : `${chunk.verseNumEnd}`;
+  return `Verses ${start}-${end}`;
+}
+
 // ============================================================================
-// Scoring
+// Chaining
 // ============================================================================
 
 /**
- * Calculate score from a single alignment result
+ * Cumulative steps for chaining: chunk 1, then 1-2, then 1-3, ...
+ * The last step is the whole passage. Masking carries over from each chunk.
  */
-export function calculateChunkScore(alignment: AlignmentWord[]): number {
-  let correct = 0, close = 0, missing = 0, added = 0;
-
-  for (const item of alignment) {
-    if (item.status === 'correct') correct++;
-    else if (item.status === 'close') close++;
-    else if (item.status === 'missing') missing++;
-    else if (item.status === 'added') added++;
-  }
+export function buildChainSteps(chunks: Chunk[]): Chunk[] {
+  return chunks.map((last, i) => {
+    if (i === 0) return last;
+
+    const first = chunks[0];
+    const included = chunks.slice(0, i + 1);
+    const lastVerse = last.verseNumEnd ?? last.verseNum;
+    const lastChapter = last.chapterEnd ?? last.chapter;
+
+    return {
+      id: `${first.id}~${last.id}`,
+      verseNum: first.verseNum,
+      verseNumEnd: lastVerse !== first.verseNum || lastChapter !== first.chapter ? lastVerse : undefined,
+      chapter: first.chapter,
+      chapterEnd: lastChapter !== first.chapter ? lastChapter : undefined,
+      text: included.map((c) => c.text).join(' '),
+      displayText: included.map((c) => c.displayText).filter((t) => t.length > 0).join(' '),
+    };
+  });
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
 
-  const denominator = correct + close + missing + added;
-  return denominator > 0 ? Math.round((correct + close * 0.5) / denominator * 100) : 0;
+/**
+ * Calculate score from a single alignment result, less any hints taken
+ */
+export function calculateChunkScore(
+  alignment: AlignmentWord[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  hints: number = 0
+): number {
+  return scoreFromTally(applyHintPenalty(tallyAlignment(alignment, profile), hints, profile));
 }
 
 /**
- * Calculate final score from all chunk alignments
+ * Calculate final score from all chunk alignments (and hints per chunk, same keys)
  */
-export function calculateFinalScore(allAlignments: Map<number, AlignmentWord[]>): number {
-  let totalCorrect = 0, totalClose = 0, totalMissing = 0, totalAdded = 0;
-
-  allAlignments.forEach((alignment) => {
-    for (const item of alignment) {
-      if (item.status === 'correct') totalCorrect++;
-      else if (item.status === 'close') totalClose++;
-      else if (item.status === 'missing') totalMissing++;
-      else if (item.status === 'added') totalAdded++;
-    }
+export function calculateFinalScore(
+  allAlignments: Map<number, AlignmentWord[]>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  hints: Map<number, number> = new Map()
+): number {
+  let earned = 0, possible = 0;
+
+  allAlignments.forEach((alignment, key) => {
+    const tally = applyHintPenalty(tallyAlignment(alignment, profile), hints.get(key) ?? 0, profile);
+    earned += tally.earned;
+    possible += tally.possible;
   });
 
-  const totalDenom = totalCorrect + totalClose + totalMissing + totalAdded;
-  return totalDenom > 0 ? Math.round((totalCorrect + totalClose * 0.5) / totalDenom * 100) : 0;
+  return scoreFromTally({ earned, possible });
 }
 
 // ============================================================================
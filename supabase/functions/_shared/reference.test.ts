@@ -0,0 +1,200 @@
+/**
+ * Reference grammar corpus
+ * Run with: deno test supabase/functions/_shared/reference.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { getExpectedVerseCount } from "../bible/verse-counts.ts";
+import {
+  expandReference,
+  findReferences,
+  formatReference,
+  localizedBookName,
+  parseReference,
+  ReferenceErrorCode,
+  resolveBookName,
+} from "./reference.ts";
+
+const verseCount = (book: string, chapter: number) => getExpectedVerseCount(`${book} ${chapter}`) ?? 0;
+
+// Input → canonical reference
+const CANONICAL: [string, string][] = [
+  // Plain
+  ["John 3:16", "John 3:16"],
+  ["john 3:16", "John 3:16"],
+  ["  John 3:16  ", "John 3:16"],
+  ["John 3", "John 3"],
+  ["Psalm 23:1-6", "Psalms 23:1-6"],
+  ["PSALMS 23", "Psalms 23"],
+  ["Song of Songs 2:4", "Song of Solomon 2:4"],
+
+  // Abbreviations, with and without periods
+  ["Jn 3:16", "John 3:16"],
+  ["Gen 1:1", "Genesis 1:1"],
+  ["Gen. 1:1", "Genesis 1:1"],
+  ["Rom.8:28", "Romans 8:28"],
+  ["Phil. 4:13", "Philippians 4:13"],
+  ["Phile 1:4", "Philemon 1:4"],
+  ["Rev 21:4", "Revelation 21:4"],
+  ["Revelations 21:4", "Revelation 21:4"],
+
+  // Numbered books
+  ["1 John 1:9", "1 John 1:9"],
+  ["1John 1:9", "1 John 1:9"],
+  ["1 jn 1:9", "1 John 1:9"],
+  ["1st John 4:8", "1 John 4:8"],
+  ["First John 4:8", "1 John 4:8"],
+  ["I John 4:8", "1 John 4:8"],
+  ["II Kings 2:11", "2 Kings 2:11"],
+  ["II. Kings 2:11", "2 Kings 2:11"],
+  ["2nd Kings 2:11", "2 Kings 2:11"],
+  ["III John 1:2", "3 John 1:2"],
+  ["1 Cor. 13:4-7", "1 Corinthians 13:4-7"],
+  ["1cor 13:4", "1 Corinthians 13:4"],
+  ["2 Tim 3:16-17", "2 Timothy 3:16-17"],
+  ["1 sam 17:45", "1 Samuel 17:45"],
+
+  // Roman numerals don't swallow books that start with "i"
+  ["Isaiah 40:31", "Isaiah 40:31"],
+  ["Isa 40:31", "Isaiah 40:31"],
+  ["Is 53:5", "Isaiah 53:5"],
+
+  // Dashes and separators
+  ["John 3:16–18", "John 3:16-18"],
+  ["John 3:16—18", "John 3:16-18"],
+  ["John 3:16 - 18", "John 3:16-18"],
+  ["John 3.16", "John 3:16"],
+  ["John 3:16.", "John 3:16"],
+  ["Isaiah 52:13–53:12", "Isaiah 52:13-53:12"],
+  ["rom 8:28,38–39", "Romans 8:28, 38-39"],
+  ["Romans 8:28; 9:1", "Romans 8:28; 9:1"],
+  ["Romans 8:28, 9:1", "Romans 8:28; 9:1"],
+  ["Romans 8:38-9:1, 3", "Romans 8:38-9:1, 3"],
+
+  // Spanish
+  ["Juan 3:16", "John 3:16"],
+  ["Génesis 1:1", "Genesis 1:1"],
+  ["Genesis 1:1", "Genesis 1:1"],
+  ["Éxodo 20:3", "Exodus 20:3"],
+  ["1 Corintios 13:4-7", "1 Corinthians 13:4-7"],
+  ["Sal 23:1", "Psalms 23:1"],
+  ["Santiago 1:5", "James 1:5"],
+  ["Apocalipsis 21:4", "Revelation 21:4"],
+];
+
+// Input → error code
+const ERRORS: [string, ReferenceErrorCode][] = [
+  ["", "empty"],
+  ["   ", "empty"],
+  ["3:16", "invalid_format"],
+  ["John 3:16 ESV", "invalid_format"],
+  ["Jhon 3:16", "unknown_book"],
+  ["4 John 1:1", "unknown_book"],
+  ["J 3:16", "unknown_book"],
+  ["John", "missing_chapter"],
+  ["II Kings", "missing_chapter"],
+  ["John 3:", "invalid_locator"],
+  ["John 3:16-", "invalid_locator"],
+  ["John 3-4", "invalid_locator"],
+  ["John 16, 17", "invalid_locator"],
+  ["John 3:16::17", "invalid_locator"],
+  ["John 3:18-16", "backwards_range"],
+  ["Isaiah 53:1-52:13", "backwards_range"],
+];
+
+// Reference → segments, as "chapter:start-end"
+const SEGMENTS: [string, string[]][] = [
+  ["John 3:16", ["3:16-16"]],
+  ["Isaiah 52:13-53:12", ["52:13-15", "53:1-12"]],
+  ["Romans 8:28, 38-39", ["8:28-28", "8:38-39"]],
+  ["Romans 8:28-30, 29-31", ["8:28-31"]],
+  ["Romans 9:1; 8:28", ["8:28-28", "9:1-1"]],
+  ["Jude 1", ["1:1-25"]],
+];
+
+// Reference → error code when expanded
+const OUT_OF_RANGE: string[] = ["John 3:37", "John 22:1", "Isaiah 52:16-53:1", "Jude 2"];
+
+// Free text → references found, canonical (or error code)
+const SCANS: [string, string[]][] = [
+  ["This week: Rom 12:1-2; Phil 4:6–7 and Ps 46:10", ["Romans 12:1-2", "Philippians 4:6-7", "Psalms 46:10"]],
+  ["read I John 1:9, then 1 Cor. 13:4-7 and Song of Solomon 2:4", ["1 John 1:9", "1 Corinthians 13:4-7", "Song of Solomon 2:4"]],
+  ["Also Romans 8:28, 38-39! Then Romans 8:28; 9:1.", ["Romans 8:28, 38-39", "Romans 8:28; 9:1"]],
+  ["Lectura: Juan 3:16 y Salmos 23:1-6", ["John 3:16", "Psalms 23:1-6"]],
+  ["Meeting at 7:30 tonight", []],
+
+  // Everyday words that are also short aliases or prefixes
+  ["The service is 7:30 to 9:00", []],
+  ["I am 5:30 late, we're at 3:15", []],
+  ["Dinner is at 6:30 but ex 2:15", []],
+  ["Is 7:14 and Am 5:24", ["Isaiah 7:14", "Amos 5:24"]],
+  ["rom 8:28 and phil 4:13", ["Romans 8:28", "Philippians 4:13"]],
+  ["John 3:18-16", ["backwards_range"]],
+
+  // A numbered book after a list doesn't become one of its verses
+  ["Gal 2:20, 2 Tim 3:16", ["Galatians 2:20", "2 Timothy 3:16"]],
+  ["Heb 4:12; 1 John 1:9", ["Hebrews 4:12", "1 John 1:9"]],
+  ["Gal 2:20, 21, 1st John 4:8", ["Galatians 2:20, 21", "1 John 4:8"]],
+
+  // ...but a list followed by any other word keeps all its verses
+  ["Romans 8:28, 38-39 this week", ["Romans 8:28, 38-39"]],
+  ["Ps 23:1, 4 today", ["Psalms 23:1, 4"]],
+];
+
+Deno.test("parses references to canonical form", () => {
+  for (const [input, expected] of CANONICAL) {
+    const result = parseReference(input);
+    assertEquals(result.ok ? formatReference(result.value) : result.error.code, expected, input);
+  }
+});
+
+Deno.test("returns structured errors", () => {
+  for (const [input, code] of ERRORS) {
+    const result = parseReference(input);
+    assertEquals(result.ok ? formatReference(result.value) : result.error.code, code, input);
+    if (!result.ok) assertEquals(result.error.input, input);
+  }
+});
+
+Deno.test("expands references into segments", () => {
+  for (const [input, expected] of SEGMENTS) {
+    const parsed = parseReference(input);
+    if (!parsed.ok) throw new Error(`${input}: ${parsed.error.message}`);
+
+    const result = expandReference(parsed.value, verseCount);
+    const segments = result.ok
+      ? result.value.map((s) => `${s.chapter}:${s.verseStart}-${s.verseEnd}`)
+      : [result.error.code];
+    assertEquals(segments, expected, input);
+  }
+});
+
+Deno.test("rejects chapters and verses that don't exist", () => {
+  for (const input of OUT_OF_RANGE) {
+    const parsed = parseReference(input);
+    if (!parsed.ok) throw new Error(`${input}: ${parsed.error.message}`);
+
+    const result = expandReference(parsed.value, verseCount);
+    assertEquals(result.ok ? "ok" : result.error.code, "out_of_range", input);
+  }
+});
+
+Deno.test("finds references in free text", () => {
+  for (const [input, expected] of SCANS) {
+    const found = findReferences(input).map(({ result }) =>
+      result.ok ? formatReference(result.value) : result.error.code
+    );
+    assertEquals(found, expected, input);
+  }
+});
+
+Deno.test("resolves and localizes book names", () => {
+  assertEquals(resolveBookName("Song"), "Song of Solomon");
+  assertEquals(resolveBookName("canticles"), "Song of Solomon");
+  assertEquals(resolveBookName("Jud"), "Judges");
+  assertEquals(resolveBookName("Judas"), "Jude");
+  assertEquals(resolveBookName("Hechos"), "Acts");
+  assertEquals(resolveBookName("Nonsense"), null);
+  assertEquals(localizedBookName("1 John", "es"), "1 Juan");
+  assertEquals(localizedBookName("1 John", "en"), "1 John");
+});
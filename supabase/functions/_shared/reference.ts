@@ -0,0 +1,459 @@
+/**
+ * Reference Grammar
+ *
+ * The one parser for Bible references, used by the edge functions and by the
+ * app (which imports this file directly - so it must not import anything).
+ *
+ *   reference := book [locator]
+ *   locator   := item (("," | ";") item)*
+ *   item      := [chapter ":"] verse ["-" [chapter ":"] verse]
+ *
+ * - Books: names, abbreviations with or without a period ("Gen.", "1 Cor."),
+ *   numbered books as "1 John", "1John", "I John", "1st John" or "First John",
+ *   and Spanish names ("Juan", "1 Corintios"). Accents are optional.
+ * - Items after the first stay in the previous item's chapter unless they
+ *   name one: "Romans 8:28, 38-39", "Romans 8:28; 9:1".
+ * - Dashes may be "-", "–" or "—"; "3.16" reads as "3:16".
+ * - A locator that is just a chapter ("John 3") is a whole chapter.
+ * - findReferences picks every reference out of free text ("Rom 12:1-2; Phil 4:6").
+ *
+ * Failures come back as a ReferenceError with a code, never as an exception.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One comma- or semicolon-separated item, as written
+ * (chapters inherited from the previous item are filled in)
+ */
+export interface ReferenceItem {
+  chapter: number;
+  verseStart: number | null; // null for a whole chapter ("John 3")
+  chapterEnd: number; // Same as chapter unless the range crosses chapters
+  verseEnd: number | null;
+}
+
+export interface ParsedReference {
+  book: string; // Canonical English name ("1 John")
+  items: ReferenceItem[];
+}
+
+/**
+ * A verse range within one chapter
+ */
+export interface ReferenceSegment {
+  chapter: number;
+  verseStart: number;
+  verseEnd: number;
+}
+
+export type ReferenceErrorCode =
+  | "empty" // Nothing to parse
+  | "invalid_format" // No book followed by a locator
+  | "unknown_book"
+  | "missing_chapter" // A book alone ("John")
+  | "invalid_locator" // Chapter and verse part doesn't follow the grammar
+  | "backwards_range" // "John 3:18-16"
+  | "out_of_range"; // Chapter or verse that doesn't exist
+
+export interface ReferenceError {
+  code: ReferenceErrorCode;
+  message: string; // Shown to users as-is
+  input: string;
+}
+
+export type ReferenceResult<T> = { ok: true; value: T } | { ok: false; error: ReferenceError };
+
+/**
+ * A reference found in free text
+ */
+export interface ReferenceMatch {
+  text: string; // As written ("Phil 4:6–7")
+  result: ReferenceResult<ParsedReference>;
+}
+
+/**
+ * Verses in a chapter (0 if the chapter doesn't exist)
+ */
+export type VerseCounter = (book: string, chapter: number) => number;
+
+// ============================================================================
+// Books
+// ============================================================================
+
+interface BookEntry {
+  name: string; // Canonical English name
+  es: string; // Spanish name (as printed in the NTV)
+  aliases: string[]; // Lowercase, without periods or accents
+}
+
+// Canonical order
+export const BOOKS: BookEntry[] = [
+  { name: "Genesis", es: "Génesis", aliases: ["gen", "ge", "gn"] },
+  { name: "Exodus", es: "Éxodo", aliases: ["ex", "exo", "exod"] },
+  { name: "Leviticus", es: "Levítico", aliases: ["lev", "lv"] },
+  { name: "Numbers", es: "Números", aliases: ["num", "nm"] },
+  { name: "Deuteronomy", es: "Deuteronomio", aliases: ["deut", "dt"] },
+  { name: "Joshua", es: "Josué", aliases: ["josh", "jos"] },
+  { name: "Judges", es: "Jueces", aliases: ["judg", "jdg", "jue"] },
+  { name: "Ruth", es: "Rut", aliases: ["rt"] },
+  { name: "1 Samuel", es: "1 Samuel", aliases: ["1 sam", "1 sa", "1 s"] },
+  { name: "2 Samuel", es: "2 Samuel", aliases: ["2 sam", "2 sa", "2 s"] },
+  { name: "1 Kings", es: "1 Reyes", aliases: ["1 kgs", "1 ki", "1 r"] },
+  { name: "2 Kings", es: "2 Reyes", aliases: ["2 kgs", "2 ki", "2 r"] },
+  { name: "1 Chronicles", es: "1 Crónicas", aliases: ["1 chron", "1 chr", "1 cr"] },
+  { name: "2 Chronicles", es: "2 Crónicas", aliases: ["2 chron", "2 chr", "2 cr"] },
+  { name: "Ezra", es: "Esdras", aliases: ["ezr", "esd"] },
+  { name: "Nehemiah", es: "Nehemías", aliases: ["neh"] },
+  { name: "Esther", es: "Ester", aliases: ["esth", "est"] },
+  { name: "Job", es: "Job", aliases: [] },
+  { name: "Psalms", es: "Salmos", aliases: ["psalm", "ps", "psa", "pss", "salmo", "sal"] },
+  { name: "Proverbs", es: "Proverbios", aliases: ["prov", "prv", "pr"] },
+  { name: "Ecclesiastes", es: "Eclesiastés", aliases: ["eccl", "ecc", "ec"] },
+  { name: "Song of Solomon", es: "Cantar de los Cantares", aliases: ["song of songs", "song", "sos", "canticles", "cantares", "cnt"] },
+  { name: "Isaiah", es: "Isaías", aliases: ["isa", "is"] },
+  { name: "Jeremiah", es: "Jeremías", aliases: ["jer"] },
+  { name: "Lamentations", es: "Lamentaciones", aliases: ["lam", "lm"] },
+  { name: "Ezekiel", es: "Ezequiel", aliases: ["ezek", "eze"] },
+  { name: "Daniel", es: "Daniel", aliases: ["dan", "dn"] },
+  { name: "Hosea", es: "Oseas", aliases: ["hos", "os"] },
+  { name: "Joel", es: "Joel", aliases: ["jl"] },
+  { name: "Amos", es: "Amós", aliases: ["am"] },
+  { name: "Obadiah", es: "Abdías", aliases: ["obad", "ob", "abd"] },
+  { name: "Jonah", es: "Jonás", aliases: ["jon", "jnh"] },
+  { name: "Micah", es: "Miqueas", aliases: ["mic", "mi"] },
+  { name: "Nahum", es: "Nahúm", aliases: ["nah"] },
+  { name: "Habakkuk", es: "Habacuc", aliases: ["hab"] },
+  { name: "Zephaniah", es: "Sofonías", aliases: ["zeph", "sof"] },
+  { name: "Haggai", es: "Hageo", aliases: ["hag"] },
+  { name: "Zechariah", es: "Zacarías", aliases: ["zech", "zac"] },
+  { name: "Malachi", es: "Malaquías", aliases: ["mal"] },
+  { name: "Matthew", es: "Mateo", aliases: ["matt", "mt"] },
+  { name: "Mark", es: "Marcos", aliases: ["mk", "mrk", "mc", "mr"] },
+  { name: "Luke", es: "Lucas", aliases: ["lk", "luk", "lc"] },
+  { name: "John", es: "Juan", aliases: ["jn", "jhn"] },
+  { name: "Acts", es: "Hechos", aliases: ["hch"] },
+  { name: "Romans", es: "Romanos", aliases: ["rom", "ro"] },
+  { name: "1 Corinthians", es: "1 Corintios", aliases: ["1 cor", "1 co"] },
+  { name: "2 Corinthians", es: "2 Corintios", aliases: ["2 cor", "2 co"] },
+  { name: "Galatians", es: "Gálatas", aliases: ["gal", "ga"] },
+  { name: "Ephesians", es: "Efesios", aliases: ["eph", "ef"] },
+  { name: "Philippians", es: "Filipenses", aliases: ["phil", "php", "flp"] },
+  { name: "Colossians", es: "Colosenses", aliases: ["col"] },
+  { name: "1 Thessalonians", es: "1 Tesalonicenses", aliases: ["1 thess", "1 th", "1 ts"] },
+  { name: "2 Thessalonians", es: "2 Tesalonicenses", aliases: ["2 thess", "2 th", "2 ts"] },
+  { name: "1 Timothy", es: "1 Timoteo", aliases: ["1 tim", "1 ti"] },
+  { name: "2 Timothy", es: "2 Timoteo", aliases: ["2 tim", "2 ti"] },
+  { name: "Titus", es: "Tito", aliases: ["tit"] },
+  { name: "Philemon", es: "Filemón", aliases: ["phlm", "philem", "flm"] },
+  { name: "Hebrews", es: "Hebreos", aliases: ["heb", "he"] },
+  { name: "James", es: "Santiago", aliases: ["jas", "stg"] },
+  { name: "1 Peter", es: "1 Pedro", aliases: ["1 pet", "1 pe", "1 p"] },
+  { name: "2 Peter", es: "2 Pedro", aliases: ["2 pet", "2 pe", "2 p"] },
+  { name: "1 John", es: "1 Juan", aliases: ["1 jn", "1 jhn"] },
+  { name: "2 John", es: "2 Juan", aliases: ["2 jn", "2 jhn"] },
+  { name: "3 John", es: "3 Juan", aliases: ["3 jn", "3 jhn"] },
+  { name: "Jude", es: "Judas", aliases: [] },
+  { name: "Revelation", es: "Apocalipsis", aliases: ["rev", "revelations", "apoc", "ap"] },
+];
+
+const NUMBER_WORDS: Record<string, string> = {
+  i: "1",
+  ii: "2",
+  iii: "3",
+  first: "1",
+  second: "2",
+  third: "3",
+};
+
+function foldAccents(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+// Lookup key → canonical name, for every name, Spanish name and alias
+const BOOK_KEYS: Record<string, string> = {};
+for (const book of BOOKS) {
+  for (const key of [book.name, book.es, ...book.aliases]) {
+    BOOK_KEYS[foldAccents(key.toLowerCase())] = book.name;
+  }
+}
+
+/**
+ * Lookup form of a book name: lowercase, no accents or periods, and any
+ * numbered-book prefix as a digit ("II. Kings" → "2 kings", "1stJohn" → "1 john")
+ */
+function bookKey(name: string): string {
+  const key = foldAccents(name.toLowerCase())
+    .replace(/\./g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^([123])(?:st|nd|rd)?\s*(?=\p{L})/u, "$1 ");
+
+  const word = key.match(/^(\w+) (.+)$/);
+  return word && NUMBER_WORDS[word[1]] ? `${NUMBER_WORDS[word[1]]} ${word[2]}` : key;
+}
+
+/**
+ * Canonical name of a book, or null if it isn't one
+ * Unlisted abbreviations resolve if they start exactly one way ("Phile" → "Philemon").
+ */
+export function resolveBookName(name: string): string | null {
+  const key = bookKey(name);
+  if (BOOK_KEYS[key]) return BOOK_KEYS[key];
+
+  // Prefix of a name: at least two letters, English names first
+  if (key.replace(/^\d /, "").length < 2) return null;
+  const match =
+    BOOKS.find((b) => b.name.toLowerCase().startsWith(key)) ??
+    BOOKS.find((b) => foldAccents(b.es.toLowerCase()).startsWith(key));
+  return match?.name ?? null;
+}
+
+/**
+ * A book's name in a language ("John" → "Juan" in "es"); English otherwise
+ */
+export function localizedBookName(book: string, language: string): string {
+  if (language === "es") {
+    return BOOKS.find((b) => b.name === book)?.es ?? book;
+  }
+  return book;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const REFERENCE = /^((?:\d+(?:st|nd|rd|th)?\.?\s*)?\p{L}[\p{L}\s.']*?)\s*(\d[\d\s:.,;\-–—]*)?$/u;
+const RANGE_ITEM = /^(?:(\d+):)?(\d+)(?:-(?:(\d+):)?(\d+))?$/;
+
+function fail<T>(code: ReferenceErrorCode, message: string, input: string): ReferenceResult<T> {
+  return { ok: false, error: { code, message, input } };
+}
+
+/**
+ * Parse the chapter-and-verse part of a reference ("3:16-18", "8:28, 38-39")
+ */
+function parseLocator(locator: string, input: string): ReferenceResult<ReferenceItem[]> {
+  const parts = locator
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, "")
+    .replace(/(\d)\.(\d)/g, "$1:$2")
+    .replace(/[.,;]+$/, "")
+    .split(/[,;]/);
+
+  // A chapter alone
+  if (parts.length === 1 && /^\d+$/.test(parts[0])) {
+    const chapter = parseInt(parts[0], 10);
+    return { ok: true, value: [{ chapter, verseStart: null, chapterEnd: chapter, verseEnd: null }] };
+  }
+
+  const items: ReferenceItem[] = [];
+  let chapter: number | null = null;
+
+  for (const part of parts) {
+    const match = part.match(RANGE_ITEM);
+    if (!match) return fail("invalid_locator", `Can't read "${part}" in ${input}`, input);
+
+    const [, chapterPart, verse, chapterEndPart, verseEndPart] = match;
+    if (chapterPart) chapter = parseInt(chapterPart, 10);
+    if (chapter === null) {
+      return fail("invalid_locator", `Missing a chapter before verse ${verse} in ${input}`, input);
+    }
+
+    const verseStart = parseInt(verse, 10);
+    const chapterEnd: number = chapterEndPart ? parseInt(chapterEndPart, 10) : chapter;
+    const verseEnd = verseEndPart ? parseInt(verseEndPart, 10) : verseStart;
+
+    if (chapterEnd < chapter || (chapterEnd === chapter && verseEnd < verseStart)) {
+      return fail("backwards_range", `Range runs backwards: ${part}`, input);
+    }
+
+    items.push({ chapter, verseStart, chapterEnd, verseEnd });
+    chapter = chapterEnd;
+  }
+
+  return { ok: true, value: items };
+}
+
+/**
+ * Parse a reference as written
+ * "1 jn 1:9" → 1 John [1:9], "Rom. 8:28, 38–39" → Romans [8:28, 8:38-39]
+ * Doesn't check that chapters and verses exist - see expandReference.
+ */
+export function parseReference(input: string): ReferenceResult<ParsedReference> {
+  const text = input.trim();
+  if (!text) return fail("empty", "Enter a reference", input);
+
+  const match = text.match(REFERENCE);
+  if (!match) return fail("invalid_format", `Not a reference: ${text}`, input);
+
+  const [, bookPart, locator] = match;
+  const book = resolveBookName(bookPart);
+  if (!book) return fail("unknown_book", `Unknown book: ${bookPart.trim()}`, input);
+  if (!locator) return fail("missing_chapter", `Add a chapter and verse to ${book}`, input);
+
+  const items = parseLocator(locator, text);
+  return items.ok ? { ok: true, value: { book, items: items.value } } : items;
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+// A chapter:verse locator, with any ranges and comma/semicolon lists after it
+const LOCATOR =
+  /\d+[:.]\d+(?:\s*[-–—]\s*\d+(?:[:.]\d+)?)?(?:\s*[,;]\s*(?:\d+[:.])?\d+(?:\s*[-–—]\s*\d+(?:[:.]\d+)?)?)*/gu;
+
+// A locator's last list item when it's a bare number ("Gal 2:20, 2")
+const LAST_ITEM = /\s*[,;]\s*(\d+)$/;
+
+// Words just before a locator that might name its book ("1 Cor.", "Song of Solomon")
+const BOOK_WORDS = /(?:[\p{L}\d.']+ +)*[\p{L}\d.']+ *$/u;
+const MAX_BOOK_WORDS = 4; // "Cantar de los Cantares"
+const BOOK_WINDOW = 60; // Characters before a locator searched for its book
+
+// Numbered-book prefix as written ("1", "1st", "II.", "First ")
+const WRITTEN_NUMBER = /^(?:\d+(?:st|nd|rd)?\.?\s*|(?:i{1,3}|first|second|third)\.?\s+)/iu;
+
+/**
+ * Book named by words in free text, or null. Stricter than resolveBookName so
+ * everyday words aren't read as books ("is 7:30", "am 5:30"): short aliases
+ * and prefixes only count when capitalized ("Is 7:30", "Phile 1:6").
+ */
+function resolveWrittenBook(words: string): string | null {
+  const key = bookKey(words);
+  if (BOOK_KEYS[key] && key.replace(/^\d /, "").replace(/\s/g, "").length >= 3) return BOOK_KEYS[key];
+  return /^\p{Lu}/u.test(words.replace(WRITTEN_NUMBER, "")) ? resolveBookName(words) : null;
+}
+
+/**
+ * Every reference in free text, in order: each locator is read with the
+ * longest run of words before it that names a book ("and Ps 46:10" → "Ps 46:10").
+ * Locators with no book before them ("at 7:30", "is 7:30") are skipped.
+ * Doesn't check that chapters and verses exist - see expandReference.
+ */
+export function findReferences(text: string): ReferenceMatch[] {
+  const found: ReferenceMatch[] = [];
+  const locators = [...text.matchAll(LOCATOR)];
+
+  locators.forEach((match, i) => {
+    const start = match.index ?? 0;
+    let locator = match[0];
+
+    // A last item that starts the next reference's numbered book belongs to
+    // that reference ("Gal 2:20, 2 Tim 3:16"), not to this one ("Ps 23:1, 4 today")
+    const last = locator.match(LAST_ITEM);
+    const next = locators[i + 1];
+    if (last && next) {
+      const book = `${last[1]}${text.slice(start + locator.length, next.index)}`.trim();
+      if (book.match(BOOK_WORDS)?.[0] === book && /^\d/.test(resolveWrittenBook(book) ?? "")) {
+        locator = locator.slice(0, last.index);
+      }
+    }
+
+    const before = text.slice(Math.max(0, start - BOOK_WINDOW), start);
+    const words = before.match(BOOK_WORDS)?.[0].trim().split(/ +/) ?? [];
+
+    for (let count = Math.min(words.length, MAX_BOOK_WORDS); count > 0; count--) {
+      const book = words.slice(-count).join(" ");
+      if (!resolveWrittenBook(book)) continue;
+
+      const written = `${book} ${locator}`;
+      const result = parseReference(written);
+      if (!result.ok && result.error.code === "invalid_format") continue;
+
+      found.push({ text: written, result });
+      break;
+    }
+  });
+
+  return found;
+}
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+/**
+ * Sort segments and merge any that overlap or touch within a chapter
+ */
+function mergeSegments(segments: ReferenceSegment[]): ReferenceSegment[] {
+  const sorted = [...segments].sort((a, b) => a.chapter - b.chapter || a.verseStart - b.verseStart);
+
+  const merged: ReferenceSegment[] = [];
+  for (const segment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.chapter === segment.chapter && segment.verseStart <= last.verseEnd + 1) {
+      last.verseEnd = Math.max(last.verseEnd, segment.verseEnd);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Every verse range a reference covers, one per chapter, sorted and merged.
+ * "Isaiah 52:13-53:12" → [52:13-15, 53:1-12]; a whole chapter is every verse.
+ * Fails if a chapter or verse doesn't exist.
+ */
+export function expandReference(
+  reference: ParsedReference,
+  verseCount: VerseCounter
+): ReferenceResult<ReferenceSegment[]> {
+  const { book, items } = reference;
+  const label = formatReference(reference);
+  const segments: ReferenceSegment[] = [];
+
+  for (const item of items) {
+    // A cross-chapter range runs to the end of each chapter before the last
+    for (let c = item.chapter; c <= item.chapterEnd; c++) {
+      const count = verseCount(book, c);
+      if (!count) return fail("out_of_range", `${book} has no chapter ${c}`, label);
+
+      const start = c === item.chapter && item.verseStart !== null ? item.verseStart : 1;
+      const end = c === item.chapterEnd && item.verseEnd !== null ? item.verseEnd : count;
+      if (start < 1 || start > count || end > count) {
+        return fail("out_of_range", `${book} ${c} has ${count} verses`, label);
+      }
+      segments.push({ chapter: c, verseStart: start, verseEnd: end });
+    }
+  }
+
+  return { ok: true, value: mergeSegments(segments) };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Canonical form of a parsed reference, used as the cache key:
+ * "Romans 8:28, 38-39", "Romans 8:28; 9:1", "Isaiah 52:13-53:12", "John 3"
+ */
+export function formatReference(reference: ParsedReference): string {
+  let result = reference.book;
+
+  reference.items.forEach((item, i) => {
+    if (item.verseStart === null) {
+      result += ` ${item.chapter}`;
+      return;
+    }
+
+    const previous = reference.items[i - 1];
+    const sameChapter = previous && previous.chapterEnd === item.chapter;
+
+    let part = sameChapter ? `${item.verseStart}` : `${item.chapter}:${item.verseStart}`;
+    if (item.chapterEnd !== item.chapter) {
+      part += `-${item.chapterEnd}:${item.verseEnd}`;
+    } else if (item.verseEnd !== item.verseStart) {
+      part += `-${item.verseEnd}`;
+    }
+
+    result += !previous ? ` ${part}` : sameChapter ? `, ${part}` : `; ${part}`;
+  });
+
+  return result;
+}
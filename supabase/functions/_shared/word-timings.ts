@@ -0,0 +1,65 @@
+/**
+ * Word Timings
+ *
+ * Per-word start/end times and confidence for a transcription, so the app can
+ * show hesitations and words the recognizer wasn't sure about.
+ * Words line up with the transcription split on whitespace.
+ */
+
+export interface TranscriptionWord {
+  text: string;
+  startMs: number; // From the start of the recording
+  endMs: number;
+  confidence?: number; // 0-1, if the provider reports it
+}
+
+/**
+ * A Soniox token (async transcript or real-time response)
+ */
+export interface SonioxToken {
+  text: string;
+  start_ms?: number;
+  end_ms?: number;
+  confidence?: number;
+  is_final?: boolean;
+}
+
+/**
+ * Control tokens in the real-time stream (<end>, <fin>), not speech
+ */
+export function isControlToken(token: SonioxToken): boolean {
+  return /^<.*>$/.test(token.text);
+}
+
+/**
+ * Merge Soniox sub-word tokens into words.
+ * A token starting with whitespace starts a new word; anything else
+ * (word pieces, punctuation) joins the previous one.
+ * A word's confidence is its least confident piece.
+ */
+export function wordsFromTokens(tokens: SonioxToken[]): TranscriptionWord[] {
+  const words: TranscriptionWord[] = [];
+
+  for (const token of tokens) {
+    if (isControlToken(token) || !token.text.trim()) continue;
+
+    const last = words[words.length - 1];
+    if (last && !/^\s/.test(token.text)) {
+      last.text += token.text;
+      last.endMs = token.end_ms ?? last.endMs;
+      if (token.confidence !== undefined) {
+        last.confidence = Math.min(last.confidence ?? 1, token.confidence);
+      }
+      continue;
+    }
+
+    words.push({
+      text: token.text.trim(),
+      startMs: token.start_ms ?? 0,
+      endMs: token.end_ms ?? token.start_ms ?? 0,
+      confidence: token.confidence,
+    });
+  }
+
+  return words;
+}
@@ -29,7 +29,7 @@ export interface BibleAdapter {
   /** Human-readable name */
   name: string;
 
-  /** Versions this adapter supports (e.g., ["ESV"] or ["NLT", "KJV"]) */
+  /** Versions this adapter supports (e.g., ["ESV"] or ["NLT", "NTV"]) */
   supportedVersions: string[];
 
   /**
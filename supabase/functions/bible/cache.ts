@@ -3,6 +3,7 @@
  *
  * Stores individual verses for precise counting and overlap handling.
  * Max 500 verses per version (ESV/NLT licensing requirement).
+ * Versions with caching: "offline" (see versions.ts) are never cached here.
  */
 
 import { getAdminClient } from "../_shared/auth.ts";
@@ -201,7 +202,7 @@ export async function getCachedVerse(
 }
 
 /**
- * Get cached verse range
+ * Get cached verse range (verse number → text)
  * Returns null if ANY verse in range is missing
  */
 export async function getCachedVerseRange(
@@ -210,7 +211,7 @@ export async function getCachedVerseRange(
   verseStart: number,
   verseEnd: number,
   version: string
-): Promise<string | null> {
+): Promise<Record<string, string> | null> {
   const admin = getAdminClient();
 
   const { data, error } = await admin
@@ -244,8 +245,12 @@ export async function getCachedVerseRange(
     .lte("verse", verseEnd)
     .then(() => {});
 
-  // Combine texts
-  return data.map((row) => row.text).join(" ");
+  const verses: Record<string, string> = {};
+  for (const row of data) {
+    verses[row.verse.toString()] = row.text;
+  }
+
+  return verses;
 }
 
 /**
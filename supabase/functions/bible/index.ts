@@ -3,6 +3,10 @@
  *
  * Thin routing layer that delegates to adapters.
  * Handles auth, caching, and version routing.
+ *
+ * GET /bible?ref=...&version=...[&chapter=true] - passage text
+ *   (ref may cross chapters or list ranges - see passage.ts)
+ * GET /bible/versions - every version served (see versions.ts)
  */
 
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
@@ -11,21 +15,22 @@ import { handleCors } from "../_shared/cors.ts";
 import {
   unauthorized,
   badRequest,
+  errorResponse,
   jsonResponse,
   serverError,
 } from "../_shared/errors.ts";
+import { formatReference, parseReference, ParsedReference, ReferenceError } from "../_shared/reference.ts";
 import {
   checkAndIncrementBibleUsage,
   rateLimitResponse,
 } from "../_shared/usage.ts";
 
 // Adapters
-import { esvAdapter } from "./adapters/esv.ts";
-import { nltAdapter } from "./adapters/nlt.ts";
 import { BibleAdapter } from "./adapters/types.ts";
+import { getVersion, listVersions, VERSIONS } from "./versions.ts";
 
 // Shared modules
-import { normalizeReference } from "./normalize.ts";
+import { compareVerseKeys, passageVerseKey, Passage, toPassage } from "./passage.ts";
 import {
   getCachedVerse,
   cacheVerse,
@@ -35,42 +40,159 @@ import {
 } from "./cache.ts";
 import { getExpectedVerseCount } from "./verse-counts.ts";
 
-/**
- * Version → Adapter registry
- * Each version maps to its adapter
- */
-const adapters: Record<string, BibleAdapter> = {
-  ESV: esvAdapter,
-  NLT: nltAdapter,
-  KJV: nltAdapter,
-  NTV: nltAdapter,
-  NLTUK: nltAdapter,
-};
+interface SingleRange {
+  book: string;
+  chapter: number;
+  verse?: number;
+  verseEnd?: number;
+}
 
 /**
- * Parse a normalized reference into components
+ * A reference to one range in one chapter, or a whole chapter
  * "John 3" → { book: "John", chapter: 3 }
  * "John 3:16" → { book: "John", chapter: 3, verse: 16 }
  * "John 3:16-18" → { book: "John", chapter: 3, verse: 16, verseEnd: 18 }
+ * Null for passages (see passage.ts).
  */
-function parseReference(ref: string): {
-  book: string;
-  chapter: number;
-  verse?: number;
-  verseEnd?: number;
-} | null {
-  const match = ref.match(/^(.+?)\s+(\d+)(?::(\d+)(?:-(\d+))?)?$/);
-  if (!match) return null;
+function toSingleRange(reference: ParsedReference): SingleRange | null {
+  if (reference.items.length !== 1) return null;
+
+  const [item] = reference.items;
+  if (item.chapterEnd !== item.chapter) return null;
 
-  const [, book, chapter, verse, verseEnd] = match;
   return {
-    book,
-    chapter: parseInt(chapter, 10),
-    verse: verse ? parseInt(verse, 10) : undefined,
-    verseEnd: verseEnd ? parseInt(verseEnd, 10) : undefined,
+    book: reference.book,
+    chapter: item.chapter,
+    verse: item.verseStart ?? undefined,
+    verseEnd: item.verseEnd !== null && item.verseEnd !== item.verseStart ? item.verseEnd : undefined,
   };
 }
 
+/**
+ * 400 with the parser's error code, so the app can tell what was wrong
+ */
+function referenceError(error: ReferenceError): Response {
+  return errorResponse(error.message, 400, { code: error.code });
+}
+
+/**
+ * Combine verses into one passage, in verse order
+ */
+function joinVerses(verses: Record<string, string>): string {
+  return Object.keys(verses)
+    .sort(compareVerseKeys)
+    .map((verse) => verses[verse])
+    .join(" ");
+}
+
+/**
+ * Serve a public-domain version straight from its adapter.
+ * Nothing is licensed, so there's no verse_cache and no usage limit.
+ */
+async function serveUncached(
+  adapter: BibleAdapter,
+  ref: string,
+  parsed: SingleRange,
+  version: string,
+  isChapterRequest: boolean
+): Promise<Response> {
+  const chapterRef = `${parsed.book} ${parsed.chapter}`;
+  const { verses } = await adapter.fetchChapter(
+    chapterRef,
+    version,
+    getExpectedVerseCount(chapterRef) || 0
+  );
+
+  if (isChapterRequest || !parsed.verse) {
+    return jsonResponse({ reference: ref, version, verses, cached: false });
+  }
+
+  const rangeVerses: Record<string, string> = {};
+  for (let v = parsed.verse; v <= (parsed.verseEnd || parsed.verse); v++) {
+    const verseText = verses[v.toString()];
+    if (verseText) {
+      rangeVerses[v.toString()] = verseText;
+    }
+  }
+
+  if (Object.keys(rangeVerses).length === 0) {
+    return badRequest(`Verse not found: ${ref}`);
+  }
+
+  return jsonResponse({
+    reference: ref,
+    version,
+    text: joinVerses(rangeVerses),
+    verses: rangeVerses,
+    cached: false,
+  });
+}
+
+/**
+ * Serve a passage that crosses chapters or lists several ranges, one segment
+ * at a time. Each segment is cached like any other range (unless useCache is off).
+ * Verses are keyed by chapter and verse ("53:1") if the passage spans chapters.
+ */
+async function servePassage(
+  adapter: BibleAdapter,
+  ref: string,
+  passage: Passage,
+  version: string,
+  useCache: boolean
+): Promise<Response> {
+  const verses: Record<string, string> = {};
+  const fetchedChapters = new Map<number, Record<string, string>>();
+  let allCached = true;
+
+  for (const segment of passage.segments) {
+    let segmentVerses = useCache
+      ? await getCachedVerseRange(passage.book, segment.chapter, segment.verseStart, segment.verseEnd, version)
+      : null;
+
+    if (!segmentVerses) {
+      allCached = false;
+      let chapterVerses = fetchedChapters.get(segment.chapter);
+      if (!chapterVerses) {
+        const chapterRef = `${passage.book} ${segment.chapter}`;
+        chapterVerses = (await adapter.fetchChapter(
+          chapterRef,
+          version,
+          getExpectedVerseCount(chapterRef) || 0
+        )).verses;
+        fetchedChapters.set(segment.chapter, chapterVerses);
+      }
+
+      segmentVerses = {};
+      for (let v = segment.verseStart; v <= segment.verseEnd; v++) {
+        const verseText = chapterVerses[v.toString()];
+        if (verseText) {
+          segmentVerses[v.toString()] = verseText;
+        }
+      }
+      if (useCache) {
+        await cacheChapter(passage.book, segment.chapter, version, segmentVerses);
+      }
+    }
+
+    for (const [verse, text] of Object.entries(segmentVerses)) {
+      verses[passageVerseKey(passage, segment.chapter, parseInt(verse, 10))] = text;
+    }
+  }
+
+  if (Object.keys(verses).length === 0) {
+    return badRequest(`Verse not found: ${ref}`);
+  }
+
+  console.log(`[BIBLE] Passage: ${ref} (${version}) - ${passage.segments.length} segments${allCached ? ", all cached" : ""}`);
+  return jsonResponse({
+    reference: ref,
+    version,
+    text: joinVerses(verses),
+    verses,
+    cached: allCached,
+  });
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -87,8 +209,12 @@ serve(async (req) => {
     return unauthorized();
   }
 
-  // Parse query params
   const url = new URL(req.url);
+  if (url.pathname.endsWith("/versions")) {
+    return jsonResponse({ versions: listVersions() });
+  }
+
+  // Parse query params
   const rawRef = url.searchParams.get("ref");
   const version = url.searchParams.get("version") || "ESV";
   const isChapterRequest = url.searchParams.get("chapter") === "true";
@@ -98,20 +224,42 @@ serve(async (req) => {
   }
 
   // Get adapter for requested version
-  const adapter = adapters[version];
-  if (!adapter) {
+  const versionEntry = getVersion(version);
+  if (!versionEntry) {
     return badRequest(
-      `Unsupported version: ${version}. Supported: ${Object.keys(adapters).join(", ")}`
+      `Unsupported version: ${version}. Supported: ${VERSIONS.map((v) => v.id).join(", ")}`
     );
   }
+  const adapter = versionEntry.adapter;
 
-  // Normalize reference ONCE, use everywhere
-  const ref = normalizeReference(rawRef);
+  // Parse and normalize reference ONCE, use everywhere
+  const reference = parseReference(rawRef);
+  if (!reference.ok) {
+    return referenceError(reference.error);
+  }
+  const ref = formatReference(reference.value);
 
-  // Parse into components
-  const parsed = parseReference(ref);
+  // A single range, or a passage of several
+  const parsed = toSingleRange(reference.value);
+  let passage: Passage | null = null;
   if (!parsed) {
-    return badRequest(`Invalid reference format: ${ref}`);
+    const result = toPassage(reference.value);
+    if (!result.ok) {
+      return referenceError(result.error);
+    }
+    passage = result.value;
+  }
+
+  if (versionEntry.caching === "offline") {
+    try {
+      if (passage) {
+        return await servePassage(adapter, ref, passage, version, false);
+      }
+      return await serveUncached(adapter, ref, parsed!, version, isChapterRequest);
+    } catch (error) {
+      console.error(`Bible fetch error (${version}):`, error);
+      return serverError("Failed to fetch verse");
+    }
   }
 
   // Check usage limits
@@ -121,6 +269,14 @@ serve(async (req) => {
   }
 
   try {
+    if (passage) {
+      return await servePassage(adapter, ref, passage, version, true);
+    }
+
+    if (!parsed) {
+      return badRequest(`Invalid reference format: ${ref}`);
+    }
+
     if (isChapterRequest) {
       // Get expected verse count for validation and cache check
       const expectedCount = getExpectedVerseCount(ref) || 0;
@@ -159,13 +315,15 @@ serve(async (req) => {
     }
 
     // Single verse or verse range request
+    // Responds with the combined text and each verse's text, so clients
+    // never have to guess where one verse ends and the next begins
     if (parsed.verse) {
       const verseEnd = parsed.verseEnd || parsed.verse;
 
       // Check cache
-      let cachedText: string | null = null;
+      let cachedVerses: Record<string, string> | null = null;
       if (parsed.verseEnd) {
-        cachedText = await getCachedVerseRange(
+        cachedVerses = await getCachedVerseRange(
           parsed.book,
           parsed.chapter,
           parsed.verse,
@@ -173,20 +331,22 @@ serve(async (req) => {
           version
         );
       } else {
-        cachedText = await getCachedVerse(
+        const cachedText = await getCachedVerse(
           parsed.book,
           parsed.chapter,
           parsed.verse,
           version
         );
+        cachedVerses = cachedText ? { [parsed.verse.toString()]: cachedText } : null;
       }
 
-      if (cachedText) {
+      if (cachedVerses) {
         console.log(`[BIBLE] DB cache hit: ${ref} (${version})`);
         return jsonResponse({
           reference: ref,
           version,
-          text: cachedText,
+          text: joinVerses(cachedVerses),
+          verses: cachedVerses,
           cached: true,
         });
       }
@@ -215,12 +375,11 @@ serve(async (req) => {
         await cacheChapter(parsed.book, parsed.chapter, version, rangeVerses);
         console.log(`[BIBLE] Cached range: ${ref} (${version}) - ${Object.keys(rangeVerses).length} verses`);
 
-        // Combine for response
-        const combinedText = Object.values(rangeVerses).join(" ");
         return jsonResponse({
           reference: ref,
           version,
-          text: combinedText,
+          text: joinVerses(rangeVerses),
+          verses: rangeVerses,
           cached: false,
         });
       }
@@ -241,6 +400,7 @@ serve(async (req) => {
         reference: ref,
         version,
         text: result.text,
+        verses: { [parsed.verse.toString()]: result.text },
         cached: false,
       });
     }
@@ -0,0 +1,56 @@
+/**
+ * Passages
+ *
+ * References that aren't a single range in one chapter:
+ * - "Isaiah 52:13-53:12" (crosses chapters) → 52:13-15, 53:1-12
+ * - "Romans 8:28, 38-39" (compound) → 8:28, 8:38-39
+ *
+ * A passage is a list of segments, each a verse range within one chapter,
+ * so every segment can be served and cached like any other range.
+ * Mirrors lib/bible/passage.ts in the app; both parse with _shared/reference.ts.
+ */
+
+import {
+  expandReference,
+  ParsedReference,
+  ReferenceResult,
+  ReferenceSegment,
+} from "../_shared/reference.ts";
+import { getExpectedVerseCount } from "./verse-counts.ts";
+
+export type PassageSegment = ReferenceSegment;
+
+export interface Passage {
+  book: string;
+  segments: PassageSegment[];
+}
+
+/**
+ * Segments of a parsed reference (see _shared/reference.ts)
+ * Fails if a chapter or verse doesn't exist.
+ */
+export function toPassage(reference: ParsedReference): ReferenceResult<Passage> {
+  const segments = expandReference(
+    reference,
+    (book, chapter) => getExpectedVerseCount(`${book} ${chapter}`) ?? 0
+  );
+  return segments.ok ? { ok: true, value: { book: reference.book, segments: segments.value } } : segments;
+}
+
+/**
+ * Key of a verse in a passage response: verse number ("16") within one
+ * chapter, chapter and verse ("53:1") when the passage spans chapters
+ */
+export function passageVerseKey(passage: Passage, chapter: number, verse: number): string {
+  const multiChapter = passage.segments.some((s) => s.chapter !== passage.segments[0].chapter);
+  return multiChapter ? `${chapter}:${verse}` : verse.toString();
+}
+
+/**
+ * Order verse keys ("16" before "17", "52:15" before "53:1")
+ */
+export function compareVerseKeys(a: string, b: string): number {
+  const [chapterA, verseA] = a.includes(":") ? a.split(":").map(Number) : [0, Number(a)];
+  const [chapterB, verseB] = b.includes(":") ? b.split(":").map(Number) : [0, Number(b)];
+  return chapterA - chapterB || verseA - verseB;
+}
@@ -0,0 +1,98 @@
+/**
+ * Version Catalog
+ *
+ * Every translation this function serves, and what the app needs to know
+ * about it. The app builds its version pickers from GET /bible/versions,
+ * so shipping a new translation only takes an entry here (and its adapter).
+ */
+
+import { esvAdapter } from "./adapters/esv.ts";
+import { nltAdapter } from "./adapters/nlt.ts";
+import { BibleAdapter } from "./adapters/types.ts";
+
+/**
+ * How a version's text may be kept
+ * - "capped": licensed text; up to 500 verses in verse_cache, memory-only in the app
+ * - "offline": public domain; never in verse_cache, the app may store it on the device
+ */
+export type CachingPolicy = "capped" | "offline";
+
+export interface VersionEntry {
+  id: string; // Version code used in requests (e.g., "ESV")
+  name: string;
+  language: string; // BCP 47 tag (e.g., "en", "es", "en-GB")
+  copyright: string; // Notice to show wherever the text is displayed
+  adapter: BibleAdapter;
+  caching: CachingPolicy;
+}
+
+const TYNDALE_NOTICE =
+  "Used by permission of Tyndale House Publishers, Carol Stream, Illinois 60188. All rights reserved.";
+
+export const VERSIONS: VersionEntry[] = [
+  {
+    id: "ESV",
+    name: "English Standard Version",
+    language: "en",
+    copyright:
+      "Scripture quotations are from the ESV® Bible (The Holy Bible, English Standard Version®), " +
+      "© 2001 by Crossway, a publishing ministry of Good News Publishers. Used by permission. All rights reserved.",
+    adapter: esvAdapter,
+    caching: "capped",
+  },
+  {
+    id: "NLT",
+    name: "New Living Translation",
+    language: "en",
+    copyright:
+      "Scripture quotations are taken from the Holy Bible, New Living Translation, " +
+      `copyright © 1996, 2004, 2015 by Tyndale House Foundation. ${TYNDALE_NOTICE}`,
+    adapter: nltAdapter,
+    caching: "capped",
+  },
+  {
+    id: "NLTUK",
+    name: "New Living Translation (UK)",
+    language: "en-GB",
+    copyright:
+      "Scripture quotations are taken from the Holy Bible, New Living Translation (UK edition), " +
+      `copyright © 1996, 2004, 2015 by Tyndale House Foundation. ${TYNDALE_NOTICE}`,
+    adapter: nltAdapter,
+    caching: "capped",
+  },
+  {
+    id: "NTV",
+    name: "Nueva Traducción Viviente",
+    language: "es",
+    copyright:
+      "Texto bíblico tomado de la Santa Biblia, Nueva Traducción Viviente, © Tyndale House Foundation, 2010. " +
+      "Usado con permiso de Tyndale House Publishers, Carol Stream, Illinois 60188. Todos los derechos reservados.",
+    adapter: nltAdapter,
+    caching: "capped",
+  },
+  {
+    id: "KJV",
+    name: "King James Version",
+    language: "en",
+    copyright: "Public domain.",
+    adapter: nltAdapter,
+    caching: "capped",
+  },
+];
+
+/**
+ * Version code → entry
+ */
+export function getVersion(id: string): VersionEntry | undefined {
+  return VERSIONS.find((v) => v.id === id);
+}
+
+/**
+ * The catalog as sent to the app (adapter by id)
+ */
+export function listVersions() {
+  return VERSIONS.map(({ adapter, ...version }) => ({
+    ...version,
+    adapter: adapter.id,
+  }));
+}
@@ -12,26 +12,30 @@ import {
   recordTranscriptionUsage
 } from "../_shared/usage.ts";
 
-const SONIOX_API_KEY = Deno.env.get("SONIOX_API_KEY");
+// Transcription providers
+import { fixtureProvider } from "./providers/fixture.ts";
+import { sonioxProvider } from "./providers/soniox.ts";
+import { TranscriptionProvider, TranscriptionWord } from "./providers/types.ts";
+import { whisperProvider } from "./providers/whisper.ts";
+
 const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
 
+/**
+ * Provider registry, selected with TRANSCRIPTION_PROVIDER (default: soniox)
+ */
+const providers: Record<string, TranscriptionProvider> = {
+  [sonioxProvider.id]: sonioxProvider,
+  [whisperProvider.id]: whisperProvider,
+  [fixtureProvider.id]: fixtureProvider,
+};
+
+const TRANSCRIPTION_PROVIDER = Deno.env.get("TRANSCRIPTION_PROVIDER") ?? sonioxProvider.id;
+
 interface ProcessingResult {
   transcription: string;
   cleanedTranscription: string;
   cleaningUsed: boolean;
-}
-
-interface TranscriptionTiming {
-  uploadMs: number;
-  jobMs: number;
-  pollMs: number;
-  fetchMs: number;
-  totalMs: number;
-}
-
-interface TranscriptionResult {
-  text: string;
-  timing: TranscriptionTiming;
+  words: TranscriptionWord[]; // Timings for the words of `transcription` (raw, not cleaned)
 }
 
 serve(async (req) => {
@@ -54,9 +58,18 @@ serve(async (req) => {
     return unauthorized();
   }
 
+  const provider = providers[TRANSCRIPTION_PROVIDER];
+  if (!provider) {
+    console.error(
+      `[PROCESS] Unknown TRANSCRIPTION_PROVIDER: ${TRANSCRIPTION_PROVIDER}. Supported: ${Object.keys(providers).join(", ")}`
+    );
+    return serverError("Transcription is not configured");
+  }
+
   let audioBlob: Blob;
   let durationSeconds: number;
   let actualVerse: string;
+  let language: string;
 
   try {
     // Parse multipart form data
@@ -64,6 +77,7 @@ serve(async (req) => {
     const audioFile = formData.get("audio");
     const durationStr = formData.get("durationSeconds");
     const verseStr = formData.get("actualVerse");
+    const languageStr = formData.get("language");
 
     if (!audioFile || !(audioFile instanceof File)) {
       return badRequest("Missing audio file");
@@ -78,6 +92,7 @@ serve(async (req) => {
     audioBlob = audioFile;
     durationSeconds = parseFloat(durationStr);
     actualVerse = verseStr;
+    language = typeof languageStr === "string" && languageStr ? languageStr : "en";
 
     if (isNaN(durationSeconds) || durationSeconds <= 0) {
       return badRequest("Invalid durationSeconds");
@@ -85,16 +100,16 @@ serve(async (req) => {
 
     // Quota check removed - usage is still recorded for analytics
     // Rate limiting can be re-enabled server-side without app update
-    console.log(`[PROCESS] User: ${user.id.slice(0, 8)}..., Duration: ${durationSeconds}s, Size: ${(audioBlob.size / 1024).toFixed(1)}KB`);
+    console.log(`[PROCESS] User: ${user.id.slice(0, 8)}..., Duration: ${durationSeconds}s, Language: ${language}, Size: ${(audioBlob.size / 1024).toFixed(1)}KB`);
 
     const transcribeStart = Date.now();
-    const transcriptionResult = await transcribeWithSoniox(audioBlob, actualVerse);
+    const transcriptionResult = await provider.transcribe(audioBlob, actualVerse, language);
     const transcription = transcriptionResult.text;
     const transcribeTiming = transcriptionResult.timing;
     const transcribeMs = Date.now() - transcribeStart;
 
     const rawWordCount = transcription.split(/\s+/).filter(Boolean).length;
-    console.log(`[PROCESS] Transcription: ${transcribeMs}ms`);
+    console.log(`[PROCESS] Transcription (${provider.id}): ${transcribeMs}ms`);
     console.log(`[PROCESS] Raw (${rawWordCount} words, ${transcription.length} chars): "${transcription.slice(0, 200)}${transcription.length > 200 ? "..." : ""}"`);
 
     // Record transcription usage
@@ -153,16 +168,19 @@ serve(async (req) => {
     const sizeKB = (audioBlob.size / 1024).toFixed(1);
 
     // Comprehensive summary log
+    const stepTimings = Object.entries(transcribeTiming.steps)
+      .map(([step, ms]) => `${step[0].toUpperCase()}${step.slice(1).replace(/Ms$/, "")}: ${ms}ms`)
+      .join(" | ");
     console.log(
       `[PROCESS] ✓ ${totalMs}ms | ${durationSeconds}s recording (${sizeKB}KB) | ${wordCount} words\n` +
-      `         → Auth: ${authMs}ms | Upload: ${transcribeTiming.uploadMs}ms | Job: ${transcribeTiming.jobMs}ms | ` +
-      `Poll: ${transcribeTiming.pollMs}ms | Fetch: ${transcribeTiming.fetchMs}ms | Usage: ${recordMs}ms`
+      `         → Auth: ${authMs}ms | ${provider.id} ${stepTimings || `${transcribeTiming.totalMs}ms`} | Usage: ${recordMs}ms`
     );
 
     return jsonResponse({
       transcription,
       cleanedTranscription,
       cleaningUsed,
+      words: transcriptionResult.words,
     } satisfies ProcessingResult);
   } catch (error) {
     console.error("[PROCESS] Error:", error);
@@ -170,140 +188,6 @@ serve(async (req) => {
   }
 });
 
-/**
- * Transcribe audio using Soniox async API
- * @param audioBlob - The audio file to transcribe
- * @param verseText - The expected verse text for context (improves accuracy)
- */
-async function transcribeWithSoniox(audioBlob: Blob, verseText: string): Promise<TranscriptionResult> {
-  if (!SONIOX_API_KEY) {
-    throw new Error("SONIOX_API_KEY not configured");
-  }
-
-  // Step 1: Upload audio file
-  const uploadStart = Date.now();
-  console.log(`[PROCESS] Soniox upload - Size: ${(audioBlob.size / 1024).toFixed(1)}KB, Type: ${audioBlob.type || "unknown"}`);
-
-  const uploadForm = new FormData();
-  uploadForm.append("file", audioBlob, "recording.m4a");
-
-  const uploadRes = await fetch("https://api.soniox.com/v1/files", {
-    method: "POST",
-    headers: { Authorization: `Bearer ${SONIOX_API_KEY}` },
-    body: uploadForm,
-  });
-
-  if (!uploadRes.ok) {
-    const error = await uploadRes.text();
-    console.error("Soniox upload error:", error);
-    throw new Error("Failed to upload audio");
-  }
-
-  const uploadResult = await uploadRes.json();
-  const fileId = uploadResult.id;
-  const uploadMs = Date.now() - uploadStart;
-  console.log(`[PROCESS] Soniox upload complete: ${uploadMs}ms, ID: ${fileId}`);
-
-  // Step 2: Create transcription job with verse context
-  const jobStart = Date.now();
-  console.log(`[PROCESS] Soniox context: ${verseText.length} chars`);
-  const jobRes = await fetch("https://api.soniox.com/v1/transcriptions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${SONIOX_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      file_id: fileId,
-      model: "stt-async-v3",
-      language_hints: ["en"],
-      context: {
-        general: [
-          { key: "domain", value: "Bible" },
-          { key: "topic", value: "Bible verse memory recitation attempt" },
-        ],
-        text: verseText,
-      },
-    }),
-  });
-
-  if (!jobRes.ok) {
-    const error = await jobRes.text();
-    console.error("Soniox job error:", error);
-    throw new Error("Failed to create transcription job");
-  }
-
-  const { id: transcriptionId } = await jobRes.json();
-  const jobMs = Date.now() - jobStart;
-  console.log(`[PROCESS] Soniox job created: ${jobMs}ms`);
-
-  // Step 3: Poll for completion (max 60 seconds)
-  const pollStart = Date.now();
-  let attempts = 0;
-  const maxAttempts = 60;
-
-  while (attempts < maxAttempts) {
-    const statusRes = await fetch(
-      `https://api.soniox.com/v1/transcriptions/${transcriptionId}`,
-      { headers: { Authorization: `Bearer ${SONIOX_API_KEY}` } }
-    );
-
-    if (!statusRes.ok) {
-      throw new Error("Failed to check transcription status");
-    }
-
-    const status = await statusRes.json();
-
-    if (status.status === "completed") {
-      break;
-    }
-
-    if (status.status === "error") {
-      console.error("[PROCESS] Soniox transcription error:", JSON.stringify(status));
-      throw new Error(`Transcription failed: ${status.error || status.message || "unknown error"}`);
-    }
-
-    // Wait 1 second before polling again
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    attempts++;
-  }
-
-  if (attempts >= maxAttempts) {
-    throw new Error("Transcription timed out");
-  }
-
-  const pollMs = Date.now() - pollStart;
-  console.log(`[PROCESS] Soniox polling complete: ${pollMs}ms (${attempts + 1} polls)`);
-
-  // Step 4: Get transcript
-  const fetchStart = Date.now();
-  const transcriptRes = await fetch(
-    `https://api.soniox.com/v1/transcriptions/${transcriptionId}/transcript`,
-    { headers: { Authorization: `Bearer ${SONIOX_API_KEY}` } }
-  );
-
-  if (!transcriptRes.ok) {
-    throw new Error("Failed to get transcript");
-  }
-
-  const { text } = await transcriptRes.json();
-  const fetchMs = Date.now() - fetchStart;
-  console.log(`[PROCESS] Soniox fetch transcript: ${fetchMs}ms`);
-
-  const totalMs = Date.now() - uploadStart;
-
-  return {
-    text,
-    timing: {
-      uploadMs,
-      jobMs,
-      pollMs,
-      fetchMs,
-      totalMs,
-    },
-  };
-}
-
 interface CleaningResult {
   text: string;
   usage?: {
@@ -0,0 +1,53 @@
+/**
+ * Fixture Transcription Provider
+ *
+ * Deterministic, offline stand-in for a speech-to-text service, so the whole
+ * recitation flow runs locally and in tests without an API key. The audio
+ * is ignored:
+ * - TRANSCRIPTION_FIXTURE_TEXT set: always returns that text
+ * - otherwise: returns the expected verse (a perfect recitation), dropping
+ *   every Nth word if TRANSCRIPTION_FIXTURE_DROP_EVERY=N is set
+ * Word timings are evenly spaced, with full confidence.
+ */
+
+import { TranscriptionProvider, TranscriptionResult, TranscriptionWord } from "./types.ts";
+
+const FIXTURE_TEXT = Deno.env.get("TRANSCRIPTION_FIXTURE_TEXT");
+const FIXTURE_DROP_EVERY = parseInt(Deno.env.get("TRANSCRIPTION_FIXTURE_DROP_EVERY") ?? "0", 10);
+
+const FIXTURE_WORD_MS = 400;
+
+/**
+ * The verse as a transcript would read it: lowercase words, no punctuation
+ */
+function recite(verseText: string, dropEvery: number): string {
+  return verseText
+    .split(/\s+/)
+    .map((word) => word.toLowerCase().replace(/[^\p{L}\p{N}'-]/gu, ""))
+    .filter((word, i) => word.length > 0 && !(dropEvery > 0 && (i + 1) % dropEvery === 0))
+    .join(" ");
+}
+
+async function transcribeWithFixture(_audioBlob: Blob, verseText: string): Promise<TranscriptionResult> {
+  const text = FIXTURE_TEXT ?? recite(verseText, FIXTURE_DROP_EVERY);
+  console.log(`[PROCESS] Fixture transcription (${FIXTURE_TEXT ? "fixed text" : `echo, drop every ${FIXTURE_DROP_EVERY || "-"}`})`);
+
+  const words: TranscriptionWord[] = text.split(/\s+/).filter(Boolean).map((word, i) => ({
+    text: word,
+    startMs: i * FIXTURE_WORD_MS,
+    endMs: (i + 1) * FIXTURE_WORD_MS - 50,
+    confidence: 1,
+  }));
+
+  return {
+    text,
+    words,
+    timing: { steps: {}, totalMs: 0 },
+  };
+}
+
+export const fixtureProvider: TranscriptionProvider = {
+  id: "fixture",
+  name: "Deterministic fixture",
+  transcribe: transcribeWithFixture,
+};
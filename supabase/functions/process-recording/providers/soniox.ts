@@ -0,0 +1,150 @@
+/**
+ * Soniox Transcription Provider
+ *
+ * Uses the Soniox async API: upload the file, create a job with the verse
+ * as context, poll once a second (up to 60s), then fetch the transcript.
+ */
+
+import { wordsFromTokens } from "../../_shared/word-timings.ts";
+import { audioFileName, TranscriptionProvider, TranscriptionResult } from "./types.ts";
+
+const SONIOX_API_KEY = Deno.env.get("SONIOX_API_KEY");
+
+/**
+ * Transcribe audio using Soniox async API
+ * @param audioBlob - The audio file to transcribe
+ * @param verseText - The expected verse text for context (improves accuracy)
+ * @param language - Language of the verse text, passed as a hint
+ */
+async function transcribeWithSoniox(audioBlob: Blob, verseText: string, language: string): Promise<TranscriptionResult> {
+  if (!SONIOX_API_KEY) {
+    throw new Error("SONIOX_API_KEY not configured");
+  }
+
+  // Step 1: Upload audio file
+  const uploadStart = Date.now();
+  console.log(`[PROCESS] Soniox upload - Size: ${(audioBlob.size / 1024).toFixed(1)}KB, Type: ${audioBlob.type || "unknown"}`);
+
+  const uploadForm = new FormData();
+  uploadForm.append("file", audioBlob, audioFileName(audioBlob));
+
+  const uploadRes = await fetch("https://api.soniox.com/v1/files", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${SONIOX_API_KEY}` },
+    body: uploadForm,
+  });
+
+  if (!uploadRes.ok) {
+    const error = await uploadRes.text();
+    console.error("Soniox upload error:", error);
+    throw new Error("Failed to upload audio");
+  }
+
+  const uploadResult = await uploadRes.json();
+  const fileId = uploadResult.id;
+  const uploadMs = Date.now() - uploadStart;
+  console.log(`[PROCESS] Soniox upload complete: ${uploadMs}ms, ID: ${fileId}`);
+
+  // Step 2: Create transcription job with verse context
+  const jobStart = Date.now();
+  console.log(`[PROCESS] Soniox context: ${verseText.length} chars`);
+  const jobRes = await fetch("https://api.soniox.com/v1/transcriptions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${SONIOX_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      file_id: fileId,
+      model: "stt-async-v3",
+      language_hints: [language],
+      context: {
+        general: [
+          { key: "domain", value: "Bible" },
+          { key: "topic", value: "Bible verse memory recitation attempt" },
+        ],
+        text: verseText,
+      },
+    }),
+  });
+
+  if (!jobRes.ok) {
+    const error = await jobRes.text();
+    console.error("Soniox job error:", error);
+    throw new Error("Failed to create transcription job");
+  }
+
+  const { id: transcriptionId } = await jobRes.json();
+  const jobMs = Date.now() - jobStart;
+  console.log(`[PROCESS] Soniox job created: ${jobMs}ms`);
+
+  // Step 3: Poll for completion (max 60 seconds)
+  const pollStart = Date.now();
+  let attempts = 0;
+  const maxAttempts = 60;
+
+  while (attempts < maxAttempts) {
+    const statusRes = await fetch(
+      `https://api.soniox.com/v1/transcriptions/${transcriptionId}`,
+      { headers: { Authorization: `Bearer ${SONIOX_API_KEY}` } }
+    );
+
+    if (!statusRes.ok) {
+      throw new Error("Failed to check transcription status");
+    }
+
+    const status = await statusRes.json();
+
+    if (status.status === "completed") {
+      break;
+    }
+
+    if (status.status === "error") {
+      console.error("[PROCESS] Soniox transcription error:", JSON.stringify(status));
+      throw new Error(`Transcription failed: ${status.error || status.message || "unknown error"}`);
+    }
+
+    // Wait 1 second before polling again
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    attempts++;
+  }
+
+  if (attempts >= maxAttempts) {
+    throw new Error("Transcription timed out");
+  }
+
+  const pollMs = Date.now() - pollStart;
+  console.log(`[PROCESS] Soniox polling complete: ${pollMs}ms (${attempts + 1} polls)`);
+
+  // Step 4: Get transcript
+  const fetchStart = Date.now();
+  const transcriptRes = await fetch(
+    `https://api.soniox.com/v1/transcriptions/${transcriptionId}/transcript`,
+    { headers: { Authorization: `Bearer ${SONIOX_API_KEY}` } }
+  );
+
+  if (!transcriptRes.ok) {
+    throw new Error("Failed to get transcript");
+  }
+
+  const { text, tokens } = await transcriptRes.json();
+  const fetchMs = Date.now() - fetchStart;
+  console.log(`[PROCESS] Soniox fetch transcript: ${fetchMs}ms`);
+
+  const totalMs = Date.now() - uploadStart;
+
+  return {
+    text,
+    words: wordsFromTokens(tokens ?? []),
+    timing: {
+      steps: { uploadMs, jobMs, pollMs, fetchMs },
+      totalMs,
+    },
+  };
+}
+
+export const sonioxProvider: TranscriptionProvider = {
+  id: "soniox",
+  name: "Soniox async API",
+  transcribe: transcribeWithSoniox,
+};
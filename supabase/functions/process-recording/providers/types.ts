@@ -0,0 +1,55 @@
+/**
+ * Transcription Provider Types
+ *
+ * Common interface for all speech-to-text providers.
+ * Each provider implements this so process-recording doesn't care which
+ * service (or fixture) turned the audio into text.
+ */
+
+import type { TranscriptionWord } from "../../_shared/word-timings.ts";
+
+export type { TranscriptionWord };
+
+/**
+ * Time spent in each provider step, for the summary log
+ * (e.g. { uploadMs, jobMs, pollMs, fetchMs } for Soniox)
+ */
+export interface TranscriptionTiming {
+  steps: Record<string, number>;
+  totalMs: number;
+}
+
+/**
+ * Standard transcription result (all providers return this)
+ */
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptionWord[]; // Per-word timings, one per whitespace-separated word of text ([] if unavailable)
+  timing: TranscriptionTiming;
+}
+
+/**
+ * Provider interface - each speech-to-text service implements this
+ */
+export interface TranscriptionProvider {
+  /** Unique identifier, used in TRANSCRIPTION_PROVIDER (e.g., "soniox", "whisper") */
+  id: string;
+
+  /** Human-readable name */
+  name: string;
+
+  /**
+   * Transcribe a recording
+   * @param audio - The recorded audio (m4a, or wav/aac if it was recorded for live transcription)
+   * @param verseText - The expected verse text, as context to improve accuracy
+   * @param language - Language of the verse text (e.g., "en", "es")
+   */
+  transcribe(audio: Blob, verseText: string, language: string): Promise<TranscriptionResult>;
+}
+
+/**
+ * File name to upload audio under - the extension tells some services the format
+ */
+export function audioFileName(audio: Blob): string {
+  return audio instanceof File && audio.name ? audio.name : "recording.m4a";
+}
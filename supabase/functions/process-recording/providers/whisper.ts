@@ -0,0 +1,79 @@
+/**
+ * Whisper-Compatible Transcription Provider
+ *
+ * Works with any server that implements OpenAI's
+ * POST /audio/transcriptions endpoint (OpenAI, Groq, faster-whisper-server, ...).
+ * Single synchronous request - no upload or polling step.
+ * Word timings come from verbose_json (Whisper reports no per-word confidence).
+ */
+
+import { audioFileName, TranscriptionProvider, TranscriptionResult, TranscriptionWord } from "./types.ts";
+
+const WHISPER_API_URL = Deno.env.get("WHISPER_API_URL") ?? "https://api.openai.com/v1";
+const WHISPER_API_KEY = Deno.env.get("WHISPER_API_KEY") ?? Deno.env.get("OPENAI_API_KEY");
+const WHISPER_MODEL = Deno.env.get("WHISPER_MODEL") ?? "whisper-1";
+
+/**
+ * Whisper only uses ~224 tokens of prompt,
+ * so long passages are trimmed to their opening words
+ */
+const MAX_PROMPT_CHARS = 800;
+
+async function transcribeWithWhisper(audioBlob: Blob, verseText: string, language: string): Promise<TranscriptionResult> {
+  const requestStart = Date.now();
+  console.log(`[PROCESS] Whisper request - Model: ${WHISPER_MODEL}, Size: ${(audioBlob.size / 1024).toFixed(1)}KB`);
+
+  const form = new FormData();
+  form.append("file", audioBlob, audioFileName(audioBlob));
+  form.append("model", WHISPER_MODEL);
+  form.append("language", language);
+  form.append("response_format", "verbose_json");
+  form.append("timestamp_granularities[]", "word");
+  form.append("prompt", verseText.slice(0, MAX_PROMPT_CHARS));
+
+  // Self-hosted servers often run without auth
+  const headers: Record<string, string> = {};
+  if (WHISPER_API_KEY) {
+    headers.Authorization = `Bearer ${WHISPER_API_KEY}`;
+  }
+
+  const res = await fetch(`${WHISPER_API_URL.replace(/\/$/, "")}/audio/transcriptions`, {
+    method: "POST",
+    headers,
+    body: form,
+  });
+
+  if (!res.ok) {
+    const error = await res.text();
+    console.error("Whisper transcription error:", res.status, error);
+    throw new Error("Failed to transcribe audio");
+  }
+
+  const { text, words } = await res.json();
+  const requestMs = Date.now() - requestStart;
+  console.log(`[PROCESS] Whisper transcription complete: ${requestMs}ms`);
+
+  // Seconds → ms
+  const wordTimings: TranscriptionWord[] = (words ?? []).map(
+    (w: { word: string; start: number; end: number }) => ({
+      text: w.word.trim(),
+      startMs: Math.round(w.start * 1000),
+      endMs: Math.round(w.end * 1000),
+    })
+  );
+
+  return {
+    text: (text ?? "").trim(),
+    words: wordTimings,
+    timing: {
+      steps: { requestMs },
+      totalMs: requestMs,
+    },
+  };
+}
+
+export const whisperProvider: TranscriptionProvider = {
+  id: "whisper",
+  name: "Whisper-compatible API",
+  transcribe: transcribeWithWhisper,
+};
@@ -0,0 +1,227 @@
+/**
+ * Live Transcription
+ *
+ * WebSocket relay between the app and the Soniox real-time API, so words can
+ * be highlighted while the user is still reciting. The app streams the
+ * recording file as it grows; partial transcripts come back as they arrive.
+ *
+ * Protocol (JSON text frames, audio as binary frames):
+ * - app → function: { type: "start", actualVerse, language?, audioFormat, sampleRate?, numChannels? },
+ *   audio..., { type: "finish" }
+ * - function → app: { type: "partial", text }..., then { type: "final", transcription, words }
+ *   or { type: "error", error }
+ *
+ * Only available when TRANSCRIPTION_PROVIDER is soniox (the default). Otherwise
+ * the upgrade is refused and the app uploads the recording to process-recording.
+ */
+
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { verifyJwt } from "../_shared/auth.ts";
+import { handleCors } from "../_shared/cors.ts";
+import { badRequest, serverError, unauthorized } from "../_shared/errors.ts";
+import { recordTranscriptionUsage } from "../_shared/usage.ts";
+import {
+  isControlToken,
+  SonioxToken,
+  TranscriptionWord,
+  wordsFromTokens,
+} from "../_shared/word-timings.ts";
+
+const SONIOX_API_KEY = Deno.env.get("SONIOX_API_KEY");
+const TRANSCRIPTION_PROVIDER = Deno.env.get("TRANSCRIPTION_PROVIDER") ?? "soniox";
+
+const SONIOX_WS_URL = "wss://stt-rt.soniox.com/transcribe-websocket";
+
+interface StartMessage {
+  type: "start";
+  actualVerse: string;
+  language?: string; // Language of the verse text (e.g., "es"); defaults to "en"
+  audioFormat: "auto" | "pcm_s16le";
+  sampleRate?: number;
+  numChannels?: number;
+}
+
+type ClientMessage = StartMessage | { type: "finish" };
+
+type ServerMessage =
+  | { type: "partial"; text: string }
+  | { type: "final"; transcription: string; words: TranscriptionWord[] }
+  | { type: "error"; error: string };
+
+interface SonioxResponse {
+  tokens?: SonioxToken[];
+  total_audio_proc_ms?: number;
+  finished?: boolean;
+  error_code?: number;
+  error_message?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+    return badRequest("Expected a WebSocket upgrade");
+  }
+
+  const user = await verifyJwt(req);
+  if (!user) {
+    return unauthorized();
+  }
+
+  if (TRANSCRIPTION_PROVIDER !== "soniox" || !SONIOX_API_KEY) {
+    console.error(`[STREAM] Live transcription unavailable (provider: ${TRANSCRIPTION_PROVIDER})`);
+    return serverError("Live transcription is not configured");
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req);
+  relaySession(socket, user.id);
+  return response;
+});
+
+/**
+ * Relay one recitation: app audio → Soniox, Soniox tokens → app transcripts
+ */
+function relaySession(client: WebSocket, userId: string): void {
+  client.binaryType = "arraybuffer";
+  const sessionStart = Date.now();
+  let soniox: WebSocket | null = null;
+  let sonioxOpen = false;
+  const pending: (ArrayBuffer | string)[] = []; // Received before Soniox connected
+  const finalTokens: SonioxToken[] = [];
+  let audioMs = 0;
+  let done = false;
+
+  const send = (message: ServerMessage) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  };
+
+  const toSoniox = (data: ArrayBuffer | string) => {
+    if (sonioxOpen) {
+      soniox!.send(data);
+    } else {
+      pending.push(data);
+    }
+  };
+
+  const fail = (error: string) => {
+    if (done) return;
+    done = true;
+    console.error(`[STREAM] Error: ${error}`);
+    send({ type: "error", error });
+    soniox?.close();
+    client.close();
+  };
+
+  const finish = async () => {
+    if (done) return;
+    done = true;
+
+    const transcription = finalTokens.map((t) => t.text).join("").trim();
+    const durationSeconds = Math.ceil(audioMs / 1000);
+    try {
+      if (durationSeconds > 0) await recordTranscriptionUsage(userId, durationSeconds);
+    } catch (e) {
+      console.error("[STREAM] Failed to record usage:", e);
+    }
+
+    send({ type: "final", transcription, words: wordsFromTokens(finalTokens) });
+    console.log(
+      `[STREAM] ✓ ${Date.now() - sessionStart}ms session | ${durationSeconds}s audio | ` +
+      `${transcription.split(/\s+/).filter(Boolean).length} words`
+    );
+    soniox?.close();
+    client.close();
+  };
+
+  const connectSoniox = (start: StartMessage) => {
+    console.log(`[STREAM] User: ${userId.slice(0, 8)}..., Format: ${start.audioFormat}, Language: ${start.language ?? "en"}, Context: ${start.actualVerse.length} chars`);
+
+    soniox = new WebSocket(SONIOX_WS_URL);
+
+    soniox.onopen = () => {
+      soniox!.send(JSON.stringify({
+        api_key: SONIOX_API_KEY,
+        model: "stt-rt-v3",
+        audio_format: start.audioFormat,
+        sample_rate: start.sampleRate,
+        num_channels: start.numChannels,
+        language_hints: [start.language ?? "en"],
+        context: {
+          general: [
+            { key: "domain", value: "Bible" },
+            { key: "topic", value: "Bible verse memory recitation attempt" },
+          ],
+          text: start.actualVerse,
+        },
+      }));
+      sonioxOpen = true;
+      pending.splice(0).forEach((data) => soniox!.send(data));
+    };
+
+    soniox.onmessage = (event) => {
+      const result = JSON.parse(event.data) as SonioxResponse;
+
+      if (result.error_code) {
+        fail(`Soniox ${result.error_code}: ${result.error_message}`);
+        return;
+      }
+
+      // Final tokens never change; non-final ones are replaced by each response
+      let interimText = "";
+      for (const token of result.tokens ?? []) {
+        if (isControlToken(token)) continue;
+        if (token.is_final) {
+          finalTokens.push(token);
+        } else {
+          interimText += token.text;
+        }
+      }
+      audioMs = result.total_audio_proc_ms ?? audioMs;
+
+      if (result.finished) {
+        finish();
+      } else {
+        const finalText = finalTokens.map((t) => t.text).join("");
+        send({ type: "partial", text: (finalText + interimText).trim() });
+      }
+    };
+
+    soniox.onerror = () => fail("Transcription stream failed");
+    soniox.onclose = () => {
+      if (!done) fail("Transcription stream closed");
+    };
+  };
+
+  client.onmessage = (event) => {
+    if (done) return;
+
+    // Audio
+    if (typeof event.data !== "string") {
+      if (!soniox) {
+        fail("Audio sent before start");
+        return;
+      }
+      toSoniox(event.data);
+      return;
+    }
+
+    const message = JSON.parse(event.data) as ClientMessage;
+    if (message.type === "start" && !soniox) {
+      connectSoniox(message);
+    } else if (message.type === "finish" && !soniox) {
+      fail("Finish sent before start");
+    } else if (message.type === "finish") {
+      // An empty frame tells Soniox the audio is over; it answers with finished: true
+      toSoniox("");
+    }
+  };
+
+  client.onclose = () => {
+    done = true;
+    soniox?.close();
+  };
+}
@@ -0,0 +1,15 @@
+-- Spaced-repetition review schedule (SM-2)
+-- Derived from session_attempts and stored next to each saved verse
+-- so every device sees the same due dates.
+
+ALTER TABLE user_verses
+  ADD COLUMN review_due_at TIMESTAMPTZ,                      -- next review (NULL = never practiced)
+  ADD COLUMN review_ease DECIMAL NOT NULL DEFAULT 2.5,       -- SM-2 ease factor (>= 1.3)
+  ADD COLUMN review_interval_days DECIMAL NOT NULL DEFAULT 0, -- current interval in days
+  ADD COLUMN review_repetitions INT NOT NULL DEFAULT 0,      -- consecutive successful reviews
+  ADD COLUMN review_last_at TIMESTAMPTZ,                     -- last attempt used by the scheduler
+  ADD COLUMN review_reset_at TIMESTAMPTZ;                    -- attempts before this are ignored
+
+-- Index for "what's due" queries
+CREATE INDEX idx_user_verses_review_due ON user_verses(user_id, review_due_at)
+  WHERE deleted_at IS NULL;
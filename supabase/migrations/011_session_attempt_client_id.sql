@@ -0,0 +1,9 @@
+-- Client-generated IDs for session attempts
+-- Attempts logged offline are replayed from the device outbox; the client_id
+-- makes a replay of an attempt that already landed a no-op.
+
+ALTER TABLE session_attempts ADD COLUMN client_id TEXT;
+
+-- NULLs (attempts logged before this migration) never conflict
+ALTER TABLE session_attempts
+  ADD CONSTRAINT session_attempts_user_client_unique UNIQUE (user_id, client_id);
@@ -0,0 +1,7 @@
+-- Scoring profile used to grade each attempt
+-- Accuracy from a strict session isn't comparable to a lenient one, so
+-- every attempt records the rubric it was scored with.
+
+ALTER TABLE session_attempts
+  ADD COLUMN scoring_profile TEXT NOT NULL DEFAULT 'standard'
+  CHECK (scoring_profile IN ('standard', 'strict', 'lenient'));
@@ -0,0 +1,7 @@
+-- How each attempt was recited
+-- Typed answers are graded with the same alignment as spoken ones, but their
+-- accuracy isn't comparable, so insights need to tell them apart.
+
+ALTER TABLE session_attempts
+  ADD COLUMN input_mode TEXT NOT NULL DEFAULT 'spoken'
+  CHECK (input_mode IN ('spoken', 'typed'));
@@ -0,0 +1,30 @@
+-- Difficulty modes as data
+-- session_attempts.difficulty and the keys of user_verses.progress were a fixed
+-- easy/medium/hard set. Modes now live in a lookup table, so a new mode is one
+-- INSERT (plus the client's lib/difficulty.ts).
+
+CREATE TABLE difficulty_modes (
+  id TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  sort_order INT NOT NULL,             -- easiest first
+  is_mastery BOOLEAN NOT NULL DEFAULT false
+);
+
+INSERT INTO difficulty_modes (id, label, sort_order, is_mastery) VALUES
+  ('easy', 'Easy', 1, false),
+  ('medium', 'Medium', 2, false),
+  ('letters', 'First Letters', 3, false),
+  ('hard', 'Hard', 4, true);
+
+ALTER TABLE difficulty_modes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read difficulty modes"
+  ON difficulty_modes FOR SELECT
+  USING (true);
+
+ALTER TABLE session_attempts
+  ADD CONSTRAINT session_attempts_difficulty_fkey
+  FOREIGN KEY (difficulty) REFERENCES difficulty_modes(id);
+
+-- Progress only carries modes that were attempted
+ALTER TABLE user_verses ALTER COLUMN progress SET DEFAULT '{}'::jsonb;
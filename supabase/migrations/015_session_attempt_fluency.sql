@@ -0,0 +1,9 @@
+-- How fluently each spoken attempt was recited
+-- A slow recitation full of long pauses isn't mastery, even if every word is right.
+-- Pauses need word timings from the transcription, so they can be NULL on
+-- spoken attempts too; typed attempts have no fluency at all.
+
+ALTER TABLE session_attempts
+  ADD COLUMN words_per_minute INT CHECK (words_per_minute >= 0),
+  ADD COLUMN longest_pause_ms INT CHECK (longest_pause_ms >= 0),   -- longest gap between two said words
+  ADD COLUMN hesitation_count INT CHECK (hesitation_count >= 0);   -- gaps of 1.5s or more
@@ -0,0 +1,6 @@
+-- Hints taken during each attempt
+-- A hint reveals the next word (or its first letter) and costs part of a word
+-- in the score; the count lets insights show how much a verse leans on hints.
+
+ALTER TABLE session_attempts
+  ADD COLUMN hint_count INT NOT NULL DEFAULT 0 CHECK (hint_count >= 0);
@@ -0,0 +1,8 @@
+-- Public-domain translations
+-- KJV is served by the bible function (through the Tyndale API), so verses
+-- can be saved in it too.
+
+ALTER TABLE user_verses DROP CONSTRAINT user_verses_version_check;
+ALTER TABLE user_verses
+  ADD CONSTRAINT user_verses_version_check
+  CHECK (version IN ('ESV', 'NLT', 'KJV'));
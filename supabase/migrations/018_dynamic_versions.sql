@@ -0,0 +1,8 @@
+-- Versions come from the bible function's catalog (GET /bible/versions)
+-- A hard-coded list here would need a migration for every new translation;
+-- the function already rejects versions it doesn't serve.
+
+ALTER TABLE user_verses DROP CONSTRAINT user_verses_version_check;
+ALTER TABLE user_verses
+  ADD CONSTRAINT user_verses_version_check
+  CHECK (version ~ '^[A-Z0-9]{2,10}$');
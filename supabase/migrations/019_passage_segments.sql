@@ -0,0 +1,19 @@
+-- Passages made of more than one segment
+-- "Isaiah 52:13-53:12" or "Romans 8:28, 38-39" can't be stored as one
+-- chapter/verse_start/verse_end. Those columns keep the first segment (so
+-- sorting and single-range lookups still work) and `segments` holds all of
+-- them: [{ "chapter": 52, "verseStart": 13, "verseEnd": 15 }, ...].
+-- NULL for single-segment passages.
+
+ALTER TABLE user_verses
+  ADD COLUMN segments JSONB CHECK (segments IS NULL OR jsonb_typeof(segments) = 'array');
+
+ALTER TABLE session_attempts
+  ADD COLUMN segments JSONB CHECK (segments IS NULL OR jsonb_typeof(segments) = 'array');
+
+-- Two passages can share their first segment ("Romans 8:28" and
+-- "Romans 8:28, 38-39"), so segments is part of a verse's identity
+DROP INDEX idx_user_verses_unique_verse;
+CREATE UNIQUE INDEX idx_user_verses_unique_verse
+ON user_verses(user_id, book, chapter, verse_start, verse_end, version, COALESCE(segments, '[]'::jsonb))
+WHERE deleted_at IS NULL;
@@ -0,0 +1,18 @@
+-- User-arranged collections
+-- sort_order is the position in the library (lowest first), set when
+-- collections are dragged into a new order. Existing collections keep their
+-- creation order. icon (SF Symbol name) and icon_color (hex) are NULL until
+-- the user picks one, and the app falls back to its defaults.
+
+ALTER TABLE user_collections
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN icon TEXT,
+  ADD COLUMN icon_color TEXT CHECK (icon_color IS NULL OR icon_color ~ '^#[0-9a-fA-F]{6}$');
+
+UPDATE user_collections
+SET sort_order = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at) AS position
+  FROM user_collections
+) AS ordered
+WHERE user_collections.id = ordered.id;